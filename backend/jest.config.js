@@ -0,0 +1,14 @@
+// Unit tests (src/**/*.test.ts) run through ts-jest. Imports keep their NodeNext .js suffix in source,
+// so it is mapped back to the .ts file.
+module.exports = {
+    testEnvironment: 'node',
+    transform: {
+        // 151002: ts-jest only half-supports NodeNext; the tests compile to CommonJS like the build does
+        '^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: [151002] } }],
+    },
+    roots: ['<rootDir>/src'],
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
+    setupFiles: ['<rootDir>/jest.setup.js'],
+};
@@ -0,0 +1,2 @@
+// Keep test output to failures
+process.env.LOG_LEVEL = 'error';
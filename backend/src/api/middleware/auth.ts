@@ -0,0 +1,94 @@
+// Authentication. Accepts an API key (Authorization: Bearer urk_... or X-API-Key), a session
+// JWT (Authorization: Bearer), or the dashboard session cookie  EventSource can't set headers,
+// so the SSE stream relies on the cookie. Sets req.principal on success.
+
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { config } from '../../config/index.js';
+import { authService } from '../../services/auth/authService.js';
+import { Principal, PrincipalType, Role } from '../../models/auth.js';
+import { DEFAULT_TENANT_ID } from '../../models/tenant.js';
+import { UnauthorizedError } from './error.js';
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace Express {
+        interface Request {
+            principal?: Principal;
+        }
+    }
+}
+
+export const SESSION_COOKIE = 'urumi_session';
+
+const ANONYMOUS: Principal = {
+    id: 'anonymous',
+    name: 'anonymous',
+    type: PrincipalType.ANONYMOUS,
+    tenantId: DEFAULT_TENANT_ID,
+    role: Role.ADMIN,              // Auth disabled means everyone has full access
+};
+
+export function sessionCookieOptions(): CookieOptions {
+    return {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: config.nodeEnv === 'production',
+        path: '/api',
+    };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+    const header = req.headers.cookie;
+    if (!header) {
+        return undefined;
+    }
+
+    for (const part of header.split(';')) {
+        const index = part.indexOf('=');
+        if (index > 0 && part.slice(0, index).trim() === name) {
+            return decodeURIComponent(part.slice(index + 1).trim());
+        }
+    }
+    return undefined;
+}
+
+async function resolvePrincipal(req: Request): Promise<Principal | null> {
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+        const token = authorization.slice('Bearer '.length).trim();
+        return token.startsWith('urk_')
+            ? authService.authenticateApiKey(token)
+            : authService.verifySession(token);
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string') {
+        return authService.authenticateApiKey(apiKey);
+    }
+
+    const session = readCookie(req, SESSION_COOKIE);
+    if (session) {
+        return authService.verifySession(session);
+    }
+
+    return null;
+}
+
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+    if (!config.authEnabled) {
+        req.principal = ANONYMOUS;
+        return next();
+    }
+
+    try {
+        const principal = await resolvePrincipal(req);
+        if (!principal) {
+            return next(new UnauthorizedError());
+        }
+
+        req.principal = principal;
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
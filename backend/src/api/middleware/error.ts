@@ -2,8 +2,11 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../../utils/logger.js';
+import { httpRequestDuration } from '../../utils/metrics.js';
 import { TimeoutError } from '../../utils/timeout.js';
 import { ZodError } from 'zod';
+import { InvalidTransitionError } from '../../models/store.js';
+import { QuotaExceededError } from '../../models/tenant.js';
 import { config } from '../../config/index.js';
 
 export class AppError extends Error {
@@ -44,17 +47,44 @@ export class ValidationError extends AppError {
     }
 }
 
+export class UnauthorizedError extends AppError {
+    constructor(message: string = 'Authentication required') {
+        super(message, 401, 'UNAUTHORIZED');
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message: string = 'Not allowed', details?: unknown) {
+        super(message, 403, 'FORBIDDEN', true, details);
+    }
+}
+
 export class K8sApiError extends AppError {
     constructor(message: string, details?: unknown) {
         super(message, 502, 'K8S_API_ERROR', true, details);
     }
 }
 
+// Express pattern of the matched route (/api/stores/:id)  bounded, unlike the path. Undefined if none matched.
+export function routePattern(req: Request): string | undefined {
+    return req.route ? `${req.baseUrl}${req.route.path}` : undefined;
+}
+
 export function requestLogger(req: Request, res: Response, next: NextFunction) {
     const startTime = Date.now();
 
     res.on('finish', () => {
         const duration = Date.now() - startTime;
+
+        httpRequestDuration.observe(
+            {
+                method: req.method,
+                route: routePattern(req) ?? 'unmatched',
+                status_code: res.statusCode,
+            },
+            duration / 1000
+        );
+
         const log = logger.child({
             method: req.method,
             path: req.path,
@@ -124,6 +154,26 @@ export function errorHandler(
         details = { operation: err.operation, timeoutMs: err.timeoutMs };
         log.warn({ err }, 'Timeout error');
 
+    } else if (err instanceof InvalidTransitionError) {
+        statusCode = 409;
+        errorCode = 'INVALID_TRANSITION';
+        message = err.message;
+        details = { storeId: err.storeId, from: err.from, to: err.to };
+        log.warn({ err }, 'Invalid store transition');
+
+    } else if (err instanceof QuotaExceededError) {
+        statusCode = 403;
+        errorCode = 'QUOTA_EXCEEDED';
+        message = err.message;
+        details = {
+            tenantId: err.tenantId,
+            resource: err.resource,
+            limit: err.limit,
+            used: err.used,
+            requested: err.requested,
+        };
+        log.warn({ err }, 'Tenant quota exceeded');
+
     } else if (err instanceof ZodError) {
         statusCode = 400;
         errorCode = 'VALIDATION_ERROR';
@@ -0,0 +1,62 @@
+// Authorization. requirePermission() runs after authenticate and rejects callers whose role
+// lacks the permission with 403; requirePlatformTenant() rejects callers outside the default
+// (platform) tenant. Every refusal is recorded as an access.denied audit entry.
+
+import { Request, Response, NextFunction } from 'express';
+import { Permission, hasPermission } from '../../models/auth.js';
+import { DEFAULT_TENANT_ID } from '../../models/tenant.js';
+import { auditLogger, AuditAction } from '../../services/audit/auditLogger.js';
+import { UnauthorizedError, ForbiddenError } from './error.js';
+
+export function requirePermission(permission: Permission) {
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const principal = req.principal;
+        if (!principal) {
+            return next(new UnauthorizedError());
+        }
+
+        if (hasPermission(principal.role, permission)) {
+            return next();
+        }
+
+        auditLogger.record({
+            action: AuditAction.ACCESS_DENIED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal,
+            details: { permission, role: principal.role, method: req.method, path: req.originalUrl },
+        });
+
+        next(new ForbiddenError(
+            `Role '${principal.role}' is not allowed to perform this action`,
+            { permission, role: principal.role }
+        ));
+    };
+}
+
+// Cluster-wide operations (drift reports and repairs span every tenant's namespaces) are the platform
+// operator's, whatever role another tenant's key has
+export function requirePlatformTenant() {
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const principal = req.principal;
+        if (!principal) {
+            return next(new UnauthorizedError());
+        }
+
+        if (principal.tenantId === DEFAULT_TENANT_ID) {
+            return next();
+        }
+
+        auditLogger.record({
+            action: AuditAction.ACCESS_DENIED,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal,
+            details: { tenantId: principal.tenantId, method: req.method, path: req.originalUrl },
+        });
+
+        next(new ForbiddenError(
+            'Only the platform tenant can perform this action',
+            { tenantId: principal.tenantId }
+        ));
+    };
+}
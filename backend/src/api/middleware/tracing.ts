@@ -0,0 +1,35 @@
+// One server span per API request, continuing the caller's trace when it sends a traceparent header.
+// Everything the request does (DB-backed orchestrator calls, K8s retries, queued jobs) nests under it.
+
+import { Request, Response, NextFunction } from 'express';
+import { context, propagation, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { tracer } from '../../utils/tracing.js';
+import { routePattern } from './error.js';
+
+export function traceRequests(req: Request, res: Response, next: NextFunction) {
+    const parent = propagation.extract(context.active(), req.headers);
+    const span = tracer.startSpan(
+        req.method,
+        {
+            kind: SpanKind.SERVER,
+            attributes: { 'http.request.method': req.method, 'url.path': req.path },
+        },
+        parent
+    );
+
+    // 'close' also fires for aborted requests and ended SSE streams, which never 'finish'
+    res.on('close', () => {
+        const route = routePattern(req);
+        if (route) {
+            span.updateName(`${req.method} ${route}`);
+            span.setAttribute('http.route', route);
+        }
+        span.setAttribute('http.response.status_code', res.statusCode);
+        if (res.statusCode >= 500) {
+            span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        span.end();
+    });
+
+    context.with(trace.setSpan(parent, span), next);
+}
@@ -0,0 +1,65 @@
+// Audit log routes: GET /api/audit?action=&storeId=&sourceIp=&principalId=&from=&to=&cursor=&limit=
+// Scoped to the caller's tenant; the default (platform) tenant sees every tenant's entries.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { logger } from '../../utils/logger.js';
+import { auditLogger, AuditAction } from '../../services/audit/auditLogger.js';
+import { DEFAULT_TENANT_ID } from '../../models/tenant.js';
+
+const router = Router();
+
+const auditQuerySchema = z.object({
+    action: z.enum(Object.values(AuditAction) as [AuditAction, ...AuditAction[]]).optional(),
+    storeId: z.string().max(16).optional(),
+    sourceIp: z.string().max(64).optional(),
+    principalId: z.string().max(16).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    cursor: z.string().regex(/^\d+$/, 'cursor must be a value returned as nextCursor').optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'GET /audit' });
+
+    try {
+        const parseResult = auditQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid query parameters',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        const callerTenantId = req.principal!.tenantId;
+        const tenantId = callerTenantId === DEFAULT_TENANT_ID ? undefined : callerTenantId;
+
+        const [{ entries, nextCursor }, stats] = await Promise.all([
+            auditLogger.getEntries({ ...parseResult.data, tenantId }),
+            auditLogger.getStats(tenantId),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: { entries, nextCursor, stats },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+// Dashboard session routes: POST /api/auth/login (API key -> session cookie), POST /api/auth/logout,
+// GET /api/auth/me (principal + the permissions its role grants, so the dashboard can hide actions)
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { loginSchema, ROLE_PERMISSIONS } from '../../models/auth.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { authService } from '../../services/auth/authService.js';
+import { auditLogger, AuditAction } from '../../services/audit/auditLogger.js';
+import { authenticate, SESSION_COOKIE, sessionCookieOptions } from '../middleware/auth.js';
+
+const router = Router();
+
+router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /auth/login' });
+
+    try {
+        const parseResult = loginSchema.safeParse(req.body);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid request body',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        const principal = await authService.authenticateApiKey(parseResult.data.apiKey);
+        if (!principal) {
+            log.warn('Login rejected');
+
+            auditLogger.record({
+                action: AuditAction.AUTH_LOGIN_FAILED,
+                sourceIp: req.ip || req.socket.remoteAddress,
+            });
+
+            res.status(401).json({
+                success: false,
+                error: {
+                    code: 'UNAUTHORIZED',
+                    message: 'Invalid, expired or revoked API key',
+                },
+            });
+            return;
+        }
+
+        const session = authService.issueSession(principal);
+
+        auditLogger.record({
+            action: AuditAction.AUTH_LOGIN_SUCCEEDED,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: session.principal,
+        });
+
+        res.cookie(SESSION_COOKIE, session.token, {
+            ...sessionCookieOptions(),
+            maxAge: config.sessionTtlMs,
+        });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                token: session.token,
+                expiresAt: session.expiresAt,
+                principal: session.principal,
+                permissions: ROLE_PERMISSIONS[session.principal.role],
+            },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/logout', (_req: Request, res: Response) => {
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions());
+    res.status(200).json({ success: true });
+});
+
+router.get('/me', authenticate, (req: Request, res: Response) => {
+    res.status(200).json({
+        success: true,
+        data: {
+            principal: req.principal,
+            permissions: ROLE_PERMISSIONS[req.principal!.role],
+            authEnabled: config.authEnabled,
+        },
+    });
+});
+
+export default router;
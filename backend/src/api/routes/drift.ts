@@ -0,0 +1,44 @@
+// Drift reports: GET /api/drift (latest reconcile pass), POST /api/drift (run a pass now and return it)
+// Repairs made by a pass are audited as store.drift.repaired. Both cover every tenant's stores, so only
+// the default (platform) tenant's admins may use them.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { logger } from '../../utils/logger.js';
+import { driftReportRepository } from '../../services/database/index.js';
+import { storeReconciler } from '../../services/provisioning/reconciler.js';
+
+const router = Router();
+
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+        // Null until the first pass completes (RECONCILE_INTERVAL_MS after startup)
+        const report = await driftReportRepository.findLatest();
+
+        res.status(200).json({
+            success: true,
+            data: { report },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /drift', principalId: req.principal?.id });
+
+    try {
+        log.info('Reconcile pass requested');
+        const report = await storeReconciler.reconcile();
+
+        res.status(200).json({
+            success: true,
+            data: { report },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -78,13 +78,4 @@ router.get('/ready', async (_req: Request, res: Response) => {
     }
 });
 
-router.get('/metrics', (_req: Request, res: Response) => {
-    res.json({
-        uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
-        memory: process.memoryUsage(),
-        timestamp: new Date().toISOString(),
-        // TODO: Add store counts, provisioning metrics
-    });
-});
-
 export default router;
@@ -0,0 +1,127 @@
+// API key management, scoped to the caller's tenant: GET /api/keys, POST /api/keys (returns the key once),
+// DELETE /api/keys/:id (revoke)
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { createApiKeySchema } from '../../models/auth.js';
+import { logger } from '../../utils/logger.js';
+import { authService } from '../../services/auth/authService.js';
+import { apiKeyRepository, tenantRepository } from '../../services/database/index.js';
+import { DEFAULT_TENANT_ID } from '../../models/tenant.js';
+import { auditLogger, AuditAction } from '../../services/audit/auditLogger.js';
+
+const router = Router();
+
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const keys = await apiKeyRepository.findByTenant(req.principal!.tenantId);
+
+        res.status(200).json({
+            success: true,
+            data: { keys },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /keys' });
+
+    try {
+        const parseResult = createApiKeySchema.safeParse(req.body);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid request body',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        const callerTenantId = req.principal!.tenantId;
+        const tenantId = parseResult.data.tenantId ?? callerTenantId;
+
+        // Onboarding a new tenant is a platform operation  only the default tenant may do it
+        if (tenantId !== callerTenantId && callerTenantId !== DEFAULT_TENANT_ID) {
+            res.status(403).json({
+                success: false,
+                error: {
+                    code: 'FORBIDDEN',
+                    message: 'Keys can only be issued for your own tenant',
+                },
+            });
+            return;
+        }
+
+        await tenantRepository.ensure(tenantId);
+        const { apiKey, key } = await authService.createApiKey(parseResult.data, tenantId, req.principal);
+
+        auditLogger.record({
+            action: AuditAction.API_KEY_CREATED,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+            details: { keyId: apiKey.id, name: apiKey.name, tenantId },
+        });
+
+        res.status(201).json({
+            success: true,
+            data: {
+                apiKey,
+                key,
+                message: 'Store this key now  it cannot be retrieved again.',
+            },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'DELETE /keys/:id', keyId: req.params.id });
+
+    try {
+        const revoked = await apiKeyRepository.revoke(req.params.id, req.principal!.tenantId);
+
+        if (!revoked) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Active API key ${req.params.id} not found`,
+                },
+            });
+            return;
+        }
+
+        log.info('API key revoked');
+
+        auditLogger.record({
+            action: AuditAction.API_KEY_REVOKED,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+            details: { keyId: req.params.id },
+        });
+
+        res.status(200).json({
+            success: true,
+            data: { keyId: req.params.id },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+// Prometheus scrape endpoint: GET /metrics (text exposition format, unauthenticated like /health).
+// Instruments are defined in utils/metrics.ts; the store gauge is filled from PostgreSQL per scrape.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import client from 'prom-client';
+import { metricsRegistry } from '../../utils/metrics.js';
+import { storeRepository } from '../../services/database/index.js';
+import { StoreStatus, StoreEngine } from '../../models/store.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+// Every status × engine pair is reported, zeros included, so series don't vanish when a count drops to 0
+new client.Gauge({
+    name: 'urumi_stores',
+    help: 'Live stores by status and engine',
+    labelNames: ['status', 'engine'] as const,
+    registers: [metricsRegistry],
+    async collect() {
+        try {
+            const counts = await storeRepository.countByStatusAndEngine();
+            for (const status of Object.values(StoreStatus)) {
+                if (status === StoreStatus.DELETED) {
+                    continue;
+                }
+                for (const engine of Object.values(StoreEngine)) {
+                    const row = counts.find((c) => c.status === status && c.engine === engine);
+                    this.set({ status, engine }, row?.count ?? 0);
+                }
+            }
+        } catch (err) {
+            // The rest of the scrape is still useful while the database is unreachable
+            this.reset();
+            logger.warn({ err }, 'Failed to read store counts for metrics');
+        }
+    },
+});
+
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.set('Content-Type', metricsRegistry.contentType);
+        res.send(await metricsRegistry.metrics());
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
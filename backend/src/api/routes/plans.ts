@@ -0,0 +1,26 @@
+// Store size plans: GET /api/plans (what each configured plan provisions, for the create-store form)
+
+import { Router, Request, Response } from 'express';
+import { config } from '../../config/index.js';
+
+const router = Router();
+
+router.get('/', (_req: Request, res: Response) => {
+    const plans = Object.entries(config.storePlans).map(([name, plan]) => ({
+        name,
+        description: plan.description,
+        cpuMillicores: plan.quota.cpuLimitMillicores,
+        memoryMi: plan.quota.memoryLimitMi,
+        storageGi: plan.quota.storageGi,
+        databaseStorageGi: plan.databaseStorageGi,
+        applicationStorageGi: plan.applicationStorageGi,
+        applicationReplicas: plan.applicationReplicas,
+    }));
+
+    res.status(200).json({
+        success: true,
+        data: { plans, defaultPlan: config.defaultStorePlan },
+    });
+});
+
+export default router;
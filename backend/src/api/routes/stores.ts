@@ -1,15 +1,35 @@
-// Store CRUD routes: POST /api/stores, GET /api/stores, DELETE /api/stores/:id
+// Store CRUD routes: POST /api/stores, GET /api/stores (filter/search/sort/page), POST /api/stores/:id/retry,
+// PATCH /api/stores/:id (resize to another plan or explicit resources), POST /api/stores/:id/clone (copy into a new store),
+// DELETE /api/stores/:id
+// Admin login: GET /api/stores/:id/credentials
+// Backups: GET/POST /api/stores/:id/backups, POST /api/stores/:id/restore
+// Health history: GET /api/stores/:id/health
+// Provisioning timeline: GET /api/stores/:id/timeline
+// Failure diagnostics: GET /api/stores/:id/diagnostics
+// Container logs: GET /api/stores/:id/logs?component=wordpress&follow=true (Server-Sent Events)
+// Every route is scoped to the caller's tenant (other tenants' stores are reported as not found)
+// and guarded by a role permission (see ROLE_PERMISSIONS).
+// Live updates: GET /api/stores/events (Server-Sent Events)
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { createStoreSchema } from '../../models/store.js';
-import { provisioningOrchestrator } from '../../services/provisioning/orchestrator.js';
+import { createStoreSchema, resizeStoreSchema, cloneStoreSchema, storeFilterSchema } from '../../models/store.js';
+import { restoreStoreSchema } from '../../models/backup.js';
+import { storeLogsQuerySchema } from '../../models/logs.js';
+import { config } from '../../config/index.js';
+import { provisioningOrchestrator, LogStreamError } from '../../services/provisioning/orchestrator.js';
 import { logger } from '../../utils/logger.js';
 import { storeCreationLimiter, storeDeletionLimiter } from '../middleware/rateLimit.js';
+import { requirePermission } from '../middleware/rbac.js';
+import { Permission } from '../../models/auth.js';
 import { auditLogger, AuditAction } from '../../services/audit/auditLogger.js';
+import { storeEventBus, StoreEvent } from '../../services/events/storeEvents.js';
 
 const router = Router();
 
-router.post('/', storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+// Keeps idle SSE connections alive through proxies (nginx closes after 60s of silence)
+const SSE_HEARTBEAT_MS = 15000;
+
+router.post('/', requirePermission(Permission.STORES_CREATE), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
     const log = logger.child({ route: 'POST /stores' });
 
     try {
@@ -40,12 +60,13 @@ router.post('/', storeCreationLimiter, async (req: Request, res: Response, next:
             storeName: parseResult.data.name,
             engine: parseResult.data.engine,
             sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
         });
 
         log.info({ request: parseResult.data }, 'Creating store');
 
         // Start provisioning in the background  returns immediately
-        const result = await provisioningOrchestrator.createStore(parseResult.data);
+        const result = await provisioningOrchestrator.createStore(parseResult.data, req.principal!.tenantId);
 
         log.info({ storeId: result.store.id }, 'Store provisioning started');
 
@@ -62,20 +83,37 @@ router.post('/', storeCreationLimiter, async (req: Request, res: Response, next:
     }
 });
 
-router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+router.get('/', requirePermission(Permission.STORES_READ), async (req: Request, res: Response, next: NextFunction) => {
     const log = logger.child({ route: 'GET /stores' });
 
     try {
-        const stores = await provisioningOrchestrator.listStores();
+        const parseResult = storeFilterSchema.safeParse(req.query);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid query parameters',
+                    details: errors,
+                },
+            });
+            return;
+        }
 
-        log.info({ count: stores.length }, 'Listed stores');
+        const result = await provisioningOrchestrator.listStores(parseResult.data, req.principal!.tenantId);
+
+        log.info({ count: result.stores.length, total: result.total }, 'Listed stores');
 
         res.status(200).json({
             success: true,
-            data: {
-                stores,
-                total: stores.length,
-            },
+            data: result,
         });
 
     } catch (error) {
@@ -83,11 +121,48 @@ router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
     }
 });
 
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+// Registered before /:id so "events" is not taken as a store ID
+router.get('/events', requirePermission(Permission.STORES_READ), (req: Request, res: Response) => {
+    const log = logger.child({ route: 'GET /stores/events' });
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    });
+    // Client reconnect delay if the stream drops
+    res.write('retry: 5000\n\n');
+
+    const tenantId = req.principal!.tenantId;
+    const send = (event: StoreEvent) => {
+        // Only the caller's stores; resync goes to everyone
+        if (event.type !== 'resync' && event.store.tenantId !== tenantId) {
+            return;
+        }
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+    const unsubscribe = storeEventBus.subscribe({
+        onEvent: send,
+        onClose: () => res.end(),
+    });
+
+    log.debug('Event stream opened');
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        log.debug('Event stream closed');
+    });
+});
+
+router.get('/:id', requirePermission(Permission.STORES_READ), async (req: Request, res: Response, next: NextFunction) => {
     const log = logger.child({ route: 'GET /stores/:id', storeId: req.params.id });
 
     try {
-        const store = await provisioningOrchestrator.getStore(req.params.id);
+        const store = await provisioningOrchestrator.getStore(req.params.id, req.principal!.tenantId);
 
         if (!store) {
             log.warn('Store not found');
@@ -112,7 +187,612 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
     }
 });
 
-router.delete('/:id', storeDeletionLimiter, async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/credentials', requirePermission(Permission.STORES_CREDENTIALS), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const credentials = await provisioningOrchestrator.getAdminCredentials(req.params.id, req.principal!.tenantId);
+
+        if (!credentials) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `No admin credentials for store ${req.params.id}`,
+                },
+            });
+            return;
+        }
+
+        // Audit: who has seen the admin password
+        auditLogger.record({
+            action: AuditAction.STORE_CREDENTIALS_VIEWED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+        });
+
+        res.set('Cache-Control', 'no-store');
+        res.status(200).json({
+            success: true,
+            data: { credentials },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/:id/retry', requirePermission(Permission.STORES_RETRY), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /stores/:id/retry', storeId: req.params.id });
+
+    try {
+        // Audit: retry requested
+        auditLogger.record({
+            action: AuditAction.STORE_RETRY_REQUESTED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+        });
+
+        const result = await provisioningOrchestrator.retryStore(req.params.id, req.principal!.tenantId);
+
+        if (result.success) {
+            log.info({ phase: result.store?.phase }, 'Store provisioning retry queued');
+
+            res.status(202).json({
+                success: true,
+                data: {
+                    store: result.store,
+                    message: `Store provisioning resumed from phase '${result.store?.phase}'. Poll GET /api/stores for live status.`,
+                },
+            });
+        } else if (result.error === 'Store not found') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+        } else {
+            log.warn({ error: result.error }, 'Store retry rejected');
+
+            res.status(409).json({
+                success: false,
+                error: {
+                    code: 'INVALID_STATE',
+                    message: result.error,
+                    storeId: req.params.id,
+                },
+            });
+        }
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.patch('/:id', requirePermission(Permission.STORES_RESIZE), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'PATCH /stores/:id', storeId: req.params.id });
+
+    try {
+        const parseResult = resizeStoreSchema.safeParse(req.body);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid request body',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        // Audit: resize requested
+        auditLogger.record({
+            action: AuditAction.STORE_RESIZE_REQUESTED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+            details: { ...parseResult.data },
+        });
+
+        const result = await provisioningOrchestrator.resizeStore(
+            req.params.id,
+            parseResult.data,
+            req.principal!.tenantId
+        );
+
+        if (result.success) {
+            log.info({ ...parseResult.data }, 'Store resize queued');
+
+            // Completion (store.resize.succeeded / failed) is audited by the orchestrator
+            res.status(202).json({
+                success: true,
+                data: {
+                    store: result.store,
+                    message: `Resizing to plan '${result.store!.plan}'. Watch GET /api/stores/events or poll GET /api/stores/:id for progress.`,
+                },
+            });
+        } else if (result.error === 'Store not found') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+        } else {
+            log.warn({ error: result.error }, 'Store resize rejected');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_RESIZE',
+                    message: result.error,
+                    storeId: req.params.id,
+                },
+            });
+        }
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+// Backups need a target bucket (BACKUP_S3_BUCKET); history stays readable without one
+function rejectIfBackupsDisabled(res: Response): boolean {
+    if (config.backupS3Bucket) {
+        return false;
+    }
+    res.status(503).json({
+        success: false,
+        error: {
+            code: 'BACKUPS_NOT_CONFIGURED',
+            message: 'Backups are not configured on this platform (BACKUP_S3_BUCKET is unset)',
+        },
+    });
+    return true;
+}
+
+router.get('/:id/backups', requirePermission(Permission.STORES_READ), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const backups = await provisioningOrchestrator.listBackups(req.params.id, req.principal!.tenantId);
+
+        if (!backups) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { backups },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/:id/health', requirePermission(Permission.STORES_READ), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const events = await provisioningOrchestrator.listHealthEvents(req.params.id, req.principal!.tenantId);
+
+        if (!events) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { events },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/:id/timeline', requirePermission(Permission.STORES_READ), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const events = await provisioningOrchestrator.getTimeline(req.params.id, req.principal!.tenantId);
+
+        if (!events) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { events },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/:id/diagnostics', requirePermission(Permission.STORES_DIAGNOSTICS), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const diagnostics = await provisioningOrchestrator.getDiagnostics(req.params.id, req.principal!.tenantId);
+
+        if (diagnostics === undefined) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+            return;
+        }
+
+        if (diagnostics === null) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NO_DIAGNOSTICS',
+                    message: `No diagnostics collected for store ${req.params.id}  they are collected when provisioning fails`,
+                },
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { diagnostics },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+const LOG_STREAM_ERROR_STATUS: Record<LogStreamError, number> = {
+    NOT_FOUND: 404,
+    UNKNOWN_COMPONENT: 400,
+    POD_NOT_FOUND: 404,
+    LOG_UNAVAILABLE: 404,
+};
+
+// Each log line is a message event; 'start' names the pod and container, 'end' follows the last line
+// (the container exited, or the requested history was sent). Errors before the stream opens are JSON.
+router.get('/:id/logs', requirePermission(Permission.STORES_DIAGNOSTICS), async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'GET /stores/:id/logs', storeId: req.params.id });
+
+    try {
+        const parseResult = storeLogsQuerySchema.safeParse(req.query);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid query parameters',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        // K8s can send lines, or end a short stream, before the result below is handled. They are held
+        // until the start event (pod and container) has been written, so it always comes first.
+        let started = false;
+        let ended = false;
+        const pending: string[] = [];
+        const send = (event: string) => {
+            if (started) {
+                res.write(event);
+            } else {
+                pending.push(event);
+            }
+        };
+        let heartbeat: NodeJS.Timeout | undefined;
+
+        // Registered before the stream opens, so a client that leaves while it's opening still closes it
+        let clientGone = false;
+        let closeStream: (() => void) | undefined;
+        req.on('close', () => {
+            clientGone = true;
+            clearInterval(heartbeat);
+            closeStream?.();
+        });
+
+        const result = await provisioningOrchestrator.streamLogs(req.params.id, req.principal!.tenantId, parseResult.data, {
+            onLine: (line) => send(`data: ${line}\n\n`),
+            onEnd: (error) => {
+                ended = true;
+                clearInterval(heartbeat);
+                send(`event: end\ndata: ${JSON.stringify({ error: error?.message })}\n\n`);
+                if (started) {
+                    res.end();
+                }
+            },
+        });
+
+        if (!result.success) {
+            res.status(LOG_STREAM_ERROR_STATUS[result.code!]).json({
+                success: false,
+                error: {
+                    code: result.code,
+                    message: result.error,
+                },
+            });
+            return;
+        }
+
+        closeStream = result.close;
+        if (clientGone) {
+            result.close!();
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.write(`event: start\ndata: ${JSON.stringify({ pod: result.pod, container: result.container })}\n\n`);
+        started = true;
+        for (const event of pending) {
+            res.write(event);
+        }
+        if (ended) {
+            res.end();
+        } else {
+            heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+        }
+        log.debug({ pod: result.pod, container: result.container, follow: parseResult.data.follow }, 'Log stream opened');
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/:id/backups', requirePermission(Permission.STORES_BACKUP), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /stores/:id/backups', storeId: req.params.id });
+
+    try {
+        if (rejectIfBackupsDisabled(res)) {
+            return;
+        }
+
+        // Audit: backup requested
+        auditLogger.record({
+            action: AuditAction.STORE_BACKUP_REQUESTED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+        });
+
+        const result = await provisioningOrchestrator.createBackup(
+            req.params.id,
+            req.principal!.tenantId,
+            req.principal!.id
+        );
+
+        if (result.success) {
+            log.info({ backupId: result.backup?.id }, 'Store backup queued');
+
+            // Completion (store.backup.succeeded / failed) is audited by the orchestrator
+            res.status(202).json({
+                success: true,
+                data: {
+                    backup: result.backup,
+                    message: 'Backup started. Poll GET /api/stores/:id/backups for its status.',
+                },
+            });
+        } else if (result.error === 'Store not found') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+        } else {
+            log.warn({ error: result.error }, 'Store backup rejected');
+
+            res.status(409).json({
+                success: false,
+                error: {
+                    code: 'INVALID_STATE',
+                    message: result.error,
+                    storeId: req.params.id,
+                },
+            });
+        }
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/:id/restore', requirePermission(Permission.STORES_RESTORE), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /stores/:id/restore', storeId: req.params.id });
+
+    try {
+        if (rejectIfBackupsDisabled(res)) {
+            return;
+        }
+
+        const parseResult = restoreStoreSchema.safeParse(req.body);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid request body',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        // Audit: restore requested
+        auditLogger.record({
+            action: AuditAction.STORE_RESTORE_REQUESTED,
+            storeId: req.params.id,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+            details: { backupId: parseResult.data.backupId },
+        });
+
+        const result = await provisioningOrchestrator.restoreStore(
+            req.params.id,
+            parseResult.data.backupId,
+            req.principal!.tenantId
+        );
+
+        if (result.success) {
+            log.info({ backupId: parseResult.data.backupId }, 'Store restore queued');
+
+            // Completion (store.restore.succeeded / failed) is audited by the orchestrator
+            res.status(202).json({
+                success: true,
+                data: {
+                    store: result.store,
+                    message: `Restoring from backup ${parseResult.data.backupId}. Watch GET /api/stores/events or poll GET /api/stores/:id for progress.`,
+                },
+            });
+        } else if (result.error === 'Store not found') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+        } else {
+            log.warn({ error: result.error }, 'Store restore rejected');
+
+            res.status(409).json({
+                success: false,
+                error: {
+                    code: 'INVALID_STATE',
+                    message: result.error,
+                    storeId: req.params.id,
+                },
+            });
+        }
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/:id/clone', requirePermission(Permission.STORES_CREATE), storeCreationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+    const log = logger.child({ route: 'POST /stores/:id/clone', storeId: req.params.id });
+
+    try {
+        const parseResult = cloneStoreSchema.safeParse(req.body);
+        if (!parseResult.success) {
+            const errors = parseResult.error.issues.map((issue) => ({
+                field: issue.path.join('.'),
+                message: issue.message,
+            }));
+
+            log.warn({ errors }, 'Validation failed');
+
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid request body',
+                    details: errors,
+                },
+            });
+            return;
+        }
+
+        // Audit: creation requested (the clone's own ID is only known once it is queued)
+        auditLogger.record({
+            action: AuditAction.STORE_CREATE_REQUESTED,
+            storeName: parseResult.data.name,
+            sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
+            details: { clonedFrom: req.params.id, plan: parseResult.data.plan },
+        });
+
+        const result = await provisioningOrchestrator.cloneStore(
+            req.params.id,
+            parseResult.data,
+            req.principal!.tenantId
+        );
+
+        if (result.success) {
+            log.info({ cloneId: result.store!.id }, 'Store clone provisioning started');
+
+            res.status(202).json({
+                success: true,
+                data: {
+                    store: result.store,
+                    message: `Cloning store ${req.params.id}. Poll GET /api/stores for live status.`,
+                },
+            });
+        } else if (result.error === 'Store not found') {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Store ${req.params.id} not found`,
+                },
+            });
+        } else {
+            log.warn({ error: result.error }, 'Store clone rejected');
+
+            res.status(409).json({
+                success: false,
+                error: {
+                    code: 'INVALID_STATE',
+                    message: result.error,
+                    storeId: req.params.id,
+                },
+            });
+        }
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.delete('/:id', requirePermission(Permission.STORES_DELETE), storeDeletionLimiter, async (req: Request, res: Response, next: NextFunction) => {
     const log = logger.child({ route: 'DELETE /stores/:id', storeId: req.params.id });
 
     try {
@@ -121,26 +801,22 @@ router.delete('/:id', storeDeletionLimiter, async (req: Request, res: Response,
             action: AuditAction.STORE_DELETE_REQUESTED,
             storeId: req.params.id,
             sourceIp: req.ip || req.socket.remoteAddress,
+            principal: req.principal,
         });
 
         log.info('Deleting store');
 
-        const result = await provisioningOrchestrator.deleteStore(req.params.id);
+        const result = await provisioningOrchestrator.deleteStore(req.params.id, req.principal!.tenantId);
 
         if (result.success) {
-            log.info('Store deleted successfully');
-
-            // Audit: deletion succeeded
-            auditLogger.record({
-                action: AuditAction.STORE_DELETE_SUCCEEDED,
-                storeId: req.params.id,
-                sourceIp: req.ip || req.socket.remoteAddress,
-            });
+            log.info('Store deletion queued');
 
-            res.status(200).json({
+            // Completion (store.delete.succeeded / failed) is audited by the orchestrator
+            res.status(202).json({
                 success: true,
                 data: {
-                    message: 'Store deleted successfully',
+                    store: result.store,
+                    message: 'Store deletion started. Watch GET /api/stores/events or poll GET /api/stores/:id for progress.',
                     storeId: req.params.id,
                 },
             });
@@ -0,0 +1,37 @@
+// Tenant routes: GET /api/tenants/current (the caller's tenant, its quota and current usage)
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { tenantRepository } from '../../services/database/index.js';
+
+const router = Router();
+
+router.get('/current', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const tenantId = req.principal!.tenantId;
+        const [tenant, usage] = await Promise.all([
+            tenantRepository.findById(tenantId),
+            tenantRepository.getUsage(tenantId),
+        ]);
+
+        if (!tenant) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'NOT_FOUND',
+                    message: `Tenant ${tenantId} not found`,
+                },
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: { tenant, usage },
+        });
+
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
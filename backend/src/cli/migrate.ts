@@ -0,0 +1,38 @@
+// Migration CLI: `npm run migrate -- up` applies pending migrations, `npm run migrate -- status` lists them.
+// Uses DATABASE_URL like the API. In the container: `node dist/cli/migrate.js <command>`.
+
+import { initDatabase, migrationStatus, closeDatabasePool } from '../services/database/index.js';
+
+async function main(command: string | undefined): Promise<number> {
+    switch (command) {
+        case 'up': {
+            const applied = await initDatabase();
+            console.log(applied.length
+                ? `Applied migrations: ${applied.join(', ')}`
+                : 'Schema up to date');
+            return 0;
+        }
+        case 'status': {
+            const statuses = await migrationStatus();
+            for (const s of statuses) {
+                const state = s.appliedAt ? `applied ${s.appliedAt.toISOString()}` : 'pending';
+                console.log(`${String(s.version).padStart(4, '0')}_${s.name}  ${state}`);
+            }
+            return 0;
+        }
+        default:
+            console.error('Usage: migrate <up|status>');
+            return 1;
+    }
+}
+
+main(process.argv[2])
+    .then(async (code) => {
+        await closeDatabasePool();
+        process.exit(code);
+    })
+    .catch(async (err) => {
+        console.error(err instanceof Error ? err.message : err);
+        await closeDatabasePool().catch(() => undefined);
+        process.exit(1);
+    });
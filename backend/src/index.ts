@@ -7,14 +7,31 @@ import { config } from './config/index.js';
 import { logger } from './utils/logger.js';
 import storeRoutes from './api/routes/stores.js';
 import healthRoutes from './api/routes/health.js';
+import metricsRoutes from './api/routes/metrics.js';
+import auditRoutes from './api/routes/audit.js';
+import authRoutes from './api/routes/auth.js';
+import keyRoutes from './api/routes/keys.js';
+import tenantRoutes from './api/routes/tenants.js';
+import planRoutes from './api/routes/plans.js';
+import driftRoutes from './api/routes/drift.js';
 import {
     requestLogger,
     notFoundHandler,
     errorHandler,
 } from './api/middleware/error.js';
 import { globalLimiter } from './api/middleware/rateLimit.js';
-import { auditLogger } from './services/audit/auditLogger.js';
+import { traceRequests } from './api/middleware/tracing.js';
+import { authenticate } from './api/middleware/auth.js';
+import { requirePermission, requirePlatformTenant } from './api/middleware/rbac.js';
+import { Permission } from './models/auth.js';
 import { initDatabase, closeDatabasePool } from './services/database/index.js';
+import { provisioningWorker } from './services/provisioning/worker.js';
+import { storeReconciler } from './services/provisioning/reconciler.js';
+import { storeHealthProber } from './services/provisioning/healthProber.js';
+import { storeEventBus } from './services/events/storeEvents.js';
+import { podLogService } from './services/k8s/logs.js';
+import { authService } from './services/auth/authService.js';
+import { initTracing, shutdownTracing } from './utils/tracing.js';
 
 const app = express();
 
@@ -28,28 +45,28 @@ app.use(cors({
     origin: config.nodeEnv === 'production'
         ? ['https://dashboard.urumi.ai']
         : '*',
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 }));
 
 app.use(express.json({ limit: '1mb' }));
 
 app.use(globalLimiter);
+app.use(traceRequests);
 app.use(requestLogger);
 
 app.use('/health', healthRoutes);
-app.use('/api/stores', storeRoutes);
+app.use('/metrics', metricsRoutes);
+app.use('/api/auth', authRoutes);
 
-// Audit log endpoint
-app.get('/api/audit', (_req, res) => {
-    const { storeId, limit } = _req.query;
-    const entries = auditLogger.getEntries({
-        storeId: storeId as string,
-        limit: limit ? parseInt(limit as string, 10) : 50,
-    });
-    const stats = auditLogger.getStats();
-    res.json({ success: true, data: { entries, stats } });
-});
+// Everything else under /api requires a principal
+app.use('/api', authenticate);
+app.use('/api/stores', storeRoutes);
+app.use('/api/audit', requirePermission(Permission.AUDIT_READ), auditRoutes);
+app.use('/api/keys', requirePermission(Permission.KEYS_MANAGE), keyRoutes);
+app.use('/api/tenants', tenantRoutes);
+app.use('/api/plans', requirePermission(Permission.STORES_READ), planRoutes);
+app.use('/api/drift', requirePermission(Permission.DRIFT_MANAGE), requirePlatformTenant(), driftRoutes);
 
 // API info endpoint
 app.get('/api', (_req, res) => {
@@ -59,7 +76,14 @@ app.get('/api', (_req, res) => {
         description: 'Kubernetes-native store provisioning platform',
         endpoints: {
             stores: '/api/stores',
+            audit: '/api/audit',
+            keys: '/api/keys',
+            tenants: '/api/tenants',
+            plans: '/api/plans',
+            drift: '/api/drift',
+            auth: '/api/auth',
             health: '/health',
+            metrics: '/metrics',
         },
     });
 });
@@ -69,14 +93,35 @@ app.use(errorHandler);
 
 // Initialize database and start server
 async function startServer() {
+    // Before anything starts spans
+    initTracing();
+
     try {
         await initDatabase();
         logger.info('Database initialized');
+        await authService.ensureBootstrapKey();
     } catch (err) {
         logger.fatal({ err }, 'Failed to initialize database  exiting');
         process.exit(1);
     }
 
+    // Resume any provisioning interrupted by a previous shutdown/crash
+    try {
+        await provisioningWorker.start();
+    } catch (err) {
+        logger.fatal({ err }, 'Failed to start provisioning worker  exiting');
+        process.exit(1);
+    }
+
+    // Periodic drift detection/repair for READY stores
+    storeReconciler.start();
+
+    // Periodic health checks: READY ⇄ DEGRADED
+    storeHealthProber.start();
+
+    // Live store updates for GET /api/stores/events. Not fatal  dashboards fall back to polling.
+    await storeEventBus.start();
+
     const server = app.listen(config.port, () => {
         logger.info({
             port: config.port,
@@ -89,6 +134,10 @@ async function startServer() {
     async function gracefulShutdown(signal: string) {
         logger.info({ signal }, 'Received shutdown signal, starting graceful shutdown');
 
+        // End SSE streams first  server.close() waits for open connections
+        await storeEventBus.stop();
+        podLogService.stop();
+
         server.close(async (err) => {
             if (err) {
                 logger.error({ err }, 'Error closing server');
@@ -97,9 +146,17 @@ async function startServer() {
 
             logger.info('HTTP server closed');
 
+            // Release in-flight provisioning jobs to other replicas
+            storeReconciler.stop();
+            storeHealthProber.stop();
+            await provisioningWorker.stop();
+
             // Close database pool
             await closeDatabasePool();
 
+            // Flush buffered spans
+            await shutdownTracing();
+
             logger.info('Graceful shutdown complete');
             process.exit(0);
         });
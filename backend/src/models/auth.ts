@@ -0,0 +1,98 @@
+// Auth model. Every API caller is an API key; dashboard sessions are JWTs issued for a key.
+// Each key has a role; routes require permissions, which roles grant (see ROLE_PERMISSIONS).
+
+import { z } from 'zod';
+
+export const PrincipalType = {
+    API_KEY: 'api_key',            // Authorization: Bearer urk_... or X-API-Key
+    SESSION: 'session',            // Dashboard JWT (cookie or Bearer)
+    ANONYMOUS: 'anonymous',        // AUTH_ENABLED=false
+} as const;
+
+export type PrincipalType = (typeof PrincipalType)[keyof typeof PrincipalType];
+
+export const Role = {
+    VIEWER: 'viewer',              // Read stores
+    OPERATOR: 'operator',          // + create, delete, retry, resize, back up/restore, view credentials and diagnostics
+    ADMIN: 'admin',                // + audit log, API key management, drift reports
+} as const;
+
+export type Role = (typeof Role)[keyof typeof Role];
+
+export const Permission = {
+    STORES_READ: 'stores:read',
+    STORES_CREATE: 'stores:create',
+    STORES_DELETE: 'stores:delete',
+    STORES_RETRY: 'stores:retry',
+    STORES_RESIZE: 'stores:resize',
+    STORES_BACKUP: 'stores:backup',
+    STORES_RESTORE: 'stores:restore',
+    STORES_CREDENTIALS: 'stores:credentials',
+    STORES_DIAGNOSTICS: 'stores:diagnostics',  // Failed stores' Events and pod logs (logs may hold secrets)
+    AUDIT_READ: 'audit:read',
+    KEYS_MANAGE: 'keys:manage',
+    DRIFT_MANAGE: 'drift:manage',
+} as const;
+
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+    Permission.STORES_READ,
+    Permission.STORES_CREATE,
+    Permission.STORES_DELETE,
+    Permission.STORES_RETRY,
+    Permission.STORES_RESIZE,
+    Permission.STORES_BACKUP,
+    Permission.STORES_RESTORE,
+    Permission.STORES_CREDENTIALS,
+    Permission.STORES_DIAGNOSTICS,
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    [Role.VIEWER]: [Permission.STORES_READ],
+    [Role.OPERATOR]: OPERATOR_PERMISSIONS,
+    [Role.ADMIN]: [...OPERATOR_PERMISSIONS, Permission.AUDIT_READ, Permission.KEYS_MANAGE, Permission.DRIFT_MANAGE],
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+// The authenticated caller, attached to req.principal and recorded in audit entries
+export interface Principal {
+    id: string;                    // API key ID (sessions carry the key they were issued for)
+    name: string;
+    type: PrincipalType;
+    tenantId: string;
+    role: Role;
+}
+
+export interface ApiKey {
+    id: string;
+    tenantId: string;
+    name: string;
+    role: Role;
+    keyPrefix: string;             // First characters of the key, for identification only
+    createdBy?: string;            // Principal ID that created it
+    createdAt: Date;
+    lastUsedAt?: Date;
+    expiresAt?: Date;
+    revokedAt?: Date;
+}
+
+export const createApiKeySchema = z.object({
+    name: z.string().trim().min(3, 'Key name must be at least 3 characters').max(64),
+    expiresInDays: z.number().int().min(1).max(365).optional(),
+    role: z.enum([Role.VIEWER, Role.OPERATOR, Role.ADMIN]).default(Role.VIEWER),
+    // Defaults to the caller's tenant; only default-tenant callers may issue keys for another (created if new)
+    tenantId: z
+        .string()
+        .regex(/^[a-z0-9-]{3,32}$/, 'Tenant ID must be 3-32 lowercase letters, numbers, or hyphens')
+        .optional(),
+});
+
+export const loginSchema = z.object({
+    apiKey: z.string().startsWith('urk_', 'Not an API key'),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
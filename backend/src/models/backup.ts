@@ -0,0 +1,47 @@
+// Store backup model. A backup is a mysqldump + wp-content archive uploaded to the S3-compatible
+// target (see config.backupS3*). States: pending → running → succeeded | failed; succeeded backups
+// pruned by retention become expired.
+
+import { z } from 'zod';
+
+export const BackupStatus = {
+    PENDING: 'pending',
+    RUNNING: 'running',
+    SUCCEEDED: 'succeeded',
+    FAILED: 'failed',
+    EXPIRED: 'expired',            // Deleted from the bucket by retention
+} as const;
+
+export type BackupStatus = (typeof BackupStatus)[keyof typeof BackupStatus];
+
+export const BackupTrigger = {
+    MANUAL: 'manual',              // POST /api/stores/:id/backups
+    SCHEDULED: 'scheduled',        // Every backupIntervalHours
+} as const;
+
+export type BackupTrigger = (typeof BackupTrigger)[keyof typeof BackupTrigger];
+
+export interface Backup {
+    id: string;
+    storeId: string;
+    tenantId: string;
+    trigger: BackupTrigger;
+    status: BackupStatus;
+    objectPrefix: string;          // Key prefix in the bucket: database.sql.gz + wp-content.tar.gz
+    errorMessage?: string;
+    requestedBy?: string;          // Principal ID (unset for scheduled backups)
+    createdAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+}
+
+// Body of POST /api/stores/:id/restore
+export const restoreStoreSchema = z.object({
+    backupId: z.string().min(1, 'backupId is required').max(16),
+});
+
+export type RestoreStoreRequest = z.infer<typeof restoreStoreSchema>;
+
+export function getBackupObjectPrefix(storeId: string, backupId: string): string {
+    return `stores/${storeId}/${backupId}`;
+}
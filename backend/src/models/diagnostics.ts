@@ -0,0 +1,76 @@
+// Diagnostic bundle: what K8s knew about a store's namespace when provisioning failed, collected
+// before the namespace is cleaned up. A phase that times out only says "timed out"; the bundle has
+// the namespace Events, every container's state (ImagePullBackOff, CrashLoopBackOff, OOMKilled...)
+// and the log tail of each container that isn't healthy (GET /api/stores/:id/diagnostics).
+
+export interface NamespaceEventSummary {
+    type: string;                  // Normal | Warning
+    reason: string;                // e.g. FailedScheduling, BackOff
+    message: string;
+    object: string;                // e.g. Pod/mysql-0
+    count: number;
+    lastSeen?: Date;
+}
+
+export interface ContainerDiagnostics {
+    name: string;
+    init: boolean;
+    ready: boolean;
+    restartCount: number;
+    state: 'waiting' | 'running' | 'terminated' | 'unknown';
+    reason?: string;               // e.g. ImagePullBackOff, CrashLoopBackOff, OOMKilled
+    message?: string;
+    exitCode?: number;
+    lastTerminationReason?: string; // Why the previous run ended, e.g. OOMKilled behind a CrashLoopBackOff
+    logTail?: string;              // Unhealthy containers only; the previous run's log after a restart
+}
+
+export interface PodDiagnostics {
+    name: string;
+    phase: string;                 // Pending | Running | Failed ...
+    reason?: string;               // e.g. Evicted
+    containers: ContainerDiagnostics[];
+}
+
+export interface DiagnosticBundle {
+    id: number;
+    storeId: string;
+    phase?: string;                // Provisioning phase the store failed in
+    errorMessage: string;
+    findings: string[];            // One line per problem, e.g. "mysql-0/mysql: CrashLoopBackOff (last exit: OOMKilled)"
+    events: NamespaceEventSummary[];
+    pods: PodDiagnostics[];
+    collectionErrors: string[];    // Parts that could not be read (e.g. the namespace was never created)
+    collectedAt: Date;
+}
+
+// The bundle's findings: pod and container problems first, then the latest Warning event per object and reason
+export function diagnosticFindings(pods: PodDiagnostics[], events: NamespaceEventSummary[]): string[] {
+    const findings: string[] = [];
+
+    for (const pod of pods) {
+        if (pod.reason) {
+            findings.push(`${pod.name}: ${pod.reason}`);
+        }
+        for (const container of pod.containers) {
+            const lastExit = container.lastTerminationReason ? ` (last exit: ${container.lastTerminationReason})` : '';
+            if (container.reason && container.reason !== 'Completed') {
+                findings.push(`${pod.name}/${container.name}: ${container.reason}${lastExit}`);
+            } else if (container.restartCount > 0) {
+                findings.push(`${pod.name}/${container.name}: restarted ${container.restartCount}×${lastExit}`);
+            }
+        }
+    }
+
+    const warnings = new Map<string, NamespaceEventSummary>();
+    for (const event of events) {
+        if (event.type === 'Warning') {
+            warnings.set(`${event.object} ${event.reason}`, event);
+        }
+    }
+    for (const event of warnings.values()) {
+        findings.push(`${event.object}: ${event.reason}  ${event.message}`);
+    }
+
+    return findings;
+}
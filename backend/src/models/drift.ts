@@ -0,0 +1,59 @@
+// Drift model. The reconciler compares each READY store against the K8s objects its phases create,
+// recreates what is missing where that is safe, and flags store namespaces with no live store row.
+
+import { ProvisioningPhase, StoreEngine } from './store.js';
+
+export const ResourceKind = {
+    NAMESPACE: 'Namespace',
+    RESOURCE_QUOTA: 'ResourceQuota',
+    LIMIT_RANGE: 'LimitRange',
+    NETWORK_POLICY: 'NetworkPolicy',
+    SECRET: 'Secret',
+    PVC: 'PersistentVolumeClaim',
+    STATEFUL_SET: 'StatefulSet',
+    DEPLOYMENT: 'Deployment',
+    SERVICE: 'Service',
+    INGRESS: 'Ingress',
+} as const;
+
+export type ResourceKind = (typeof ResourceKind)[keyof typeof ResourceKind];
+
+// A K8s object every READY store of an engine has. A missing one is recreated by re-running
+// the (idempotent) phase that deploys it.
+export interface ExpectedResource {
+    kind: ResourceKind;
+    name: string;
+    phase: ProvisioningPhase;
+    // False when a new one would not match the store's data (generated passwords)  fixed by hand
+    repairable: boolean;
+}
+
+export interface StoreDrift {
+    storeId: string;
+    storeName: string;
+    namespace: string;
+    engine: StoreEngine;
+    missing: string[];             // Kind/name, e.g. "Ingress/wordpress"
+    repaired: string[];            // Recreated by this pass
+    manual: string[];              // Missing but not repairable (or in a phase that can't be re-run without them)
+    error?: string;                // Why a repair attempt failed
+}
+
+// A store namespace with no live store row: never recorded, or its store was already deleted
+export interface OrphanNamespace {
+    name: string;
+    storeId?: string;              // urumi.ai/store-id label
+    reason: 'no store row' | 'store deleted';
+    createdAt?: string;
+}
+
+// Result of one reconcile pass. Stored as JSONB, hence ISO string timestamps.
+export interface DriftReport {
+    startedAt: string;
+    completedAt: string;
+    repair: boolean;               // False when RECONCILE_REPAIR=false (report only)
+    storesChecked: number;
+    drifted: StoreDrift[];
+    orphanNamespaces: OrphanNamespace[];
+    errors: string[];              // Stores that could not be checked
+}
@@ -0,0 +1,25 @@
+// Store health model. The health prober checks READY and DEGRADED stores' workloads and storefront;
+// a store failing healthProbeFailureThreshold checks in a row moves to DEGRADED, and back to READY
+// on the next passing check. Each change is kept as a StoreHealthEvent (GET /api/stores/:id/health).
+
+export interface ComponentHealth {
+    healthy: boolean;
+    message?: string;              // Why it is unhealthy, e.g. "0/1 replicas available"
+}
+
+export interface StoreHealthEvent {
+    id: number;
+    storeId: string;
+    healthy: boolean;              // false = went DEGRADED (or its reason changed), true = recovered
+    reason?: string;
+    components: Record<string, ComponentHealth>;
+    createdAt: Date;
+}
+
+// "wordpress: 0/1 replicas available; http: HTTP 502"  the store's healthReason while DEGRADED
+export function describeUnhealthy(components: Record<string, ComponentHealth>): string {
+    return Object.entries(components)
+        .filter(([, component]) => !component.healthy)
+        .map(([name, component]) => (component.message ? `${name}: ${component.message}` : name))
+        .join('; ');
+}
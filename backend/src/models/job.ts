@@ -0,0 +1,51 @@
+// Provisioning job model. Jobs live in Postgres so provisioning (and deletion, resizing, backup, restore) survives API restarts.
+// States: queued → running → succeeded | failed. A running job whose lease expired is reclaimable.
+
+export const JobStatus = {
+    QUEUED: 'queued',
+    RUNNING: 'running',
+    SUCCEEDED: 'succeeded',
+    FAILED: 'failed',
+} as const;
+
+export type JobStatus = (typeof JobStatus)[keyof typeof JobStatus];
+
+export const JobKind = {
+    PROVISION: 'provision',
+    DELETE: 'delete',
+    RESIZE: 'resize',
+    BACKUP: 'backup',              // Runs alongside the store's other jobs
+    RESTORE: 'restore',
+} as const;
+
+export type JobKind = (typeof JobKind)[keyof typeof JobKind];
+
+export interface ProvisioningJob {
+    id: number;
+    storeId: string;
+    kind: JobKind;
+    backupId?: string;             // Backup to take (BACKUP) or restore from (RESTORE)
+    status: JobStatus;
+    attempts: number;              // Incremented on every claim
+    lockedBy?: string;             // Worker ID holding the lease
+    leaseExpiresAt?: Date;
+    heartbeatAt?: Date;
+    lastError?: string;
+    traceParent?: string;          // W3C traceparent of the request that queued it
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Aborts a running job once its worker finds the lease taken over (e.g. heartbeats stalled past the
+// lease). Another worker now owns the store, so the job stops without recording an outcome.
+export class LeaseLostError extends Error {
+    public readonly jobId: number;
+
+    constructor(jobId: number) {
+        super(`Lost the lease on job ${jobId}`);
+        this.name = 'LeaseLostError';
+        this.jobId = jobId;
+
+        Error.captureStackTrace(this, LeaseLostError);
+    }
+}
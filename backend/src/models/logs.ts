@@ -0,0 +1,27 @@
+// Query of GET /api/stores/:id/logs: which component's container to stream, and how much history.
+// Mirrors the K8s pod log options; sinceTime is converted to sinceSeconds for the K8s log API.
+
+import { z } from 'zod';
+
+export const MAX_LOG_TAIL_LINES = 5000;
+
+const queryFlag = z.enum(['true', 'false']).default('false').transform((v) => v === 'true');
+
+export const storeLogsQuerySchema = z
+    .object({
+        component: z.string().trim().min(1, 'component is required'),
+        container: z.string().trim().max(63).optional(),     // Defaults to the component's main container
+        pod: z.string().trim().max(253).optional(),          // Defaults to the component's newest running pod
+        follow: queryFlag,
+        tailLines: z.coerce.number().int().min(1).max(MAX_LOG_TAIL_LINES).default(100),
+        sinceSeconds: z.coerce.number().int().min(1).optional(),
+        sinceTime: z.string().datetime({ offset: true }).optional(),
+        timestamps: queryFlag,
+        previous: queryFlag,                                 // The previous (crashed) run of the container
+    })
+    .refine((query) => !(query.sinceSeconds && query.sinceTime), {
+        message: 'Only one of sinceSeconds and sinceTime may be set',
+        path: ['sinceTime'],
+    });
+
+export type StoreLogsQuery = z.infer<typeof storeLogsQuerySchema>;
@@ -0,0 +1,42 @@
+import { config } from '../config/index.js';
+import { containerSizes, storeFootprint, EngineSizing } from './sizing.js';
+
+const sizing: EngineSizing = {
+    containers: {
+        app: { requests: { cpuMillicores: 100, memoryMi: 128 }, limits: { cpuMillicores: 250, memoryMi: 256 }, perReplica: true },
+        database: { requests: { cpuMillicores: 100, memoryMi: 128 }, limits: { cpuMillicores: 250, memoryMi: 256 } },
+    },
+    backupJob: { requests: { cpuMillicores: 50, memoryMi: 64 }, limits: { cpuMillicores: 500, memoryMi: 512 } },
+};
+
+describe('storeFootprint', () => {
+    it('counts each replica, one surge pod and the backup Job', () => {
+        // medium: 2 replicas + 1 surge + the database = 4 containers
+        expect(storeFootprint(sizing, config.storePlans.medium)).toEqual({
+            requests: { cpuMillicores: 450, memoryMi: 576 },
+            limits: { cpuMillicores: 1500, memoryMi: 1536 },
+        });
+    });
+});
+
+describe('containerSizes', () => {
+    it('shares out the quota beside the backup Job', () => {
+        // small: (2000m - 500m) / 750m and (2048Mi - 512Mi) / 768Mi → twice the smallest limits
+        expect(containerSizes(sizing, config.storePlans.small).app).toEqual({
+            requests: { cpuMillicores: 150, memoryMi: 234 },
+            limits: { cpuMillicores: 500, memoryMi: 512 },
+        });
+    });
+
+    it('caps each container at the limit range max', () => {
+        const plan = config.storePlans.large;
+        const sizes = containerSizes(sizing, { ...plan, quota: { ...plan.quota, cpuLimitMillicores: 64000 } });
+        expect(sizes.database.limits.cpuMillicores).toBe(plan.limitRange.maxCpuMillicores);
+    });
+
+    it('keeps containers at their smallest size under a quota below the footprint', () => {
+        const plan = config.storePlans.medium;
+        const sizes = containerSizes(sizing, { ...plan, quota: { ...plan.quota, cpuLimitMillicores: 1000 } });
+        expect(sizes.app.limits.cpuMillicores).toBe(250);
+    });
+});
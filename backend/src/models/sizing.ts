@@ -0,0 +1,87 @@
+// Container sizes derived from a store's plan. Each engine declares the smallest size of each of its
+// containers (EngineDriver.sizing). The footprint adds them up for the plan's replicas, one rollout surge
+// pod of the application and, for engines with backups, a backup Job: the least quota the store runs in.
+// The quota is shared out in proportion to those smallest sizes, so the pods fill it while that surge pod
+// and Job still fit; no container goes past the limit range's max.
+
+import { StorePlan } from '../config/index.js';
+
+export interface ResourceAmounts {
+    cpuMillicores: number;
+    memoryMi: number;
+}
+
+export interface ContainerSize {
+    requests: ResourceAmounts;
+    limits: ResourceAmounts;
+}
+
+export interface ContainerSizing extends ContainerSize {
+    perReplica?: boolean;          // One per application replica (the WordPress / Medusa Deployment)
+}
+
+export interface EngineSizing {
+    containers: Readonly<Record<string, ContainerSizing>>;   // Smallest size, by container name
+    backupJob?: ContainerSize;     // Kept free in the quota for a backup or restore Job
+}
+
+const NOTHING: ContainerSize = {
+    requests: { cpuMillicores: 0, memoryMi: 0 },
+    limits: { cpuMillicores: 0, memoryMi: 0 },
+};
+
+// Pods of a container that can run at once. A Deployment rollout adds one surge pod; StatefulSets replace
+// their pod in place. Other Deployments (Redis) roll one at a time and are smaller than the application.
+function instances(container: ContainerSizing, plan: StorePlan): number {
+    return container.perReplica ? plan.applicationReplicas + 1 : 1;
+}
+
+function add(total: ContainerSize, size: ContainerSize, count: number): ContainerSize {
+    return {
+        requests: {
+            cpuMillicores: total.requests.cpuMillicores + size.requests.cpuMillicores * count,
+            memoryMi: total.requests.memoryMi + size.requests.memoryMi * count,
+        },
+        limits: {
+            cpuMillicores: total.limits.cpuMillicores + size.limits.cpuMillicores * count,
+            memoryMi: total.limits.memoryMi + size.limits.memoryMi * count,
+        },
+    };
+}
+
+// Every container at its smallest size, with the surge pod and the backup Job
+export function storeFootprint(sizing: EngineSizing, plan: StorePlan): ContainerSize {
+    return Object.values(sizing.containers).reduce(
+        (total, container) => add(total, container, instances(container, plan)),
+        add(NOTHING, sizing.backupJob ?? NOTHING, 1)
+    );
+}
+
+// Requests and limits of each container on `plan`. A quota below the footprint (see storeFootprint)
+// leaves containers at their smallest size.
+export function containerSizes(sizing: EngineSizing, plan: StorePlan): Record<string, ContainerSize> {
+    const footprint = storeFootprint(sizing, plan);
+    const job = sizing.backupJob ?? NOTHING;
+
+    // How many times its smallest size each container gets, from what the quota has beside the Job
+    const scale = (quota: number, reserved: number, needed: number) =>
+        Math.max(1, (quota - reserved) / (needed - reserved));
+    const cpuLimit = scale(plan.quota.cpuLimitMillicores, job.limits.cpuMillicores, footprint.limits.cpuMillicores);
+    const memoryLimit = scale(plan.quota.memoryLimitMi, job.limits.memoryMi, footprint.limits.memoryMi);
+    const cpuRequest = scale(plan.quota.cpuRequestMillicores, job.requests.cpuMillicores, footprint.requests.cpuMillicores);
+    const memoryRequest = scale(plan.quota.memoryRequestMi, job.requests.memoryMi, footprint.requests.memoryMi);
+
+    return Object.fromEntries(
+        Object.entries(sizing.containers).map(([name, container]) => {
+            const limits = {
+                cpuMillicores: Math.min(plan.limitRange.maxCpuMillicores, Math.floor(container.limits.cpuMillicores * cpuLimit)),
+                memoryMi: Math.min(plan.limitRange.maxMemoryMi, Math.floor(container.limits.memoryMi * memoryLimit)),
+            };
+            const requests = {
+                cpuMillicores: Math.min(limits.cpuMillicores, Math.floor(container.requests.cpuMillicores * cpuRequest)),
+                memoryMi: Math.min(limits.memoryMi, Math.floor(container.requests.memoryMi * memoryRequest)),
+            };
+            return [name, { requests, limits }];
+        })
+    );
+}
@@ -1,12 +1,18 @@
-// Store model and in-memory store. States: pending → provisioning → ready | failed.
+// Store model and state machine. States: pending → provisioning → ready | failed; ready ⇄ resizing, ready ⇄ restoring,
+// ready ⇄ degraded, degraded → resizing | restoring.
+// Transitions are enforced by StoreRepository.update (see canTransitionTo).
 // Uses Zod for request validation.
 
 import { z } from 'zod';
+import { config, StorePlan } from '../config/index.js';
 
 export const StoreStatus = {
     PENDING: 'pending',
     PROVISIONING: 'provisioning',
     READY: 'ready',
+    RESIZING: 'resizing',          // Applying a new plan to a running store; it stays usable
+    RESTORING: 'restoring',        // Replacing the database and wp-content from a backup
+    DEGRADED: 'degraded',          // Failing health checks (see healthReason); recovers to READY on its own
     FAILED: 'failed',
     DELETING: 'deleting',
     DELETED: 'deleted',
@@ -19,13 +25,14 @@ export const ProvisioningPhase = {
     DATABASE: 'database',
     APPLICATION: 'application',
     VALIDATION: 'validation',
+    CLONE: 'clone',                // Clones only: copy the source store's data
 } as const;
 
 export type ProvisioningPhase = (typeof ProvisioningPhase)[keyof typeof ProvisioningPhase];
 
 export const StoreEngine = {
     WOOCOMMERCE: 'woocommerce',
-    MEDUSA: 'medusa', // Stubbed for architecture demonstration
+    MEDUSA: 'medusa',
 } as const;
 
 export type StoreEngine = (typeof StoreEngine)[keyof typeof StoreEngine];
@@ -39,22 +46,66 @@ export const createStoreSchema = z.object({
     engine: z
         .enum([StoreEngine.WOOCOMMERCE, StoreEngine.MEDUSA])
         .default(StoreEngine.WOOCOMMERCE),
+    plan: z
+        .string()
+        .refine(isStorePlan, (plan) => ({
+            message: `Unknown plan '${plan}'. Available: ${Object.keys(config.storePlans).join(', ')}`,
+        }))
+        .default(config.defaultStorePlan),
 });
 
 export type CreateStoreRequest = z.infer<typeof createStoreSchema>;
 
+// Body of PATCH /api/stores/:id: a plan, explicit resource values, or both. Values not given keep the
+// store's current ones (or the new plan's, when the plan changes).
+export const resizeStoreSchema = z
+    .object({
+        plan: z
+            .string()
+            .refine(isStorePlan, (plan) => ({
+                message: `Unknown plan '${plan}'. Available: ${Object.keys(config.storePlans).join(', ')}`,
+            }))
+            .optional(),
+        cpuMillicores: z.number().int().min(1).max(64000).optional(),
+        memoryMi: z.number().int().min(1).max(262144).optional(),
+        databaseStorageGi: z.number().int().min(1).max(1024).optional(),
+        applicationStorageGi: z.number().int().min(1).max(1024).optional(),
+    })
+    .refine((body) => Object.values(body).some((value) => value !== undefined), {
+        message: 'Give a plan or at least one of cpuMillicores, memoryMi, databaseStorageGi, applicationStorageGi',
+    });
+
+export type ResizeStoreRequest = z.infer<typeof resizeStoreSchema>;
+
+// Body of POST /api/stores/:id/clone. The engine is the source's; the plan defaults to the source's.
+export const cloneStoreSchema = createStoreSchema.pick({ name: true }).extend({
+    plan: z
+        .string()
+        .refine(isStorePlan, (plan) => ({
+            message: `Unknown plan '${plan}'. Available: ${Object.keys(config.storePlans).join(', ')}`,
+        }))
+        .optional(),
+});
+
+export type CloneStoreRequest = z.infer<typeof cloneStoreSchema>;
+
 export interface Store {
     // Identity
     id: string;                    // UUID
+    tenantId: string;              // Owning tenant
     name: string;                  // User-provided name
     namespace: string;             // K8s namespace (store-{id})
     engine: StoreEngine;           // woocommerce | medusa
+    plan: string;                  // Size plan name (see config.storePlans)
+    resources?: StoreResources;    // Explicit sizes set by a resize, overriding the plan's
+    clonedFrom?: string;           // Source store ID, if this store is a clone
 
     // Status
     status: StoreStatus;
     phase?: ProvisioningPhase;     // Current phase during provisioning
     errorMessage?: string;         // Error details if failed
     errorPhase?: ProvisioningPhase; // Phase where error occurred
+    healthReason?: string;         // Failing health checks while DEGRADED
 
     // Endpoints (populated when ready)
     url?: string;                  // Store frontend URL
@@ -63,6 +114,8 @@ export interface Store {
     // Resource info
     mysqlReady: boolean;
     wordpressReady: boolean;
+    cpuMillicores: number;         // Reserved against the tenant quota (the resolved plan's limits.cpu)
+    storageGi: number;             // Reserved against the tenant quota (the resolved plan's requests.storage)
 
     // Timestamps
     createdAt: Date;
@@ -72,6 +125,73 @@ export interface Store {
 
     // Metadata
     provisioningDurationMs?: number; // Time from pending to ready
+
+    // Set while deleting (and kept if deletion fails)
+    deletionProgress?: DeletionProgress;
+
+    // The latest resize, kept after it finishes so partial failures stay visible
+    resizeProgress?: ResizeProgress;
+
+    // The latest restore, kept after it finishes
+    restoreProgress?: RestoreProgress;
+}
+
+// Per-store overrides of a plan's sizes (see resolveStorePlan). Stored as JSONB.
+export interface StoreResources {
+    cpuMillicores?: number;        // quota limits.cpu
+    memoryMi?: number;             // quota limits.memory
+    databaseStorageGi?: number;
+    applicationStorageGi?: number;
+}
+
+// What is still holding up a namespace deletion. Stored as JSONB, hence ISO string timestamps.
+export interface DeletionProgress {
+    startedAt: string;
+    lastCheckedAt?: string;
+    namespacePhase?: string;       // Active | Terminating
+    remaining: RemainingResource[];
+    conditions: string[];          // Namespace deletion conditions, e.g. "finalizers remaining"
+    retries: number;               // Times a stuck deletion was re-issued
+}
+
+export interface RemainingResource {
+    kind: string;
+    name: string;
+    finalizers?: string[];
+}
+
+export const ResizeStepStatus = {
+    APPLIED: 'applied',
+    SKIPPED: 'skipped',            // Nothing to change, or the cluster can't (e.g. no volume expansion)
+    FAILED: 'failed',
+} as const;
+
+export type ResizeStepStatus = (typeof ResizeStepStatus)[keyof typeof ResizeStepStatus];
+
+export interface ResizeStep {
+    resource: string;              // Kind/name, e.g. "PersistentVolumeClaim/data-mysql-0"
+    status: ResizeStepStatus;
+    message?: string;
+}
+
+// Stored as JSONB, hence ISO string timestamps
+export interface ResizeProgress {
+    fromPlan: string;
+    toPlan: string;
+    fromResources?: StoreResources;
+    toResources?: StoreResources;
+    startedAt: string;
+    completedAt?: string;
+    steps: ResizeStep[];
+}
+
+// Stored as JSONB, hence ISO string timestamps
+export interface RestoreProgress {
+    backupId: string;
+    backupCreatedAt: string;       // Point in time the store is being restored to
+    startedAt: string;
+    completedAt?: string;
+    error?: string;                // Why the restore failed (also in the store's errorMessage)
 }
 
 export interface StoreUpdate {
@@ -86,21 +206,89 @@ export interface StoreUpdate {
     readyAt?: Date;
     deletedAt?: Date;
     provisioningDurationMs?: number;
+    deletionProgress?: DeletionProgress;
+    resizeProgress?: ResizeProgress;
+    restoreProgress?: RestoreProgress;
 }
 
 export interface StoreListResponse {
     stores: Store[];
-    total: number;
+    total: number;                 // Matching the filter, across all pages
     page: number;
     pageSize: number;
+    statusCounts: Partial<Record<StoreStatus, number>>; // All live stores, ignoring the filter
 }
 
-export interface StoreFilter {
-    status?: StoreStatus;
-    engine?: StoreEngine;
-    search?: string;
-    page?: number;
-    pageSize?: number;
+export const StoreSortField = {
+    CREATED_AT: 'createdAt',
+    UPDATED_AT: 'updatedAt',
+    NAME: 'name',
+    STATUS: 'status',
+} as const;
+
+export type StoreSortField = (typeof StoreSortField)[keyof typeof StoreSortField];
+
+// Query string for GET /api/stores. Values arrive as strings, hence the coercion.
+export const storeFilterSchema = z.object({
+    status: z
+        .enum([
+            StoreStatus.PENDING,
+            StoreStatus.PROVISIONING,
+            StoreStatus.READY,
+            StoreStatus.RESIZING,
+            StoreStatus.RESTORING,
+            StoreStatus.DEGRADED,
+            StoreStatus.FAILED,
+            StoreStatus.DELETING,
+        ])
+        .optional(),
+    engine: z.enum([StoreEngine.WOOCOMMERCE, StoreEngine.MEDUSA]).optional(),
+    search: z.string().trim().max(64).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    sortBy: z
+        .enum([StoreSortField.CREATED_AT, StoreSortField.UPDATED_AT, StoreSortField.NAME, StoreSortField.STATUS])
+        .default(StoreSortField.CREATED_AT),
+    sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type StoreFilter = z.infer<typeof storeFilterSchema>;
+
+export function isStorePlan(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(config.storePlans, name);
+}
+
+// A plan removed from config after stores were created with it resolves to the default plan
+export function getStorePlan(name: string): StorePlan {
+    return isStorePlan(name) ? config.storePlans[name] : config.storePlans[config.defaultStorePlan];
+}
+
+// The store's plan with its resource overrides applied. Requests are capped at the new limits, and the
+// quota's storage grows to hold both volumes.
+export function resolveStorePlan(planName: string, resources?: StoreResources): StorePlan {
+    const plan = getStorePlan(planName);
+    if (!resources) {
+        return plan;
+    }
+
+    const cpuLimit = resources.cpuMillicores ?? plan.quota.cpuLimitMillicores;
+    const memoryLimit = resources.memoryMi ?? plan.quota.memoryLimitMi;
+    const databaseStorageGi = resources.databaseStorageGi ?? plan.databaseStorageGi;
+    const applicationStorageGi = resources.applicationStorageGi ?? plan.applicationStorageGi;
+
+    return {
+        ...plan,
+        quota: {
+            ...plan.quota,
+            cpuRequestMillicores: Math.min(plan.quota.cpuRequestMillicores, cpuLimit),
+            cpuLimitMillicores: cpuLimit,
+            memoryRequestMi: Math.min(plan.quota.memoryRequestMi, memoryLimit),
+            memoryLimitMi: memoryLimit,
+            storageGi: Math.max(plan.quota.storageGi, databaseStorageGi + applicationStorageGi),
+        },
+        databaseStorageGi,
+        applicationStorageGi,
+    };
 }
 
 export function getNamespaceName(storeId: string): string {
@@ -121,7 +309,11 @@ export function canTransitionTo(current: StoreStatus, target: StoreStatus): bool
     const validTransitions: Record<StoreStatus, StoreStatus[]> = {
         [StoreStatus.PENDING]: [StoreStatus.PROVISIONING, StoreStatus.FAILED, StoreStatus.DELETING],
         [StoreStatus.PROVISIONING]: [StoreStatus.READY, StoreStatus.FAILED],
-        [StoreStatus.READY]: [StoreStatus.DELETING],
+        [StoreStatus.READY]: [StoreStatus.DELETING, StoreStatus.RESIZING, StoreStatus.RESTORING, StoreStatus.DEGRADED],
+        [StoreStatus.RESIZING]: [StoreStatus.READY], // Partial failures are reported, the store stays READY
+        [StoreStatus.RESTORING]: [StoreStatus.READY], // A failed restore is reported in errorMessage
+        // Set and cleared by the health prober. Resizing or restoring is often the fix, so both are allowed.
+        [StoreStatus.DEGRADED]: [StoreStatus.READY, StoreStatus.DELETING, StoreStatus.RESIZING, StoreStatus.RESTORING],
         [StoreStatus.FAILED]: [StoreStatus.DELETING, StoreStatus.PROVISIONING], // Retry allowed
         [StoreStatus.DELETING]: [StoreStatus.DELETED, StoreStatus.FAILED],
         [StoreStatus.DELETED]: [], // Terminal state
@@ -130,11 +322,39 @@ export function canTransitionTo(current: StoreStatus, target: StoreStatus): bool
     return validTransitions[current]?.includes(target) ?? false;
 }
 
+// Thrown by StoreRepository.update when a status change is not allowed from the row's current status
+export class InvalidTransitionError extends Error {
+    public readonly storeId: string;
+    public readonly from: StoreStatus;
+    public readonly to: StoreStatus;
+
+    constructor(storeId: string, from: StoreStatus, to: StoreStatus) {
+        super(`Store ${storeId} cannot transition from '${from}' to '${to}'`);
+        this.name = 'InvalidTransitionError';
+        this.storeId = storeId;
+        this.from = from;
+        this.to = to;
+
+        Error.captureStackTrace(this, InvalidTransitionError);
+    }
+}
+
 export function isTerminalState(status: StoreStatus): boolean {
     return status === StoreStatus.DELETED;
 }
 
 export function isActiveState(status: StoreStatus): boolean {
-    const activeStates: StoreStatus[] = [StoreStatus.PENDING, StoreStatus.PROVISIONING, StoreStatus.DELETING];
+    const activeStates: StoreStatus[] = [
+        StoreStatus.PENDING,
+        StoreStatus.PROVISIONING,
+        StoreStatus.RESIZING,
+        StoreStatus.RESTORING,
+        StoreStatus.DELETING,
+    ];
     return activeStates.includes(status);
 }
+
+// Provisioned and not being changed by a job  the stores the reconciler and health prober check
+export function isRunningState(status: StoreStatus): boolean {
+    return status === StoreStatus.READY || status === StoreStatus.DEGRADED;
+}
@@ -0,0 +1,47 @@
+// Tenant model. Every API key and store belongs to one tenant; quotas are enforced per tenant.
+// A store counts against its tenant's quota until it is DELETED (failed stores still hold their name
+// and, with KEEP_FAILED_NAMESPACES, their namespace).
+
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface Tenant {
+    id: string;
+    name: string;
+    quota: TenantQuota;            // Overrides merged with the TENANT_* config defaults
+    createdAt: Date;
+}
+
+export interface TenantQuota {
+    maxActiveStores: number;
+    maxCpuMillicores: number;
+    maxStorageGi: number;
+}
+
+export interface TenantUsage {
+    activeStores: number;
+    cpuMillicores: number;
+    storageGi: number;
+}
+
+export type QuotaResource = 'stores' | 'cpu' | 'storage';
+
+// Thrown by StoreRepository.createWithJob when the new store would exceed its tenant's quota
+export class QuotaExceededError extends Error {
+    public readonly tenantId: string;
+    public readonly resource: QuotaResource;
+    public readonly limit: number;
+    public readonly used: number;
+    public readonly requested: number;
+
+    constructor(tenantId: string, resource: QuotaResource, limit: number, used: number, requested: number) {
+        super(`Tenant ${tenantId} ${resource} quota exceeded (${used} used + ${requested} requested > ${limit})`);
+        this.name = 'QuotaExceededError';
+        this.tenantId = tenantId;
+        this.resource = resource;
+        this.limit = limit;
+        this.used = used;
+        this.requested = requested;
+
+        Error.captureStackTrace(this, QuotaExceededError);
+    }
+}
@@ -0,0 +1,31 @@
+// Provisioning timeline model. Each provisioning phase, and each sub-step inside it (a K8s object, a
+// readiness wait, a WP-CLI command), is stored as a ProvisioningEvent with its start, end and outcome
+// (GET /api/stores/:id/timeline). Retried and resumed attempts append to the same timeline.
+
+import { ProvisioningPhase } from './store.js';
+
+export const StepOutcome = {
+    RUNNING: 'running',
+    SUCCEEDED: 'succeeded',
+    FAILED: 'failed',
+    INTERRUPTED: 'interrupted',    // The API stopped mid-step; a later attempt resumed the store
+} as const;
+
+export type StepOutcome = (typeof StepOutcome)[keyof typeof StepOutcome];
+
+// Engine configuration after the last phase (WP-CLI setup)  not a checkpointed phase
+export const POST_INSTALL = 'post_install';
+
+export type TimelinePhase = ProvisioningPhase | typeof POST_INSTALL;
+
+export interface ProvisioningEvent {
+    id: number;
+    storeId: string;
+    phase: TimelinePhase;
+    step?: string;                 // Unset for the phase itself
+    outcome: StepOutcome;
+    error?: string;
+    startedAt: Date;
+    finishedAt?: Date;
+    durationMs?: number;
+}
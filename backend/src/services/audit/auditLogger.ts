@@ -1,18 +1,36 @@
-// In-memory audit log tracking store create/delete actions.
-// Queryable by storeId, exposed via GET /api/audit.
-// TODO: persist to postgres in prod.
+// Audit log tracking store lifecycle actions, persisted to the audit_entries table.
+// Queryable by action/store/source IP/time range, exposed via GET /api/audit.
 
 import { logger } from '../../utils/logger.js';
+import { Principal } from '../../models/auth.js';
+import { auditRepository } from '../database/index.js';
 
 export const AuditAction = {
     STORE_CREATE_REQUESTED: 'store.create.requested',
     STORE_CREATE_STARTED: 'store.create.started',
     STORE_CREATE_SUCCEEDED: 'store.create.succeeded',
     STORE_CREATE_FAILED: 'store.create.failed',
+    STORE_RETRY_REQUESTED: 'store.retry.requested',
     STORE_DELETE_REQUESTED: 'store.delete.requested',
     STORE_DELETE_SUCCEEDED: 'store.delete.succeeded',
     STORE_DELETE_FAILED: 'store.delete.failed',
+    STORE_RESIZE_REQUESTED: 'store.resize.requested',
+    STORE_RESIZE_SUCCEEDED: 'store.resize.succeeded',
+    STORE_RESIZE_FAILED: 'store.resize.failed',       // At least one resource could not be resized
+    STORE_BACKUP_REQUESTED: 'store.backup.requested',
+    STORE_BACKUP_SUCCEEDED: 'store.backup.succeeded',
+    STORE_BACKUP_FAILED: 'store.backup.failed',
+    STORE_RESTORE_REQUESTED: 'store.restore.requested',
+    STORE_RESTORE_SUCCEEDED: 'store.restore.succeeded',
+    STORE_RESTORE_FAILED: 'store.restore.failed',
+    STORE_DRIFT_REPAIRED: 'store.drift.repaired',
     STORE_STATUS_CHANGED: 'store.status.changed',
+    STORE_CREDENTIALS_VIEWED: 'store.credentials.viewed',
+    AUTH_LOGIN_SUCCEEDED: 'auth.login.succeeded',
+    AUTH_LOGIN_FAILED: 'auth.login.failed',
+    ACCESS_DENIED: 'access.denied',
+    API_KEY_CREATED: 'apikey.created',
+    API_KEY_REVOKED: 'apikey.revoked',
 } as const;
 
 export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
@@ -25,75 +43,60 @@ export interface AuditEntry {
     storeName?: string;
     engine?: string;
     sourceIp?: string;
+    principal?: Principal;         // Who acted; unset for actions the platform takes itself
     details?: Record<string, unknown>;
     duration?: number; // ms for completed actions
 }
 
-class AuditLogger {
-    private entries: AuditEntry[] = [];
-    private counter = 0;
-    private log = logger.child({ service: 'AuditLogger' });
+export interface AuditFilters {
+    action?: AuditAction;
+    storeId?: string;
+    sourceIp?: string;
+    principalId?: string;
+    from?: Date;                   // Inclusive
+    to?: Date;                     // Exclusive
+    cursor?: string;               // nextCursor from the previous page
+    limit: number;
+    tenantId?: string;             // Only this tenant's principals and stores (unset: every tenant)
+}
 
-    record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
-        const auditEntry: AuditEntry = {
-            ...entry,
-            id: `audit-${++this.counter}`,
-            timestamp: new Date(),
-        };
+export interface AuditStats {
+    totalActions: number;
+    storesCreated: number;
+    storesDeleted: number;
+    storesFailed: number;
+}
 
-        this.entries.push(auditEntry);
+class AuditLogger {
+    private log = logger.child({ service: 'AuditLogger' });
 
+    // Fire-and-forget: callers never wait on (or fail because of) the audit write.
+    // The structured log line is emitted first so the action is captured even if the insert fails.
+    record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): void {
         // Also log structured for external log aggregation
         this.log.info({
             audit: true,
-            action: auditEntry.action,
-            storeId: auditEntry.storeId,
-            storeName: auditEntry.storeName,
-            engine: auditEntry.engine,
-            sourceIp: auditEntry.sourceIp,
-            details: auditEntry.details,
-            duration: auditEntry.duration,
-        }, `AUDIT: ${auditEntry.action}`);
-
-        return auditEntry;
+            action: entry.action,
+            storeId: entry.storeId,
+            storeName: entry.storeName,
+            engine: entry.engine,
+            sourceIp: entry.sourceIp,
+            principal: entry.principal,
+            details: entry.details,
+            duration: entry.duration,
+        }, `AUDIT: ${entry.action}`);
+
+        auditRepository.insert(entry).catch((err) => {
+            this.log.error({ err, action: entry.action, storeId: entry.storeId }, 'Failed to persist audit entry');
+        });
     }
 
-    getEntries(filters?: {
-        storeId?: string;
-        action?: AuditAction;
-        limit?: number;
-    }): AuditEntry[] {
-        let results = [...this.entries];
-
-        if (filters?.storeId) {
-            results = results.filter(e => e.storeId === filters.storeId);
-        }
-        if (filters?.action) {
-            results = results.filter(e => e.action === filters.action);
-        }
-
-        // Most recent first
-        results.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-        if (filters?.limit) {
-            results = results.slice(0, filters.limit);
-        }
-
-        return results;
+    async getEntries(filters: AuditFilters): Promise<{ entries: AuditEntry[]; nextCursor?: string }> {
+        return auditRepository.find(filters);
     }
 
-    getStats(): {
-        totalActions: number;
-        storesCreated: number;
-        storesDeleted: number;
-        storesFailed: number;
-    } {
-        return {
-            totalActions: this.entries.length,
-            storesCreated: this.entries.filter(e => e.action === AuditAction.STORE_CREATE_SUCCEEDED).length,
-            storesDeleted: this.entries.filter(e => e.action === AuditAction.STORE_DELETE_SUCCEEDED).length,
-            storesFailed: this.entries.filter(e => e.action === AuditAction.STORE_CREATE_FAILED).length,
-        };
+    async getStats(tenantId?: string): Promise<AuditStats> {
+        return auditRepository.getStats(tenantId);
     }
 }
 
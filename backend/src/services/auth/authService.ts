@@ -0,0 +1,163 @@
+// API keys and dashboard sessions. Keys are random "urk_" tokens stored only as SHA-256
+// hashes; a login exchanges a key for a short-lived HS256 JWT (sub = key ID).
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { apiKeyRepository } from '../database/index.js';
+import { ApiKey, CreateApiKeyRequest, Principal, PrincipalType, Role } from '../../models/auth.js';
+import { DEFAULT_TENANT_ID } from '../../models/tenant.js';
+
+const KEY_PREFIX = 'urk_';
+const KEY_PREFIX_LENGTH = 12;          // Shown in listings: "urk_" + 8 characters
+const JWT_ISSUER = 'urumi-platform';
+
+export interface Session {
+    token: string;
+    expiresAt: Date;
+    principal: Principal;
+}
+
+export class AuthService {
+    private log = logger.child({ service: 'AuthService' });
+    private readonly jwtSecret: string;
+
+    constructor() {
+        if (config.jwtSecret) {
+            this.jwtSecret = config.jwtSecret;
+        } else {
+            this.jwtSecret = crypto.randomBytes(32).toString('hex');
+            if (config.authEnabled) {
+                this.log.warn('JWT_SECRET not set  using a random secret; sessions end on restart');
+            }
+        }
+    }
+
+    static hashKey(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+
+    // Returns the plaintext key once; only its hash is persisted. The tenant must already exist.
+    async createApiKey(
+        request: CreateApiKeyRequest,
+        tenantId: string,
+        createdBy?: Principal
+    ): Promise<{ apiKey: ApiKey; key: string }> {
+        const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+        const now = new Date();
+
+        const apiKey: ApiKey = {
+            id: uuidv4().slice(0, 8),
+            tenantId,
+            name: request.name,
+            role: request.role,
+            keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+            createdBy: createdBy?.id,
+            createdAt: now,
+            expiresAt: request.expiresInDays
+                ? new Date(now.getTime() + request.expiresInDays * 24 * 60 * 60 * 1000)
+                : undefined,
+        };
+
+        await apiKeyRepository.create(apiKey, AuthService.hashKey(key));
+        this.log.info({ keyId: apiKey.id, name: apiKey.name, role: apiKey.role, tenantId }, 'API key created');
+
+        return { apiKey, key };
+    }
+
+    async authenticateApiKey(key: string): Promise<Principal | null> {
+        if (!key.startsWith(KEY_PREFIX)) {
+            return null;
+        }
+
+        const apiKey = await apiKeyRepository.findActiveByHash(AuthService.hashKey(key));
+        if (!apiKey) {
+            return null;
+        }
+
+        // Best effort  a failed timestamp write must not fail the request
+        apiKeyRepository.touch(apiKey.id).catch((err) =>
+            this.log.warn({ err, keyId: apiKey.id }, 'Failed to update key last-used time')
+        );
+
+        return this.toPrincipal(apiKey, PrincipalType.API_KEY);
+    }
+
+    issueSession(principal: Principal): Session {
+        const expiresAt = new Date(Date.now() + config.sessionTtlMs);
+        const token = jwt.sign(
+            { name: principal.name },
+            this.jwtSecret,
+            {
+                algorithm: 'HS256',
+                subject: principal.id,
+                issuer: JWT_ISSUER,
+                expiresIn: Math.floor(config.sessionTtlMs / 1000),
+            }
+        );
+
+        return {
+            token,
+            expiresAt,
+            principal: { ...principal, type: PrincipalType.SESSION },
+        };
+    }
+
+    // A session is only as good as its key: revoking the key ends its sessions
+    async verifySession(token: string): Promise<Principal | null> {
+        let payload: jwt.JwtPayload;
+        try {
+            payload = jwt.verify(token, this.jwtSecret, {
+                algorithms: ['HS256'],
+                issuer: JWT_ISSUER,
+            }) as jwt.JwtPayload;
+        } catch {
+            return null;
+        }
+
+        if (!payload.sub) {
+            return null;
+        }
+
+        const apiKey = await apiKeyRepository.findActiveById(payload.sub);
+        if (!apiKey) {
+            return null;
+        }
+
+        return this.toPrincipal(apiKey, PrincipalType.SESSION);
+    }
+
+    // Role and tenant always come from the key row, never from the token, so changes apply immediately
+    private toPrincipal(apiKey: ApiKey, type: PrincipalType): Principal {
+        return { id: apiKey.id, name: apiKey.name, type, tenantId: apiKey.tenantId, role: apiKey.role };
+    }
+
+    // Seeds BOOTSTRAP_API_KEY (an admin in the default tenant) so a fresh install has one usable key. Idempotent.
+    async ensureBootstrapKey(): Promise<void> {
+        if (!config.authEnabled || !config.bootstrapApiKey) {
+            return;
+        }
+
+        const key = config.bootstrapApiKey;
+        const inserted = await apiKeyRepository.createIfAbsent(
+            {
+                id: uuidv4().slice(0, 8),
+                tenantId: DEFAULT_TENANT_ID,
+                name: 'bootstrap',
+                role: Role.ADMIN,
+                keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+                createdAt: new Date(),
+            },
+            AuthService.hashKey(key)
+        );
+
+        if (inserted) {
+            this.log.info('Bootstrap API key registered');
+        }
+    }
+}
+
+// Export singleton
+export const authService = new AuthService();
@@ -9,7 +9,27 @@ import {
     StoreStatus,
     StoreEngine,
     ProvisioningPhase,
+    StoreFilter,
+    StoreListResponse,
+    StoreSortField,
+    DeletionProgress,
+    ResizeProgress,
+    StoreResources,
+    RestoreProgress,
+    canTransitionTo,
+    InvalidTransitionError,
 } from '../../models/store.js';
+import { JobKind, JobStatus, ProvisioningJob } from '../../models/job.js';
+import { ApiKey, PrincipalType, Role } from '../../models/auth.js';
+import { Backup, BackupStatus, BackupTrigger } from '../../models/backup.js';
+import { Tenant, TenantUsage, QuotaExceededError } from '../../models/tenant.js';
+import { DriftReport } from '../../models/drift.js';
+import { ProvisioningEvent, StepOutcome, TimelinePhase } from '../../models/timeline.js';
+import { DiagnosticBundle } from '../../models/diagnostics.js';
+import { currentTraceParent } from '../../utils/tracing.js';
+import { StoreHealthEvent, ComponentHealth } from '../../models/health.js';
+import { migrateUp, getMigrationStatus, MigrationStatus } from './migrator.js';
+import { auditLogger, AuditAction, AuditEntry, AuditFilters, AuditStats } from '../audit/auditLogger.js';
 
 const log = logger.child({ service: 'Database' });
 
@@ -25,36 +45,23 @@ pool.on('error', (err) => {
 });
 
 // ============================================================================
-// Schema initialization  runs on startup
+// Schema initialization  applies pending migrations on startup (and via `npm run migrate`)
 // ============================================================================
-export async function initDatabase(): Promise<void> {
+export async function initDatabase(): Promise<number[]> {
     const client = await pool.connect();
     try {
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS stores (
-                id              VARCHAR(16) PRIMARY KEY,
-                name            VARCHAR(64) NOT NULL,
-                namespace       VARCHAR(128) NOT NULL,
-                engine          VARCHAR(32) NOT NULL DEFAULT 'woocommerce',
-                status          VARCHAR(32) NOT NULL DEFAULT 'pending',
-                phase           VARCHAR(32),
-                url             TEXT,
-                admin_url       TEXT,
-                mysql_ready     BOOLEAN NOT NULL DEFAULT FALSE,
-                wordpress_ready BOOLEAN NOT NULL DEFAULT FALSE,
-                error_message   TEXT,
-                error_phase     VARCHAR(32),
-                provisioning_duration_ms INTEGER,
-                created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-                updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-                ready_at        TIMESTAMPTZ,
-                deleted_at      TIMESTAMPTZ
-            );
-
-            CREATE INDEX IF NOT EXISTS idx_stores_status ON stores(status);
-            CREATE INDEX IF NOT EXISTS idx_stores_created_at ON stores(created_at DESC);
-        `);
+        const applied = await migrateUp(client);
         log.info('Database schema initialized');
+        return applied;
+    } finally {
+        client.release();
+    }
+}
+
+export async function migrationStatus(): Promise<MigrationStatus[]> {
+    const client = await pool.connect();
+    try {
+        return await getMigrationStatus(client);
     } finally {
         client.release();
     }
@@ -63,28 +70,182 @@ export async function initDatabase(): Promise<void> {
 // ============================================================================
 // Store CRUD operations
 // ============================================================================
+const INSERT_STORE_SQL = `INSERT INTO stores (id, tenant_id, name, namespace, engine, plan, status, phase,
+        mysql_ready, wordpress_ready, cpu_millicores, storage_gi, created_at, updated_at, cloned_from, resources)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`;
+
+function storeInsertValues(store: Store): unknown[] {
+    return [
+        store.id,
+        store.tenantId,
+        store.name,
+        store.namespace,
+        store.engine,
+        store.plan,
+        store.status,
+        store.phase || null,
+        store.mysqlReady,
+        store.wordpressReady,
+        store.cpuMillicores,
+        store.storageGi,
+        store.createdAt,
+        store.updatedAt,
+        store.clonedFrom ?? null,
+        store.resources ?? null,
+    ];
+}
+
+const SORT_COLUMNS: Record<StoreSortField, string> = {
+    [StoreSortField.CREATED_AT]: 'created_at',
+    [StoreSortField.UPDATED_AT]: 'updated_at',
+    [StoreSortField.NAME]: 'name',
+    [StoreSortField.STATUS]: 'status',
+};
+
 export class StoreRepository {
     async create(store: Store): Promise<Store> {
-        await pool.query(
-            `INSERT INTO stores (id, name, namespace, engine, status, phase,
-                mysql_ready, wordpress_ready, created_at, updated_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-            [
-                store.id,
-                store.name,
-                store.namespace,
-                store.engine,
-                store.status,
-                store.phase || null,
-                store.mysqlReady,
-                store.wordpressReady,
-                store.createdAt,
-                store.updatedAt,
-            ]
-        );
+        await pool.query(INSERT_STORE_SQL, storeInsertValues(store));
         return store;
     }
 
+    // Store row + its provisioning job in one transaction  no store without a worker to drive it.
+    // Locking the tenant row serializes concurrent creations for a tenant, so the quota check
+    // and the insert see the same usage. Throws QuotaExceededError.
+    async createWithJob(store: Store): Promise<Store> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            await lockTenantAndCheckQuota(client, store.tenantId, {
+                activeStores: 1,
+                cpuMillicores: store.cpuMillicores,
+                storageGi: store.storageGi,
+            });
+
+            await client.query(INSERT_STORE_SQL, storeInsertValues(store));
+            await client.query(
+                'INSERT INTO provisioning_jobs (store_id, trace_parent) VALUES ($1, $2)',
+                [store.id, currentTraceParent() ?? null]
+            );
+            await client.query('COMMIT');
+            return store;
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    // READY/DEGRADED → RESIZING on the new plan and resources + its resize job, in one transaction. The
+    // store's reservation moves to the new size up front; only growth is checked against the tenant quota.
+    // Throws QuotaExceededError, or InvalidTransitionError if the store's status changed since it was read.
+    async beginResize(
+        store: Store,
+        plan: string,
+        resources: StoreResources | undefined,
+        reservation: { cpuMillicores: number; storageGi: number },
+        progress: ResizeProgress
+    ): Promise<Store> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            await lockTenantAndCheckQuota(client, store.tenantId, {
+                activeStores: 0,
+                cpuMillicores: reservation.cpuMillicores - store.cpuMillicores,
+                storageGi: reservation.storageGi - store.storageGi,
+            });
+
+            const result = await client.query(
+                `UPDATE stores
+                 SET status = $2, plan = $3, cpu_millicores = $4, storage_gi = $5,
+                     resize_progress = $6, resources = $7, error_message = NULL, updated_at = NOW()
+                 WHERE id = $1 AND status = $8
+                 RETURNING *`,
+                [
+                    store.id,
+                    StoreStatus.RESIZING,
+                    plan,
+                    reservation.cpuMillicores,
+                    reservation.storageGi,
+                    progress,
+                    resources ?? null,
+                    store.status,
+                ]
+            );
+            if (!result.rows[0]) {
+                const latest = await this.findById(store.id);
+                throw new InvalidTransitionError(store.id, latest?.status ?? store.status, StoreStatus.RESIZING);
+            }
+
+            await client.query(
+                'INSERT INTO provisioning_jobs (store_id, kind, trace_parent) VALUES ($1, $2, $3)',
+                [store.id, JobKind.RESIZE, currentTraceParent() ?? null]
+            );
+            await client.query('COMMIT');
+
+            auditLogger.record({
+                action: AuditAction.STORE_STATUS_CHANGED,
+                storeId: store.id,
+                storeName: store.name,
+                engine: store.engine,
+                details: { from: store.status, to: StoreStatus.RESIZING },
+            });
+
+            return this.rowToStore(result.rows[0]);
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    // READY/DEGRADED → RESTORING + a restore job for the backup, in one transaction.
+    // Throws InvalidTransitionError if the store's status changed since it was read.
+    async beginRestore(store: Store, progress: RestoreProgress): Promise<Store> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const result = await client.query(
+                `UPDATE stores
+                 SET status = $2, restore_progress = $3, error_message = NULL, updated_at = NOW()
+                 WHERE id = $1 AND status = $4
+                 RETURNING *`,
+                [store.id, StoreStatus.RESTORING, progress, store.status]
+            );
+            if (!result.rows[0]) {
+                const latest = await this.findById(store.id);
+                throw new InvalidTransitionError(store.id, latest?.status ?? store.status, StoreStatus.RESTORING);
+            }
+
+            await client.query(
+                'INSERT INTO provisioning_jobs (store_id, kind, backup_id, trace_parent) VALUES ($1, $2, $3, $4)',
+                [store.id, JobKind.RESTORE, progress.backupId, currentTraceParent() ?? null]
+            );
+            await client.query('COMMIT');
+
+            auditLogger.record({
+                action: AuditAction.STORE_STATUS_CHANGED,
+                storeId: store.id,
+                storeName: store.name,
+                engine: store.engine,
+                details: { from: store.status, to: StoreStatus.RESTORING },
+            });
+
+            return this.rowToStore(result.rows[0]);
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Status changes are compare-and-set: the transition is validated against the row's current
+    // status and the UPDATE only applies if that status is still current when it runs.
     async update(id: string, updates: Partial<Store>): Promise<Store | null> {
         const setClauses: string[] = [];
         const values: unknown[] = [];
@@ -99,9 +260,13 @@ export class StoreRepository {
             wordpressReady: 'wordpress_ready',
             errorMessage: 'error_message',
             errorPhase: 'error_phase',
+            healthReason: 'health_reason',
             provisioningDurationMs: 'provisioning_duration_ms',
             readyAt: 'ready_at',
             deletedAt: 'deleted_at',
+            deletionProgress: 'deletion_progress', // Object → JSON via pg
+            resizeProgress: 'resize_progress',
+            restoreProgress: 'restore_progress',
         };
 
         for (const [jsKey, dbCol] of Object.entries(fieldMap)) {
@@ -118,15 +283,60 @@ export class StoreRepository {
         paramIdx++;
 
         // WHERE clause
+        const whereClauses = [`id = $${paramIdx}`];
         values.push(id);
+        paramIdx++;
+
+        const target = updates.status;
+        let expected: StoreStatus | undefined;
+        if (target) {
+            const current = await this.findById(id);
+            if (!current) {
+                return null;
+            }
+
+            expected = current.status;
+            if (expected !== target && !canTransitionTo(expected, target)) {
+                throw new InvalidTransitionError(id, expected, target);
+            }
+
+            whereClauses.push(`status = $${paramIdx}`);
+            values.push(expected);
+            paramIdx++;
+        }
 
         const result = await pool.query(
-            `UPDATE stores SET ${setClauses.join(', ')} WHERE id = $${paramIdx}
+            `UPDATE stores SET ${setClauses.join(', ')} WHERE ${whereClauses.join(' AND ')}
              RETURNING *`,
             values
         );
 
-        return result.rows[0] ? this.rowToStore(result.rows[0]) : null;
+        if (!result.rows[0]) {
+            if (!target) {
+                return null;
+            }
+
+            // Status changed between the read and the write  report what it changed to
+            const latest = await this.findById(id);
+            if (!latest) {
+                return null;
+            }
+            throw new InvalidTransitionError(id, latest.status, target);
+        }
+
+        const store = this.rowToStore(result.rows[0]);
+
+        if (expected && expected !== store.status) {
+            auditLogger.record({
+                action: AuditAction.STORE_STATUS_CHANGED,
+                storeId: store.id,
+                storeName: store.name,
+                engine: store.engine,
+                details: { from: expected, to: store.status },
+            });
+        }
+
+        return store;
     }
 
     async findById(id: string): Promise<Store | null> {
@@ -137,42 +347,819 @@ export class StoreRepository {
         return result.rows[0] ? this.rowToStore(result.rows[0]) : null;
     }
 
-    async findAll(): Promise<Store[]> {
+    // One page of live (non-deleted) stores, scoped to a tenant when given.
+    // Search matches name or ID, case-insensitively.
+    async findPage(filter: StoreFilter, tenantId?: string): Promise<StoreListResponse> {
+        const scope = ['status != $1'];
+        const scopeValues: unknown[] = [StoreStatus.DELETED];
+        if (tenantId) {
+            scopeValues.push(tenantId);
+            scope.push(`tenant_id = $${scopeValues.length}`);
+        }
+
+        const where = [...scope];
+        const values = [...scopeValues];
+
+        if (filter.status) {
+            values.push(filter.status);
+            where.push(`status = $${values.length}`);
+        }
+        if (filter.engine) {
+            values.push(filter.engine);
+            where.push(`engine = $${values.length}`);
+        }
+        if (filter.search) {
+            // Escape LIKE wildcards so the search is literal
+            values.push(`%${filter.search.replace(/[\\%_]/g, '\\$&')}%`);
+            where.push(`(name ILIKE $${values.length} OR id ILIKE $${values.length})`);
+        }
+
+        const whereSql = where.join(' AND ');
+        // Sort column comes from a fixed map, never from the request; id breaks ties for stable paging
+        const orderSql = `${SORT_COLUMNS[filter.sortBy]} ${filter.sortOrder === 'asc' ? 'ASC' : 'DESC'}, id ASC`;
+
+        const [countResult, pageResult, statusResult] = await Promise.all([
+            pool.query(`SELECT COUNT(*)::int AS count FROM stores WHERE ${whereSql}`, values),
+            pool.query(
+                `SELECT * FROM stores WHERE ${whereSql}
+                 ORDER BY ${orderSql}
+                 LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+                [...values, filter.pageSize, (filter.page - 1) * filter.pageSize]
+            ),
+            pool.query(
+                `SELECT status, COUNT(*)::int AS count FROM stores WHERE ${scope.join(' AND ')} GROUP BY status`,
+                scopeValues
+            ),
+        ]);
+
+        return {
+            stores: pageResult.rows.map((row) => this.rowToStore(row)),
+            total: countResult.rows[0].count as number,
+            page: filter.page,
+            pageSize: filter.pageSize,
+            statusCounts: Object.fromEntries(
+                statusResult.rows.map((row) => [row.status as StoreStatus, row.count as number])
+            ),
+        };
+    }
+
+    // READY or DEGRADED stores of the given engines with no backup (of any outcome) started within the interval
+    async findStoresDueForBackup(intervalMs: number, engines: StoreEngine[]): Promise<Store[]> {
+        const result = await pool.query(
+            `SELECT s.* FROM stores s
+             WHERE s.status = ANY($1) AND s.engine = ANY($2)
+               AND NOT EXISTS (
+                   SELECT 1 FROM store_backups b
+                   WHERE b.store_id = s.id
+                     AND (b.status IN ($3, $4) OR b.created_at > NOW() - $5::bigint * INTERVAL '1 millisecond')
+               )`,
+            [[StoreStatus.READY, StoreStatus.DEGRADED], engines, BackupStatus.PENDING, BackupStatus.RUNNING, Math.floor(intervalMs)]
+        );
+        return result.rows.map((row) => this.rowToStore(row));
+    }
+
+    // Live stores across all tenants, per status and engine  the urumi_stores gauge
+    async countByStatusAndEngine(): Promise<{ status: StoreStatus; engine: StoreEngine; count: number }[]> {
         const result = await pool.query(
-            `SELECT * FROM stores WHERE status != $1
-             ORDER BY created_at DESC`,
+            `SELECT status, engine, COUNT(*)::int AS count FROM stores
+             WHERE status != $1 GROUP BY status, engine`,
             [StoreStatus.DELETED]
         );
+        return result.rows.map((row) => ({
+            status: row.status as StoreStatus,
+            engine: row.engine as StoreEngine,
+            count: row.count as number,
+        }));
+    }
+
+    // Every store not yet DELETED  the reconciler matches their namespaces against the cluster
+    async findLive(): Promise<Store[]> {
+        const result = await pool.query('SELECT * FROM stores WHERE status != $1', [StoreStatus.DELETED]);
         return result.rows.map((row) => this.rowToStore(row));
     }
 
     async softDelete(id: string): Promise<void> {
+        await this.update(id, {
+            status: StoreStatus.DELETED,
+            deletedAt: new Date(),
+        });
+    }
+
+    // ========================================================================
+    // Provisioning jobs  leased queue worked by ProvisioningWorker
+    // ========================================================================
+    // Returns null if the store already has an active job (backup jobs don't count)
+    async enqueueJob(storeId: string, kind: JobKind = JobKind.PROVISION): Promise<ProvisioningJob | null> {
+        const result = await pool.query(
+            `INSERT INTO provisioning_jobs (store_id, kind, trace_parent) VALUES ($1, $2, $3)
+             ON CONFLICT (store_id) WHERE status IN ('queued', 'running') AND kind <> 'backup' DO NOTHING
+             RETURNING *`,
+            [storeId, kind, currentTraceParent() ?? null]
+        );
+        return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+    }
+
+    // Claims the oldest queued job, or a running job whose owner stopped heartbeating.
+    // SKIP LOCKED lets several replicas poll concurrently without double-claiming.
+    async claimJob(workerId: string, leaseMs: number): Promise<ProvisioningJob | null> {
+        const result = await pool.query(
+            `UPDATE provisioning_jobs
+             SET status = $1, locked_by = $2, attempts = attempts + 1,
+                 lease_expires_at = NOW() + $3::int * INTERVAL '1 millisecond',
+                 heartbeat_at = NOW(), updated_at = NOW()
+             WHERE id = (
+                 SELECT id FROM provisioning_jobs
+                 WHERE status = $4 OR (status = $1 AND lease_expires_at < NOW())
+                 ORDER BY created_at
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING *`,
+            [JobStatus.RUNNING, workerId, leaseMs, JobStatus.QUEUED]
+        );
+        return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+    }
+
+    // Returns false if the lease was lost (reclaimed by another worker)
+    async heartbeatJob(jobId: number, workerId: string, leaseMs: number): Promise<boolean> {
+        const result = await pool.query(
+            `UPDATE provisioning_jobs
+             SET lease_expires_at = NOW() + $3::int * INTERVAL '1 millisecond',
+                 heartbeat_at = NOW(), updated_at = NOW()
+             WHERE id = $1 AND locked_by = $2 AND status = $4`,
+            [jobId, workerId, leaseMs, JobStatus.RUNNING]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    async completeJob(
+        jobId: number,
+        workerId: string,
+        status: typeof JobStatus.SUCCEEDED | typeof JobStatus.FAILED,
+        lastError?: string
+    ): Promise<void> {
         await pool.query(
-            `UPDATE stores SET status = $1, deleted_at = NOW(), updated_at = NOW()
-             WHERE id = $2`,
-            [StoreStatus.DELETED, id]
+            `UPDATE provisioning_jobs
+             SET status = $3, last_error = $4, lease_expires_at = NULL, updated_at = NOW()
+             WHERE id = $1 AND locked_by = $2`,
+            [jobId, workerId, status, lastError ?? null]
         );
     }
 
+    // Hands a job back to the queue (graceful shutdown)  another replica resumes it immediately
+    async releaseJob(jobId: number, workerId: string): Promise<void> {
+        await pool.query(
+            `UPDATE provisioning_jobs
+             SET status = $3, locked_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+             WHERE id = $1 AND locked_by = $2 AND status = $4`,
+            [jobId, workerId, JobStatus.QUEUED, JobStatus.RUNNING]
+        );
+    }
+
+    async countExpiredJobs(): Promise<number> {
+        const result = await pool.query(
+            `SELECT COUNT(*)::int AS count FROM provisioning_jobs
+             WHERE status = $1 AND lease_expires_at < NOW()`,
+            [JobStatus.RUNNING]
+        );
+        return result.rows[0].count as number;
+    }
+
+    // Stores left in PROVISIONING/DELETING/RESIZING/RESTORING with no active job (e.g. created before the job queue existed)
+    async enqueueOrphanedStores(): Promise<number> {
+        const result = await pool.query(
+            `INSERT INTO provisioning_jobs (store_id, kind, backup_id)
+             SELECT s.id,
+                    CASE s.status WHEN $2 THEN $5 WHEN $7 THEN $8 WHEN $9 THEN $10 ELSE $6 END,
+                    CASE WHEN s.status = $9 THEN s.restore_progress->>'backupId' END
+             FROM stores s
+             WHERE s.status IN ($1, $2, $7, $9)
+               AND NOT EXISTS (
+                   SELECT 1 FROM provisioning_jobs j
+                   WHERE j.store_id = s.id AND j.status IN ($3, $4) AND j.kind <> $11
+               )`,
+            [
+                StoreStatus.PROVISIONING,
+                StoreStatus.DELETING,
+                JobStatus.QUEUED,
+                JobStatus.RUNNING,
+                JobKind.DELETE,
+                JobKind.PROVISION,
+                StoreStatus.RESIZING,
+                JobKind.RESIZE,
+                StoreStatus.RESTORING,
+                JobKind.RESTORE,
+                JobKind.BACKUP,
+            ]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    private rowToJob(row: Record<string, unknown>): ProvisioningJob {
+        return {
+            id: Number(row.id),
+            storeId: row.store_id as string,
+            kind: row.kind as JobKind,
+            backupId: (row.backup_id as string) || undefined,
+            status: row.status as JobStatus,
+            attempts: row.attempts as number,
+            lockedBy: (row.locked_by as string) || undefined,
+            leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at as string) : undefined,
+            heartbeatAt: row.heartbeat_at ? new Date(row.heartbeat_at as string) : undefined,
+            lastError: (row.last_error as string) || undefined,
+            traceParent: (row.trace_parent as string) || undefined,
+            createdAt: new Date(row.created_at as string),
+            updatedAt: new Date(row.updated_at as string),
+        };
+    }
+
     private rowToStore(row: Record<string, unknown>): Store {
         return {
             id: row.id as string,
+            tenantId: row.tenant_id as string,
             name: row.name as string,
             namespace: row.namespace as string,
             engine: row.engine as StoreEngine,
+            plan: row.plan as string,
+            resources: (row.resources as StoreResources) || undefined,
+            clonedFrom: (row.cloned_from as string) || undefined,
             status: row.status as StoreStatus,
             phase: (row.phase as ProvisioningPhase) || undefined,
             url: (row.url as string) || undefined,
             adminUrl: (row.admin_url as string) || undefined,
             mysqlReady: row.mysql_ready as boolean,
             wordpressReady: row.wordpress_ready as boolean,
+            cpuMillicores: row.cpu_millicores as number,
+            storageGi: row.storage_gi as number,
             errorMessage: (row.error_message as string) || undefined,
             errorPhase: (row.error_phase as ProvisioningPhase) || undefined,
+            healthReason: (row.health_reason as string) || undefined,
             provisioningDurationMs: (row.provisioning_duration_ms as number) || undefined,
             createdAt: new Date(row.created_at as string),
             updatedAt: new Date(row.updated_at as string),
             readyAt: row.ready_at ? new Date(row.ready_at as string) : undefined,
             deletedAt: row.deleted_at ? new Date(row.deleted_at as string) : undefined,
+            deletionProgress: (row.deletion_progress as DeletionProgress) || undefined,
+            resizeProgress: (row.resize_progress as ResizeProgress) || undefined,
+            restoreProgress: (row.restore_progress as RestoreProgress) || undefined,
+        };
+    }
+}
+
+// ============================================================================
+// Store backups  history of backups in the backup bucket, worked by backup/restore jobs
+// ============================================================================
+export class BackupRepository {
+    // Backup row + its backup job in one transaction. Returns null if the store already has a backup in flight.
+    async createWithJob(backup: Backup): Promise<Backup | null> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const result = await client.query(
+                `INSERT INTO store_backups (id, store_id, tenant_id, trigger, status, object_prefix, requested_by, created_at)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                 ON CONFLICT (store_id) WHERE status IN ('pending', 'running') DO NOTHING
+                 RETURNING *`,
+                [
+                    backup.id,
+                    backup.storeId,
+                    backup.tenantId,
+                    backup.trigger,
+                    backup.status,
+                    backup.objectPrefix,
+                    backup.requestedBy ?? null,
+                    backup.createdAt,
+                ]
+            );
+            if (!result.rows[0]) {
+                await client.query('ROLLBACK');
+                return null;
+            }
+
+            await client.query(
+                'INSERT INTO provisioning_jobs (store_id, kind, backup_id, trace_parent) VALUES ($1, $2, $3, $4)',
+                [backup.storeId, JobKind.BACKUP, backup.id, currentTraceParent() ?? null]
+            );
+            await client.query('COMMIT');
+            return this.rowToBackup(result.rows[0]);
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
+    async findById(id: string): Promise<Backup | null> {
+        const result = await pool.query('SELECT * FROM store_backups WHERE id = $1', [id]);
+        return result.rows[0] ? this.rowToBackup(result.rows[0]) : null;
+    }
+
+    // Newest first
+    async findByStore(storeId: string, limit: number = 50): Promise<Backup[]> {
+        const result = await pool.query(
+            'SELECT * FROM store_backups WHERE store_id = $1 ORDER BY created_at DESC LIMIT $2',
+            [storeId, limit]
+        );
+        return result.rows.map((row) => this.rowToBackup(row));
+    }
+
+    async findActive(storeId: string): Promise<Backup | null> {
+        const result = await pool.query(
+            'SELECT * FROM store_backups WHERE store_id = $1 AND status IN ($2, $3)',
+            [storeId, BackupStatus.PENDING, BackupStatus.RUNNING]
+        );
+        return result.rows[0] ? this.rowToBackup(result.rows[0]) : null;
+    }
+
+    async markRunning(id: string): Promise<void> {
+        await pool.query(
+            'UPDATE store_backups SET status = $2, started_at = COALESCE(started_at, NOW()) WHERE id = $1',
+            [id, BackupStatus.RUNNING]
+        );
+    }
+
+    async complete(
+        id: string,
+        status: typeof BackupStatus.SUCCEEDED | typeof BackupStatus.FAILED,
+        errorMessage?: string
+    ): Promise<void> {
+        await pool.query(
+            'UPDATE store_backups SET status = $2, error_message = $3, completed_at = NOW() WHERE id = $1',
+            [id, status, errorMessage ?? null]
+        );
+    }
+
+    // Succeeded backups beyond the newest `keep`  what retention deletes from the bucket
+    async findPrunable(storeId: string, keep: number): Promise<Backup[]> {
+        const result = await pool.query(
+            `SELECT * FROM store_backups WHERE store_id = $1 AND status = $2
+             ORDER BY created_at DESC OFFSET $3`,
+            [storeId, BackupStatus.SUCCEEDED, keep]
+        );
+        return result.rows.map((row) => this.rowToBackup(row));
+    }
+
+    async markExpired(ids: string[]): Promise<void> {
+        if (!ids.length) {
+            return;
+        }
+        await pool.query(
+            'UPDATE store_backups SET status = $2 WHERE id = ANY($1)',
+            [ids, BackupStatus.EXPIRED]
+        );
+    }
+
+    private rowToBackup(row: Record<string, unknown>): Backup {
+        return {
+            id: row.id as string,
+            storeId: row.store_id as string,
+            tenantId: row.tenant_id as string,
+            trigger: row.trigger as BackupTrigger,
+            status: row.status as BackupStatus,
+            objectPrefix: row.object_prefix as string,
+            errorMessage: (row.error_message as string) || undefined,
+            requestedBy: (row.requested_by as string) || undefined,
+            createdAt: new Date(row.created_at as string),
+            startedAt: row.started_at ? new Date(row.started_at as string) : undefined,
+            completedAt: row.completed_at ? new Date(row.completed_at as string) : undefined,
+        };
+    }
+}
+
+// ============================================================================
+// Audit entries  written by AuditLogger, queried by GET /api/audit
+// ============================================================================
+// A tenant's audit entries: what its principals did, plus what happened to its stores (background
+// jobs record store events without a principal)
+const TENANT_AUDIT_FILTER =
+    '(principal_tenant_id = ? OR store_id IN (SELECT id FROM stores WHERE tenant_id = ?))';
+
+export class AuditRepository {
+    async insert(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+        const result = await pool.query(
+            `INSERT INTO audit_entries (action, store_id, store_name, engine, source_ip, details, duration_ms,
+                    principal_id, principal_type, principal_name, principal_tenant_id, principal_role)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+             RETURNING *`,
+            [
+                entry.action,
+                entry.storeId ?? null,
+                entry.storeName ?? null,
+                entry.engine ?? null,
+                entry.sourceIp ?? null,
+                entry.details ? JSON.stringify(entry.details) : null,
+                entry.duration ?? null,
+                entry.principal?.id ?? null,
+                entry.principal?.type ?? null,
+                entry.principal?.name ?? null,
+                entry.principal?.tenantId ?? null,
+                entry.principal?.role ?? null,
+            ]
+        );
+        return this.rowToEntry(result.rows[0]);
+    }
+
+    // Newest first. The cursor is the id of the last entry of the previous page  ids are
+    // assigned in insertion order, so "id < cursor" is stable while new entries arrive.
+    async find(filters: AuditFilters): Promise<{ entries: AuditEntry[]; nextCursor?: string }> {
+        const where: string[] = [];
+        const values: unknown[] = [];
+
+        const addFilter = (clause: string, value: unknown) => {
+            values.push(value);
+            where.push(clause.replace(/\?/g, `$${values.length}`));
+        };
+
+        if (filters.tenantId) addFilter(TENANT_AUDIT_FILTER, filters.tenantId);
+
+        if (filters.action) addFilter('action = ?', filters.action);
+        if (filters.storeId) addFilter('store_id = ?', filters.storeId);
+        if (filters.sourceIp) addFilter('source_ip = ?', filters.sourceIp);
+        if (filters.principalId) addFilter('principal_id = ?', filters.principalId);
+        if (filters.from) addFilter('timestamp >= ?', filters.from);
+        if (filters.to) addFilter('timestamp < ?', filters.to);
+        if (filters.cursor) addFilter('id < ?', filters.cursor);
+
+        // Fetch one extra row to know whether another page exists
+        values.push(filters.limit + 1);
+
+        const result = await pool.query(
+            `SELECT * FROM audit_entries
+             ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+             ORDER BY id DESC
+             LIMIT $${values.length}`,
+            values
+        );
+
+        const entries = result.rows.slice(0, filters.limit).map((row) => this.rowToEntry(row));
+        const hasMore = result.rows.length > filters.limit;
+
+        return {
+            entries,
+            nextCursor: hasMore ? entries[entries.length - 1].id : undefined,
+        };
+    }
+
+    async getStats(tenantId?: string): Promise<AuditStats> {
+        const result = await pool.query(
+            `SELECT COUNT(*)::int AS total_actions,
+                    COUNT(*) FILTER (WHERE action = $1)::int AS stores_created,
+                    COUNT(*) FILTER (WHERE action = $2)::int AS stores_deleted,
+                    COUNT(*) FILTER (WHERE action = $3)::int AS stores_failed
+             FROM audit_entries
+             ${tenantId ? `WHERE ${TENANT_AUDIT_FILTER.replace(/\?/g, '$4')}` : ''}`,
+            [
+                AuditAction.STORE_CREATE_SUCCEEDED,
+                AuditAction.STORE_DELETE_SUCCEEDED,
+                AuditAction.STORE_CREATE_FAILED,
+                ...(tenantId ? [tenantId] : []),
+            ]
+        );
+        const row = result.rows[0];
+        return {
+            totalActions: row.total_actions as number,
+            storesCreated: row.stores_created as number,
+            storesDeleted: row.stores_deleted as number,
+            storesFailed: row.stores_failed as number,
+        };
+    }
+
+    private rowToEntry(row: Record<string, unknown>): AuditEntry {
+        return {
+            id: String(row.id),
+            timestamp: new Date(row.timestamp as string),
+            action: row.action as AuditAction,
+            storeId: (row.store_id as string) || undefined,
+            storeName: (row.store_name as string) || undefined,
+            engine: (row.engine as string) || undefined,
+            sourceIp: (row.source_ip as string) || undefined,
+            details: (row.details as Record<string, unknown>) || undefined,
+            duration: (row.duration_ms as number) ?? undefined,
+            principal: row.principal_id
+                ? {
+                    id: row.principal_id as string,
+                    type: row.principal_type as PrincipalType,
+                    name: row.principal_name as string,
+                    tenantId: row.principal_tenant_id as string,
+                    role: row.principal_role as Role,
+                }
+                : undefined,
+        };
+    }
+}
+
+// ============================================================================
+// API keys  only the SHA-256 hash of a key is stored
+// ============================================================================
+export class ApiKeyRepository {
+    async create(apiKey: ApiKey, keyHash: string): Promise<ApiKey> {
+        await pool.query(
+            `INSERT INTO api_keys (id, tenant_id, name, role, key_prefix, key_hash, created_by, created_at, expires_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+                apiKey.id,
+                apiKey.tenantId,
+                apiKey.name,
+                apiKey.role,
+                apiKey.keyPrefix,
+                keyHash,
+                apiKey.createdBy ?? null,
+                apiKey.createdAt,
+                apiKey.expiresAt ?? null,
+            ]
+        );
+        return apiKey;
+    }
+
+    // Inserts the key unless one with the same hash exists. Returns true if it was inserted.
+    async createIfAbsent(apiKey: ApiKey, keyHash: string): Promise<boolean> {
+        const result = await pool.query(
+            `INSERT INTO api_keys (id, tenant_id, name, role, key_prefix, key_hash, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (key_hash) DO NOTHING`,
+            [apiKey.id, apiKey.tenantId, apiKey.name, apiKey.role, apiKey.keyPrefix, keyHash, apiKey.createdAt]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    // Usable keys only: not revoked, not expired
+    async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+        const result = await pool.query(
+            `SELECT * FROM api_keys
+             WHERE key_hash = $1 AND revoked_at IS NULL
+               AND (expires_at IS NULL OR expires_at > NOW())`,
+            [keyHash]
+        );
+        return result.rows[0] ? this.rowToApiKey(result.rows[0]) : null;
+    }
+
+    async findActiveById(id: string): Promise<ApiKey | null> {
+        const result = await pool.query(
+            `SELECT * FROM api_keys
+             WHERE id = $1 AND revoked_at IS NULL
+               AND (expires_at IS NULL OR expires_at > NOW())`,
+            [id]
+        );
+        return result.rows[0] ? this.rowToApiKey(result.rows[0]) : null;
+    }
+
+    async findByTenant(tenantId: string): Promise<ApiKey[]> {
+        const result = await pool.query(
+            'SELECT * FROM api_keys WHERE tenant_id = $1 ORDER BY created_at DESC',
+            [tenantId]
+        );
+        return result.rows.map((row) => this.rowToApiKey(row));
+    }
+
+    // Returns false if the tenant has no such key or it was already revoked
+    async revoke(id: string, tenantId: string): Promise<boolean> {
+        const result = await pool.query(
+            'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL',
+            [id, tenantId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    async touch(id: string): Promise<void> {
+        await pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [id]);
+    }
+
+    private rowToApiKey(row: Record<string, unknown>): ApiKey {
+        return {
+            id: row.id as string,
+            tenantId: row.tenant_id as string,
+            name: row.name as string,
+            role: row.role as Role,
+            keyPrefix: row.key_prefix as string,
+            createdBy: (row.created_by as string) || undefined,
+            createdAt: new Date(row.created_at as string),
+            lastUsedAt: row.last_used_at ? new Date(row.last_used_at as string) : undefined,
+            expiresAt: row.expires_at ? new Date(row.expires_at as string) : undefined,
+            revokedAt: row.revoked_at ? new Date(row.revoked_at as string) : undefined,
+        };
+    }
+}
+
+// ============================================================================
+// Tenants  quota columns are nullable overrides of the TENANT_* config defaults
+// ============================================================================
+function rowToTenant(row: Record<string, unknown>): Tenant {
+    return {
+        id: row.id as string,
+        name: row.name as string,
+        quota: {
+            maxActiveStores: (row.max_active_stores as number | null) ?? config.tenantMaxActiveStores,
+            maxCpuMillicores: (row.max_cpu_millicores as number | null) ?? config.tenantMaxCpuMillicores,
+            maxStorageGi: (row.max_storage_gi as number | null) ?? config.tenantMaxStorageGi,
+        },
+        createdAt: new Date(row.created_at as string),
+    };
+}
+
+// Everything not yet DELETED counts, including failed stores
+// Locks the tenant row for the rest of the caller's transaction, so concurrent changes for a tenant
+// see the same usage, then checks the requested growth. Zero or negative amounts are not checked.
+async function lockTenantAndCheckQuota(
+    client: pg.PoolClient,
+    tenantId: string,
+    requested: TenantUsage
+): Promise<void> {
+    const tenantResult = await client.query('SELECT * FROM tenants WHERE id = $1 FOR UPDATE', [tenantId]);
+    if (!tenantResult.rows[0]) {
+        throw new Error(`Tenant ${tenantId} not found`);
+    }
+    const quota = rowToTenant(tenantResult.rows[0]).quota;
+    const usage = await queryTenantUsage(client, tenantId);
+
+    if (requested.activeStores > 0 && usage.activeStores + requested.activeStores > quota.maxActiveStores) {
+        throw new QuotaExceededError(
+            tenantId, 'stores', quota.maxActiveStores, usage.activeStores, requested.activeStores
+        );
+    }
+    if (requested.cpuMillicores > 0 && usage.cpuMillicores + requested.cpuMillicores > quota.maxCpuMillicores) {
+        throw new QuotaExceededError(
+            tenantId, 'cpu', quota.maxCpuMillicores, usage.cpuMillicores, requested.cpuMillicores
+        );
+    }
+    if (requested.storageGi > 0 && usage.storageGi + requested.storageGi > quota.maxStorageGi) {
+        throw new QuotaExceededError(
+            tenantId, 'storage', quota.maxStorageGi, usage.storageGi, requested.storageGi
+        );
+    }
+}
+
+async function queryTenantUsage(db: pg.Pool | pg.PoolClient, tenantId: string): Promise<TenantUsage> {
+    const result = await db.query(
+        `SELECT COUNT(*)::int AS stores,
+                COALESCE(SUM(cpu_millicores), 0)::int AS cpu,
+                COALESCE(SUM(storage_gi), 0)::int AS storage
+         FROM stores WHERE tenant_id = $1 AND status != $2`,
+        [tenantId, StoreStatus.DELETED]
+    );
+    const row = result.rows[0];
+    return { activeStores: row.stores, cpuMillicores: row.cpu, storageGi: row.storage };
+}
+
+export class TenantRepository {
+    async findById(id: string): Promise<Tenant | null> {
+        const result = await pool.query('SELECT * FROM tenants WHERE id = $1', [id]);
+        return result.rows[0] ? rowToTenant(result.rows[0]) : null;
+    }
+
+    // Creates the tenant with default quotas if it does not exist yet
+    async ensure(id: string, name: string = id): Promise<Tenant> {
+        await pool.query(
+            'INSERT INTO tenants (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING',
+            [id, name]
+        );
+        return (await this.findById(id))!;
+    }
+
+    async getUsage(tenantId: string): Promise<TenantUsage> {
+        return queryTenantUsage(pool, tenantId);
+    }
+}
+
+// ============================================================================
+// Drift reports  one row per reconcile pass
+// ============================================================================
+// Reports kept; older ones are pruned as new ones are saved
+const DRIFT_REPORTS_KEPT = 100;
+
+export class DriftReportRepository {
+    async save(report: DriftReport): Promise<void> {
+        await pool.query(
+            'INSERT INTO drift_reports (started_at, completed_at, report) VALUES ($1, $2, $3)',
+            [report.startedAt, report.completedAt, report]
+        );
+        await pool.query(
+            `DELETE FROM drift_reports WHERE id <= (
+                 SELECT id FROM drift_reports ORDER BY id DESC OFFSET $1 LIMIT 1
+             )`,
+            [DRIFT_REPORTS_KEPT]
+        );
+    }
+
+    async findLatest(): Promise<DriftReport | null> {
+        const result = await pool.query('SELECT report FROM drift_reports ORDER BY id DESC LIMIT 1');
+        return (result.rows[0]?.report as DriftReport) ?? null;
+    }
+}
+
+// ============================================================================
+// Store health events  READY ⇄ DEGRADED changes recorded by the health prober
+// ============================================================================
+export class StoreHealthRepository {
+    async record(event: Omit<StoreHealthEvent, 'id' | 'createdAt'>): Promise<void> {
+        await pool.query(
+            'INSERT INTO store_health_events (store_id, healthy, reason, components) VALUES ($1, $2, $3, $4)',
+            [event.storeId, event.healthy, event.reason ?? null, event.components]
+        );
+    }
+
+    // Newest first
+    async findByStore(storeId: string, limit: number = 20): Promise<StoreHealthEvent[]> {
+        const result = await pool.query(
+            'SELECT * FROM store_health_events WHERE store_id = $1 ORDER BY id DESC LIMIT $2',
+            [storeId, limit]
+        );
+        return result.rows.map((row) => ({
+            id: Number(row.id),
+            storeId: row.store_id as string,
+            healthy: row.healthy as boolean,
+            reason: (row.reason as string) || undefined,
+            components: row.components as Record<string, ComponentHealth>,
+            createdAt: new Date(row.created_at as string),
+        }));
+    }
+}
+
+export class ProvisioningEventRepository {
+    async start(storeId: string, phase: TimelinePhase, step?: string): Promise<number> {
+        const result = await pool.query(
+            'INSERT INTO provisioning_events (store_id, phase, step) VALUES ($1, $2, $3) RETURNING id',
+            [storeId, phase, step ?? null]
+        );
+        return Number(result.rows[0].id);
+    }
+
+    async finish(id: number, outcome: StepOutcome, error?: string): Promise<void> {
+        await pool.query(
+            'UPDATE provisioning_events SET outcome = $2, error = $3, finished_at = NOW() WHERE id = $1',
+            [id, outcome, error ?? null]
+        );
+    }
+
+    // Steps left running by an attempt that died with its API pod
+    async interruptRunning(storeId: string): Promise<number> {
+        const result = await pool.query(
+            'UPDATE provisioning_events SET outcome = $2, finished_at = NOW() WHERE store_id = $1 AND outcome = $3',
+            [storeId, StepOutcome.INTERRUPTED, StepOutcome.RUNNING]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    // Oldest first (in the order the steps started)
+    async findByStore(storeId: string, limit: number = 500): Promise<ProvisioningEvent[]> {
+        const result = await pool.query(
+            'SELECT * FROM provisioning_events WHERE store_id = $1 ORDER BY id LIMIT $2',
+            [storeId, limit]
+        );
+        return result.rows.map((row) => {
+            const startedAt = new Date(row.started_at as string);
+            const finishedAt = row.finished_at ? new Date(row.finished_at as string) : undefined;
+            return {
+                id: Number(row.id),
+                storeId: row.store_id as string,
+                phase: row.phase as TimelinePhase,
+                step: (row.step as string) || undefined,
+                outcome: row.outcome as StepOutcome,
+                error: (row.error as string) || undefined,
+                startedAt,
+                finishedAt,
+                durationMs: finishedAt ? finishedAt.getTime() - startedAt.getTime() : undefined,
+            };
+        });
+    }
+}
+
+// Bundles kept per store  one per failed attempt
+const DIAGNOSTICS_KEPT = 5;
+
+export class StoreDiagnosticsRepository {
+    async save(bundle: Omit<DiagnosticBundle, 'id' | 'collectedAt'>): Promise<void> {
+        const { storeId, phase, errorMessage, ...contents } = bundle;
+        await pool.query(
+            'INSERT INTO store_diagnostics (store_id, phase, error_message, bundle) VALUES ($1, $2, $3, $4)',
+            [storeId, phase ?? null, errorMessage, contents]
+        );
+        await pool.query(
+            `DELETE FROM store_diagnostics WHERE store_id = $1 AND id NOT IN (
+                SELECT id FROM store_diagnostics WHERE store_id = $1 ORDER BY id DESC LIMIT $2
+             )`,
+            [storeId, DIAGNOSTICS_KEPT]
+        );
+    }
+
+    async findLatest(storeId: string): Promise<DiagnosticBundle | null> {
+        const result = await pool.query(
+            'SELECT * FROM store_diagnostics WHERE store_id = $1 ORDER BY id DESC LIMIT 1',
+            [storeId]
+        );
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+        const contents = row.bundle as Pick<DiagnosticBundle, 'findings' | 'events' | 'pods' | 'collectionErrors'>;
+        return {
+            id: Number(row.id),
+            storeId: row.store_id as string,
+            phase: (row.phase as string) || undefined,
+            errorMessage: row.error_message as string,
+            ...contents,
+            collectedAt: new Date(row.created_at as string),
         };
     }
 }
@@ -195,3 +1182,11 @@ export async function closeDatabasePool(): Promise<void> {
 
 // Singletons
 export const storeRepository = new StoreRepository();
+export const auditRepository = new AuditRepository();
+export const apiKeyRepository = new ApiKeyRepository();
+export const tenantRepository = new TenantRepository();
+export const backupRepository = new BackupRepository();
+export const driftReportRepository = new DriftReportRepository();
+export const storeHealthRepository = new StoreHealthRepository();
+export const provisioningEventRepository = new ProvisioningEventRepository();
+export const storeDiagnosticsRepository = new StoreDiagnosticsRepository();
@@ -0,0 +1,32 @@
+// Initial stores table. IF NOT EXISTS so databases created before migrations existed are adopted as-is.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 1,
+    name: 'create_stores',
+    up: `
+        CREATE TABLE IF NOT EXISTS stores (
+            id              VARCHAR(16) PRIMARY KEY,
+            name            VARCHAR(64) NOT NULL,
+            namespace       VARCHAR(128) NOT NULL,
+            engine          VARCHAR(32) NOT NULL DEFAULT 'woocommerce',
+            status          VARCHAR(32) NOT NULL DEFAULT 'pending',
+            phase           VARCHAR(32),
+            url             TEXT,
+            admin_url       TEXT,
+            mysql_ready     BOOLEAN NOT NULL DEFAULT FALSE,
+            wordpress_ready BOOLEAN NOT NULL DEFAULT FALSE,
+            error_message   TEXT,
+            error_phase     VARCHAR(32),
+            provisioning_duration_ms INTEGER,
+            created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            ready_at        TIMESTAMPTZ,
+            deleted_at      TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_stores_status ON stores(status);
+        CREATE INDEX IF NOT EXISTS idx_stores_created_at ON stores(created_at DESC);
+    `,
+};
@@ -0,0 +1,28 @@
+// Durable provisioning job queue worked by ProvisioningWorker.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 2,
+    name: 'create_provisioning_jobs',
+    up: `
+        CREATE TABLE IF NOT EXISTS provisioning_jobs (
+            id               BIGSERIAL PRIMARY KEY,
+            store_id         VARCHAR(16) NOT NULL REFERENCES stores(id),
+            status           VARCHAR(32) NOT NULL DEFAULT 'queued',
+            attempts         INTEGER NOT NULL DEFAULT 0,
+            locked_by        VARCHAR(128),
+            lease_expires_at TIMESTAMPTZ,
+            heartbeat_at     TIMESTAMPTZ,
+            last_error       TEXT,
+            created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- At most one active job per store
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_store
+            ON provisioning_jobs(store_id) WHERE status IN ('queued', 'running');
+        CREATE INDEX IF NOT EXISTS idx_jobs_claimable
+            ON provisioning_jobs(status, lease_expires_at);
+    `,
+};
@@ -0,0 +1,25 @@
+// Persistent audit log written by AuditLogger.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 3,
+    name: 'create_audit_entries',
+    up: `
+        CREATE TABLE IF NOT EXISTS audit_entries (
+            id          BIGSERIAL PRIMARY KEY,
+            timestamp   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            action      VARCHAR(64) NOT NULL,
+            store_id    VARCHAR(16),
+            store_name  VARCHAR(64),
+            engine      VARCHAR(32),
+            source_ip   VARCHAR(64),
+            details     JSONB,
+            duration_ms INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_entries(timestamp DESC);
+        CREATE INDEX IF NOT EXISTS idx_audit_action ON audit_entries(action);
+        CREATE INDEX IF NOT EXISTS idx_audit_store_id ON audit_entries(store_id);
+    `,
+};
@@ -0,0 +1,25 @@
+// NOTIFY store_events on every stores insert/update so StoreEventBus can push changes over SSE.
+// The payload only identifies the row; listeners re-read it (NOTIFY payloads are capped at 8 kB).
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 4,
+    name: 'store_change_notify',
+    up: `
+        CREATE OR REPLACE FUNCTION notify_store_change() RETURNS trigger AS $$
+        BEGIN
+            PERFORM pg_notify('store_events', json_build_object(
+                'op', TG_OP,
+                'id', NEW.id
+            )::text);
+            RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql;
+
+        DROP TRIGGER IF EXISTS stores_notify_change ON stores;
+        CREATE TRIGGER stores_notify_change
+            AFTER INSERT OR UPDATE ON stores
+            FOR EACH ROW EXECUTE FUNCTION notify_store_change();
+    `,
+};
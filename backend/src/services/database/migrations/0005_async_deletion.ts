@@ -0,0 +1,15 @@
+// Deletion runs as a queued job too: jobs get a kind, stores get their deletion progress.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 5,
+    name: 'async_deletion',
+    up: `
+        ALTER TABLE provisioning_jobs
+            ADD COLUMN IF NOT EXISTS kind VARCHAR(16) NOT NULL DEFAULT 'provision';
+
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS deletion_progress JSONB;
+    `,
+};
@@ -0,0 +1,28 @@
+// API keys (only SHA-256 hashes are stored) and the acting principal on audit entries.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 6,
+    name: 'api_keys',
+    up: `
+        CREATE TABLE IF NOT EXISTS api_keys (
+            id           VARCHAR(16) PRIMARY KEY,
+            name         VARCHAR(64) NOT NULL,
+            key_prefix   VARCHAR(16) NOT NULL,
+            key_hash     CHAR(64) NOT NULL UNIQUE,
+            created_by   VARCHAR(16),
+            created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            last_used_at TIMESTAMPTZ,
+            expires_at   TIMESTAMPTZ,
+            revoked_at   TIMESTAMPTZ
+        );
+
+        ALTER TABLE audit_entries
+            ADD COLUMN IF NOT EXISTS principal_id   VARCHAR(16),
+            ADD COLUMN IF NOT EXISTS principal_type VARCHAR(16),
+            ADD COLUMN IF NOT EXISTS principal_name VARCHAR(64);
+
+        CREATE INDEX IF NOT EXISTS idx_audit_principal_id ON audit_entries(principal_id);
+    `,
+};
@@ -0,0 +1,37 @@
+// Tenants own API keys and stores. Existing keys and stores move to the 'default' tenant.
+// Stores record the CPU/storage they reserve so tenant usage is a single SUM.
+// Audit entries also record the acting principal's tenant.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 7,
+    name: 'tenants',
+    up: `
+        CREATE TABLE IF NOT EXISTS tenants (
+            id                  VARCHAR(32) PRIMARY KEY,
+            name                VARCHAR(64) NOT NULL,
+            -- NULL quota columns fall back to the TENANT_* config defaults
+            max_active_stores   INTEGER,
+            max_cpu_millicores  INTEGER,
+            max_storage_gi      INTEGER,
+            created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        INSERT INTO tenants (id, name) VALUES ('default', 'Default')
+        ON CONFLICT (id) DO NOTHING;
+
+        ALTER TABLE api_keys
+            ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(32) NOT NULL DEFAULT 'default' REFERENCES tenants(id);
+
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS tenant_id      VARCHAR(32) NOT NULL DEFAULT 'default' REFERENCES tenants(id),
+            ADD COLUMN IF NOT EXISTS cpu_millicores INTEGER NOT NULL DEFAULT 2000,
+            ADD COLUMN IF NOT EXISTS storage_gi     INTEGER NOT NULL DEFAULT 5;
+
+        CREATE INDEX IF NOT EXISTS idx_stores_tenant_status ON stores(tenant_id, status);
+
+        ALTER TABLE audit_entries
+            ADD COLUMN IF NOT EXISTS principal_tenant_id VARCHAR(32);
+    `,
+};
@@ -0,0 +1,17 @@
+// Roles for API keys. Keys that exist already keep full access (admin); new keys default to viewer.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 8,
+    name: 'api_key_roles',
+    up: `
+        ALTER TABLE api_keys
+            ADD COLUMN IF NOT EXISTS role VARCHAR(16) NOT NULL DEFAULT 'admin';
+        ALTER TABLE api_keys
+            ALTER COLUMN role SET DEFAULT 'viewer';
+
+        ALTER TABLE audit_entries
+            ADD COLUMN IF NOT EXISTS principal_role VARCHAR(16);
+    `,
+};
@@ -0,0 +1,12 @@
+// Size plan per store. Existing stores were created with what is now the "small" plan.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 9,
+    name: 'store_plans',
+    up: `
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS plan VARCHAR(32) NOT NULL DEFAULT 'small';
+    `,
+};
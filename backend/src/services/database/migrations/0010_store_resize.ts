@@ -0,0 +1,12 @@
+// In-place resizing: the latest resize's per-resource outcome is kept on the store.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 10,
+    name: 'store_resize',
+    up: `
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS resize_progress JSONB;
+    `,
+};
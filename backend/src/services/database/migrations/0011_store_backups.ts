@@ -0,0 +1,40 @@
+// Store backups: history of mysqldump + wp-content archives in the backup bucket.
+// Backup and restore run as queued jobs that name their backup. Backups don't block other
+// store operations, so they are left out of the one-active-job-per-store index.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 11,
+    name: 'store_backups',
+    up: `
+        CREATE TABLE IF NOT EXISTS store_backups (
+            id              VARCHAR(16) PRIMARY KEY,
+            store_id        VARCHAR(16) NOT NULL REFERENCES stores(id),
+            tenant_id       VARCHAR(32) NOT NULL REFERENCES tenants(id),
+            trigger         VARCHAR(16) NOT NULL,
+            status          VARCHAR(16) NOT NULL DEFAULT 'pending',
+            object_prefix   TEXT NOT NULL,
+            error_message   TEXT,
+            requested_by    VARCHAR(64),
+            created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            started_at      TIMESTAMPTZ,
+            completed_at    TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_backups_store_created ON store_backups(store_id, created_at DESC);
+        -- At most one backup in flight per store
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_backups_active_store
+            ON store_backups(store_id) WHERE status IN ('pending', 'running');
+
+        ALTER TABLE provisioning_jobs
+            ADD COLUMN IF NOT EXISTS backup_id VARCHAR(16) REFERENCES store_backups(id);
+
+        DROP INDEX IF EXISTS idx_jobs_active_store;
+        CREATE UNIQUE INDEX idx_jobs_active_store
+            ON provisioning_jobs(store_id) WHERE status IN ('queued', 'running') AND kind <> 'backup';
+
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS restore_progress JSONB;
+    `,
+};
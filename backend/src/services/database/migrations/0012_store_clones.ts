@@ -0,0 +1,12 @@
+// Store clones: a clone remembers the store it was copied from (its CLONE phase reads the source).
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 12,
+    name: 'store_clones',
+    up: `
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS cloned_from VARCHAR(16) REFERENCES stores(id);
+    `,
+};
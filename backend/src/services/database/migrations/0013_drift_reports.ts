@@ -0,0 +1,18 @@
+// Drift reports: the outcome of each reconcile pass, so every replica serves the latest one.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 13,
+    name: 'drift_reports',
+    up: `
+        CREATE TABLE IF NOT EXISTS drift_reports (
+            id              BIGSERIAL PRIMARY KEY,
+            started_at      TIMESTAMPTZ NOT NULL,
+            completed_at    TIMESTAMPTZ NOT NULL,
+            report          JSONB NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_drift_reports_completed ON drift_reports(completed_at DESC);
+    `,
+};
@@ -0,0 +1,23 @@
+// Store health: why a DEGRADED store is failing its health checks, and the history of health changes.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 14,
+    name: 'store_health',
+    up: `
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS health_reason TEXT;
+
+        CREATE TABLE IF NOT EXISTS store_health_events (
+            id              BIGSERIAL PRIMARY KEY,
+            store_id        VARCHAR(16) NOT NULL REFERENCES stores(id),
+            healthy         BOOLEAN NOT NULL,
+            reason          TEXT,
+            components      JSONB NOT NULL,
+            created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_health_events_store_created ON store_health_events(store_id, created_at DESC);
+    `,
+};
@@ -0,0 +1,12 @@
+// Trace context of the request that queued a job, so the job's spans join that request's trace.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 15,
+    name: 'job_trace_parent',
+    up: `
+        ALTER TABLE provisioning_jobs
+            ADD COLUMN IF NOT EXISTS trace_parent TEXT;
+    `,
+};
@@ -0,0 +1,22 @@
+// Provisioning timeline: start, end and outcome of every phase and sub-step.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 16,
+    name: 'provisioning_events',
+    up: `
+        CREATE TABLE IF NOT EXISTS provisioning_events (
+            id              BIGSERIAL PRIMARY KEY,
+            store_id        VARCHAR(16) NOT NULL REFERENCES stores(id),
+            phase           VARCHAR(20) NOT NULL,
+            step            TEXT,
+            outcome         VARCHAR(20) NOT NULL DEFAULT 'running',
+            error           TEXT,
+            started_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            finished_at     TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_provisioning_events_store ON provisioning_events(store_id, id);
+    `,
+};
@@ -0,0 +1,20 @@
+// Diagnostic bundles collected when a store fails provisioning (namespace Events, pod states, log tails).
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 17,
+    name: 'store_diagnostics',
+    up: `
+        CREATE TABLE IF NOT EXISTS store_diagnostics (
+            id              BIGSERIAL PRIMARY KEY,
+            store_id        VARCHAR(16) NOT NULL REFERENCES stores(id),
+            phase           VARCHAR(20),
+            error_message   TEXT NOT NULL,
+            bundle          JSONB NOT NULL,
+            created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_store_diagnostics_store ON store_diagnostics(store_id, id DESC);
+    `,
+};
@@ -0,0 +1,12 @@
+// Store resources: explicit CPU, memory and volume sizes set by a resize, layered over the plan's.
+
+import { Migration } from '../migrator.js';
+
+export const migration: Migration = {
+    version: 18,
+    name: 'store_resources',
+    up: `
+        ALTER TABLE stores
+            ADD COLUMN IF NOT EXISTS resources JSONB;
+    `,
+};
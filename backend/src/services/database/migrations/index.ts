@@ -0,0 +1,42 @@
+// Ordered migration list. Append new migrations here; never edit or renumber an applied one.
+
+import { Migration } from '../migrator.js';
+import { migration as createStores } from './0001_create_stores.js';
+import { migration as createProvisioningJobs } from './0002_create_provisioning_jobs.js';
+import { migration as createAuditEntries } from './0003_create_audit_entries.js';
+import { migration as storeChangeNotify } from './0004_store_change_notify.js';
+import { migration as asyncDeletion } from './0005_async_deletion.js';
+import { migration as apiKeys } from './0006_api_keys.js';
+import { migration as tenants } from './0007_tenants.js';
+import { migration as apiKeyRoles } from './0008_api_key_roles.js';
+import { migration as storePlans } from './0009_store_plans.js';
+import { migration as storeResize } from './0010_store_resize.js';
+import { migration as storeBackups } from './0011_store_backups.js';
+import { migration as storeClones } from './0012_store_clones.js';
+import { migration as driftReports } from './0013_drift_reports.js';
+import { migration as storeHealth } from './0014_store_health.js';
+import { migration as jobTraceParent } from './0015_job_trace_parent.js';
+import { migration as provisioningEvents } from './0016_provisioning_events.js';
+import { migration as storeDiagnostics } from './0017_store_diagnostics.js';
+import { migration as storeResources } from './0018_store_resources.js';
+
+export const migrations: Migration[] = [
+    createStores,
+    createProvisioningJobs,
+    createAuditEntries,
+    storeChangeNotify,
+    asyncDeletion,
+    apiKeys,
+    tenants,
+    apiKeyRoles,
+    storePlans,
+    storeResize,
+    storeBackups,
+    storeClones,
+    driftReports,
+    storeHealth,
+    jobTraceParent,
+    provisioningEvents,
+    storeDiagnostics,
+    storeResources,
+];
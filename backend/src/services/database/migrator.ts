@@ -0,0 +1,101 @@
+// Versioned schema migrations. Applied versions are recorded in schema_migrations; each
+// migration runs in its own transaction. A session advisory lock serializes replicas that
+// start at the same time  the loser waits, then finds nothing left to apply.
+
+import pg from 'pg';
+import { logger } from '../../utils/logger.js';
+import { migrations } from './migrations/index.js';
+
+const log = logger.child({ service: 'Migrator' });
+
+// Advisory lock key shared by every replica and the CLI
+const MIGRATION_LOCK = 'urumi_schema_migrations';
+
+export interface Migration {
+    version: number;               // Unique, strictly increasing
+    name: string;
+    up: string;                    // SQL, run inside a transaction
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt?: Date;              // Unset while pending
+}
+
+async function ensureMigrationsTable(client: pg.PoolClient): Promise<void> {
+    await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version    INTEGER PRIMARY KEY,
+            name       VARCHAR(128) NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+    `);
+}
+
+async function getAppliedVersions(client: pg.PoolClient): Promise<Map<number, Date>> {
+    const result = await client.query('SELECT version, applied_at FROM schema_migrations');
+    return new Map(result.rows.map((row) => [row.version as number, new Date(row.applied_at as string)]));
+}
+
+function assertOrdered(list: Migration[]): void {
+    list.forEach((migration, index) => {
+        if (index > 0 && migration.version <= list[index - 1].version) {
+            throw new Error(
+                `Migration ${migration.version}_${migration.name} is out of order (after ${list[index - 1].version})`
+            );
+        }
+    });
+}
+
+// Applies every pending migration in version order. Returns the versions applied.
+export async function migrateUp(client: pg.PoolClient): Promise<number[]> {
+    assertOrdered(migrations);
+
+    await client.query('SELECT pg_advisory_lock(hashtext($1))', [MIGRATION_LOCK]);
+    try {
+        await ensureMigrationsTable(client);
+        const applied = await getAppliedVersions(client);
+        const pending = migrations.filter((m) => !applied.has(m.version));
+
+        for (const migration of pending) {
+            log.info({ version: migration.version, name: migration.name }, 'Applying migration');
+
+            try {
+                await client.query('BEGIN');
+                await client.query(migration.up);
+                await client.query(
+                    'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                    [migration.version, migration.name]
+                );
+                await client.query('COMMIT');
+            } catch (err) {
+                await client.query('ROLLBACK');
+                throw new Error(
+                    `Migration ${migration.version}_${migration.name} failed: ${err instanceof Error ? err.message : err}`
+                );
+            }
+        }
+
+        log.info(
+            { applied: pending.length, version: migrations[migrations.length - 1]?.version },
+            pending.length ? 'Migrations applied' : 'Schema up to date'
+        );
+
+        return pending.map((m) => m.version);
+    } finally {
+        await client.query('SELECT pg_advisory_unlock(hashtext($1))', [MIGRATION_LOCK]);
+    }
+}
+
+// Known migrations merged with what the database has recorded
+export async function getMigrationStatus(client: pg.PoolClient): Promise<MigrationStatus[]> {
+    await ensureMigrationsTable(client);
+    const applied = await getAppliedVersions(client);
+
+    return migrations.map((m) => ({
+        version: m.version,
+        name: m.name,
+        appliedAt: applied.get(m.version),
+    }));
+}
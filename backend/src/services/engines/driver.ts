@@ -0,0 +1,137 @@
+// EngineDriver contract: everything the orchestrator needs to provision one store engine.
+// The namespace phase is shared; each driver declares the phases it runs after it.
+
+import {
+    Store,
+    StoreEngine,
+    ProvisioningPhase,
+    ResizeStep,
+    ResizeStepStatus,
+    resolveStorePlan,
+} from '../../models/store.js';
+import type * as k8s from '@kubernetes/client-node';
+import { ExpectedResource } from '../../models/drift.js';
+import { EngineSizing, containerSizes } from '../../models/sizing.js';
+import { ComponentHealth } from '../../models/health.js';
+import { StoreLogger } from '../../utils/logger.js';
+import { StorePlan } from '../../config/index.js';
+
+export interface EngineContext {
+    storeId: string;
+    storeName: string;
+    namespace: string;
+    plan: StorePlan;               // Sizes PVCs, replica counts and containers (resource overrides applied)
+    log: StoreLogger;
+}
+
+export function engineContext(store: Store, log: StoreLogger): EngineContext {
+    return {
+        storeId: store.id,
+        storeName: store.name,
+        namespace: store.namespace,
+        plan: resolveStorePlan(store.plan, store.resources),
+        log,
+    };
+}
+
+export interface StoreEndpoints {
+    url: string;
+    adminUrl: string;
+}
+
+export interface AdminCredentials {
+    username: string;
+    password: string;
+    loginUrl: string;
+}
+
+// A workload whose container logs GET /api/stores/:id/logs?component=<name> streams
+export interface LogComponent {
+    labelSelector: string;         // Selects the component's pods in the store namespace
+    container: string;             // Streamed unless the request names another (e.g. an init container)
+}
+
+export interface EngineHealth {
+    healthy: boolean;
+    components: Record<string, ComponentHealth>;  // e.g. { mysql: { healthy: true }, http: { healthy: false, ... } }
+}
+
+export function engineHealth(components: Record<string, ComponentHealth>): EngineHealth {
+    return { healthy: Object.values(components).every((component) => component.healthy), components };
+}
+
+export interface EngineDriver {
+    readonly engine: StoreEngine;
+
+    /** Phases run in order after NAMESPACE. Every step must be idempotent (409-tolerant). */
+    readonly phases: readonly ProvisioningPhase[];
+
+    /** Objects in the store namespace once provisioned, checked by the reconciler */
+    readonly resources: readonly ExpectedResource[];
+
+    /** Workloads whose logs can be streamed, by component name */
+    readonly logComponents: Readonly<Record<string, LogComponent>>;
+
+    /** Smallest size of each container; the plan's quota is shared out from these (see models/sizing.ts) */
+    readonly sizing: EngineSizing;
+
+    /** Create the K8s resources for a phase */
+    deploy(phase: ProvisioningPhase, ctx: EngineContext): Promise<void>;
+
+    /** Block until the phase's workloads report ready (throws on timeout) */
+    waitForReady(phase: ProvisioningPhase, ctx: EngineContext): Promise<void>;
+
+    /** Best-effort configuration once every phase is ready (never fails provisioning) */
+    postInstall(ctx: EngineContext): Promise<void>;
+
+    /**
+     * Copy a READY or DEGRADED source store's data into this freshly provisioned one and point it at its own URL.
+     * Runs as the CLONE phase instead of postInstall; engines without it can't be cloned.
+     */
+    cloneFrom?(source: EngineContext, ctx: EngineContext): Promise<void>;
+
+    /** Apply ctx.plan's PVC sizes, replica counts and container sizes to running workloads, one step per resource */
+    resize(ctx: EngineContext): Promise<ResizeStep[]>;
+
+    /** Engine-specific cleanup before the namespace is deleted */
+    teardown(ctx: EngineContext): Promise<void>;
+
+    /** Point-in-time health of the engine's workloads and storefront, checked by the health prober */
+    health(ctx: EngineContext): Promise<EngineHealth>;
+
+    /** Store admin login, read from the engine's admin Secret (null until it exists) */
+    getAdminCredentials(ctx: EngineContext): Promise<AdminCredentials | null>;
+
+    /** Public URLs  derived from the store ID so they survive restarts */
+    getEndpoints(storeId: string): StoreEndpoints;
+}
+
+// Requests and limits of each of the engine's containers on `plan`, as the pod specs take them
+export function containerResources(sizing: EngineSizing, plan: StorePlan): Record<string, k8s.V1ResourceRequirements> {
+    return Object.fromEntries(
+        Object.entries(containerSizes(sizing, plan)).map(([name, size]) => [
+            name,
+            {
+                requests: { cpu: `${size.requests.cpuMillicores}m`, memory: `${size.requests.memoryMi}Mi` },
+                limits: { cpu: `${size.limits.cpuMillicores}m`, memory: `${size.limits.memoryMi}Mi` },
+            },
+        ])
+    );
+}
+
+// Runs one resize action. A failure is recorded on the step rather than thrown, so the remaining
+// resources are still resized. The action returns a reason when it deliberately changed nothing.
+export async function runResizeStep(
+    resource: string,
+    action: () => Promise<string | undefined | void>
+): Promise<ResizeStep> {
+    try {
+        const skipped = await action();
+        return skipped
+            ? { resource, status: ResizeStepStatus.SKIPPED, message: skipped }
+            : { resource, status: ResizeStepStatus.APPLIED };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return { resource, status: ResizeStepStatus.FAILED, message };
+    }
+}
@@ -0,0 +1,187 @@
+// MedusaJS engine: Postgres + Redis → Medusa backend (migrations + admin user in its init container).
+
+import { config } from '../../config/index.js';
+import { medusaService } from '../k8s/medusa.js';
+import { StoreEngine, ProvisioningPhase, ResizeStep, getStoreUrl } from '../../models/store.js';
+import { ResourceKind } from '../../models/drift.js';
+import { namespaceService } from '../k8s/namespace.js';
+import { workloadService } from '../k8s/workloads.js';
+import {
+    EngineDriver,
+    EngineContext,
+    EngineHealth,
+    StoreEndpoints,
+    AdminCredentials,
+    runResizeStep,
+    engineHealth,
+    containerResources,
+} from './driver.js';
+
+export class MedusaDriver implements EngineDriver {
+    readonly engine = StoreEngine.MEDUSA;
+
+    readonly phases = [
+        ProvisioningPhase.DATABASE,
+        ProvisioningPhase.APPLICATION,
+        ProvisioningPhase.VALIDATION,
+    ] as const;
+
+    // The Postgres PVC comes from the StatefulSet's volumeClaimTemplates, which recreate it
+    readonly resources = [
+        { kind: ResourceKind.SECRET, name: 'medusa-secret', phase: ProvisioningPhase.DATABASE, repairable: false },
+        { kind: ResourceKind.STATEFUL_SET, name: 'postgres', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.SERVICE, name: 'postgres', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.DEPLOYMENT, name: 'redis', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.SERVICE, name: 'redis', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.SECRET, name: 'medusa-admin-secret', phase: ProvisioningPhase.APPLICATION, repairable: false },
+        { kind: ResourceKind.DEPLOYMENT, name: 'medusa', phase: ProvisioningPhase.APPLICATION, repairable: true },
+        { kind: ResourceKind.SERVICE, name: 'medusa', phase: ProvisioningPhase.APPLICATION, repairable: true },
+        { kind: ResourceKind.INGRESS, name: 'medusa', phase: ProvisioningPhase.APPLICATION, repairable: true },
+    ];
+
+    // The medusa pod's migrations run in its 'migrate' init container (?container=migrate)
+    readonly logComponents = {
+        medusa: { labelSelector: 'app.kubernetes.io/name=medusa', container: 'medusa' },
+        postgres: { labelSelector: 'app.kubernetes.io/name=postgres', container: 'postgres' },
+        redis: { labelSelector: 'app.kubernetes.io/name=redis', container: 'redis' },
+    };
+
+    // The migrate init container gets the medusa container's size. On the small plan (room for a surge pod
+    // kept) medusa gets about 730m/740Mi limits; medium and up reach the limit range's max.
+    readonly sizing = {
+        containers: {
+            medusa: {
+                requests: { cpuMillicores: 100, memoryMi: 256 },
+                limits: { cpuMillicores: 500, memoryMi: 512 },
+                perReplica: true,
+            },
+            postgres: {
+                requests: { cpuMillicores: 100, memoryMi: 128 },
+                limits: { cpuMillicores: 250, memoryMi: 256 },
+            },
+            redis: {
+                requests: { cpuMillicores: 50, memoryMi: 64 },
+                limits: { cpuMillicores: 125, memoryMi: 128 },
+            },
+        },
+    };
+
+    async deploy(phase: ProvisioningPhase, ctx: EngineContext): Promise<void> {
+        switch (phase) {
+            case ProvisioningPhase.DATABASE:
+                ctx.log.info({ phase }, 'Deploying Postgres and Redis');
+                await medusaService.deployDatabase({
+                    namespace: ctx.namespace,
+                    storeId: ctx.storeId,
+                    storeName: ctx.storeName,
+                    storageSize: `${ctx.plan.databaseStorageGi}Gi`,
+                    postgresResources: containerResources(this.sizing, ctx.plan).postgres,
+                    redisResources: containerResources(this.sizing, ctx.plan).redis,
+                });
+                return;
+
+            case ProvisioningPhase.APPLICATION: {
+                ctx.log.info({ phase }, 'Deploying Medusa');
+                const dbInfo = medusaService.getDatabaseInfo(ctx.namespace);
+                await medusaService.deploy({
+                    namespace: ctx.namespace,
+                    storeId: ctx.storeId,
+                    storeName: ctx.storeName,
+                    secretName: dbInfo.secretName,
+                    redisUrl: dbInfo.redisUrl,
+                    replicas: ctx.plan.applicationReplicas,
+                    resources: containerResources(this.sizing, ctx.plan).medusa,
+                });
+                return;
+            }
+
+            default:
+                // VALIDATION: the readiness probe already hit /health
+                return;
+        }
+    }
+
+    async waitForReady(phase: ProvisioningPhase, ctx: EngineContext): Promise<void> {
+        switch (phase) {
+            case ProvisioningPhase.DATABASE:
+                await medusaService.waitForDatabaseReady(ctx.namespace, config.postgresReadyTimeout);
+                return;
+            case ProvisioningPhase.APPLICATION:
+                await medusaService.waitForReady(ctx.namespace, config.medusaReadyTimeout);
+                return;
+            default:
+                return;
+        }
+    }
+
+    async postInstall(): Promise<void> {
+        // Nothing to configure  the init container already ran migrations and created the admin user
+    }
+
+    // Postgres restarts once when its size changes; Redis and Medusa roll one surge pod at a time
+    async resize(ctx: EngineContext): Promise<ResizeStep[]> {
+        const { namespace, plan } = ctx;
+        const resources = containerResources(this.sizing, plan);
+        return [
+            await runResizeStep('PersistentVolumeClaim/data-postgres-0', () =>
+                workloadService.expandPVC(namespace, 'data-postgres-0', `${plan.databaseStorageGi}Gi`)
+            ),
+            await runResizeStep('StatefulSet/postgres', async () => {
+                const skipped = await workloadService.resizeContainers(namespace, 'StatefulSet', 'postgres', { postgres: resources.postgres });
+                if (!skipped) {
+                    await workloadService.waitForRollout(namespace, 'StatefulSet', 'postgres', config.postgresReadyTimeout);
+                }
+                return skipped;
+            }),
+            await runResizeStep('Deployment/redis', async () => {
+                const skipped = await workloadService.resizeContainers(namespace, 'Deployment', 'redis', { redis: resources.redis });
+                if (!skipped) {
+                    await workloadService.waitForRollout(namespace, 'Deployment', 'redis', config.postgresReadyTimeout);
+                }
+                return skipped;
+            }),
+            await runResizeStep('Deployment/medusa', async () => {
+                await workloadService.scaleDeployment(namespace, 'medusa', plan.applicationReplicas);
+                await workloadService.resizeContainers(namespace, 'Deployment', 'medusa', {
+                    medusa: resources.medusa,
+                    migrate: resources.medusa,
+                });
+                await workloadService.waitForRollout(namespace, 'Deployment', 'medusa', config.medusaReadyTimeout);
+            }),
+        ];
+    }
+
+    async teardown(ctx: EngineContext): Promise<void> {
+        await medusaService.deleteIngress(ctx.namespace);
+    }
+
+    async health(ctx: EngineContext): Promise<EngineHealth> {
+        const [postgres, redis, medusa, http] = await Promise.all([
+            workloadService.podReadiness(ctx.namespace, 'postgres-0'),
+            workloadService.deploymentAvailability(ctx.namespace, 'redis'),
+            workloadService.deploymentAvailability(ctx.namespace, 'medusa'),
+            config.healthProbeHttp ? workloadService.probeService(ctx.namespace, 'medusa', '/health') : undefined,
+        ]);
+        return engineHealth(http ? { postgres, redis, medusa, http } : { postgres, redis, medusa });
+    }
+
+    // Medusa admins sign in with their email address
+    async getAdminCredentials(ctx: EngineContext): Promise<AdminCredentials | null> {
+        const secret = await namespaceService.readSecret(ctx.namespace, 'medusa-admin-secret');
+        if (!secret) {
+            return null;
+        }
+        return {
+            username: secret['admin-email'],
+            password: secret['admin-password'],
+            loginUrl: this.getEndpoints(ctx.storeId).adminUrl,
+        };
+    }
+
+    getEndpoints(storeId: string): StoreEndpoints {
+        const url = getStoreUrl(storeId, config.storeDomain);
+        return { url, adminUrl: `${url}/app` };
+    }
+}
+
+export const medusaDriver = new MedusaDriver();
@@ -0,0 +1,40 @@
+// Engine driver registry keyed by StoreEngine.
+// Adding an engine = implement EngineDriver + register it here; the orchestrator stays untouched.
+
+import { StoreEngine } from '../../models/store.js';
+import { EngineDriver } from './driver.js';
+import { wooCommerceDriver } from './woocommerce.js';
+import { medusaDriver } from './medusa.js';
+
+class EngineRegistry {
+    private drivers = new Map<StoreEngine, EngineDriver>();
+
+    register(driver: EngineDriver): void {
+        if (this.drivers.has(driver.engine)) {
+            throw new Error(`Engine driver already registered: ${driver.engine}`);
+        }
+        this.drivers.set(driver.engine, driver);
+    }
+
+    has(engine: StoreEngine): boolean {
+        return this.drivers.has(engine);
+    }
+
+    get(engine: StoreEngine): EngineDriver {
+        const driver = this.drivers.get(engine);
+        if (!driver) {
+            throw new Error(`No engine driver registered for '${engine}'`);
+        }
+        return driver;
+    }
+
+    list(): StoreEngine[] {
+        return [...this.drivers.keys()];
+    }
+}
+
+// Export singleton
+export const engineRegistry = new EngineRegistry();
+
+engineRegistry.register(wooCommerceDriver);
+engineRegistry.register(medusaDriver);
@@ -0,0 +1,206 @@
+// WooCommerce engine: MySQL StatefulSet → WordPress Deployment → WP-CLI setup.
+
+import { config } from '../../config/index.js';
+import { mysqlService } from '../k8s/mysql.js';
+import { wordpressService } from '../k8s/wordpress.js';
+import { wooCommerceSetupService } from '../k8s/woocommerce-setup.js';
+import {
+    StoreEngine,
+    ProvisioningPhase,
+    ResizeStep,
+    getStoreUrl,
+    getAdminUrl,
+} from '../../models/store.js';
+import { ResourceKind } from '../../models/drift.js';
+import { namespaceService } from '../k8s/namespace.js';
+import { workloadService } from '../k8s/workloads.js';
+import { BACKUP_JOB_SIZE } from '../k8s/backup.js';
+import {
+    EngineDriver,
+    EngineContext,
+    EngineHealth,
+    StoreEndpoints,
+    AdminCredentials,
+    runResizeStep,
+    engineHealth,
+    containerResources,
+} from './driver.js';
+
+export class WooCommerceDriver implements EngineDriver {
+    readonly engine = StoreEngine.WOOCOMMERCE;
+
+    readonly phases = [
+        ProvisioningPhase.DATABASE,
+        ProvisioningPhase.APPLICATION,
+        ProvisioningPhase.VALIDATION,
+    ] as const;
+
+    // The MySQL PVC comes from the StatefulSet's volumeClaimTemplates, which recreate it
+    readonly resources = [
+        { kind: ResourceKind.SECRET, name: 'mysql-secret', phase: ProvisioningPhase.DATABASE, repairable: false },
+        { kind: ResourceKind.STATEFUL_SET, name: 'mysql', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.SERVICE, name: 'mysql', phase: ProvisioningPhase.DATABASE, repairable: true },
+        { kind: ResourceKind.SECRET, name: 'wordpress-admin-secret', phase: ProvisioningPhase.APPLICATION, repairable: false },
+        { kind: ResourceKind.PVC, name: 'wordpress-content', phase: ProvisioningPhase.APPLICATION, repairable: true },
+        { kind: ResourceKind.DEPLOYMENT, name: 'wordpress', phase: ProvisioningPhase.APPLICATION, repairable: true },
+        { kind: ResourceKind.SERVICE, name: 'wordpress', phase: ProvisioningPhase.APPLICATION, repairable: true },
+        { kind: ResourceKind.INGRESS, name: 'wordpress', phase: ProvisioningPhase.APPLICATION, repairable: true },
+    ];
+
+    readonly logComponents = {
+        wordpress: { labelSelector: 'app.kubernetes.io/name=wordpress', container: 'wordpress' },
+        mysql: { labelSelector: 'app.kubernetes.io/name=mysql', container: 'mysql' },
+    };
+
+    // The small plan gives each container twice this: 500m/512Mi limits
+    readonly sizing = {
+        containers: {
+            wordpress: {
+                requests: { cpuMillicores: 100, memoryMi: 128 },
+                limits: { cpuMillicores: 250, memoryMi: 256 },
+                perReplica: true,
+            },
+            mysql: {
+                requests: { cpuMillicores: 100, memoryMi: 128 },
+                limits: { cpuMillicores: 250, memoryMi: 256 },
+            },
+        },
+        backupJob: BACKUP_JOB_SIZE,
+    };
+
+    async deploy(phase: ProvisioningPhase, ctx: EngineContext): Promise<void> {
+        switch (phase) {
+            case ProvisioningPhase.DATABASE:
+                ctx.log.info({ phase }, 'Deploying MySQL');
+                await mysqlService.deploy({
+                    namespace: ctx.namespace,
+                    storeId: ctx.storeId,
+                    storeName: ctx.storeName,
+                    storageSize: `${ctx.plan.databaseStorageGi}Gi`,
+                    resources: containerResources(this.sizing, ctx.plan).mysql,
+                });
+                return;
+
+            case ProvisioningPhase.APPLICATION: {
+                ctx.log.info({ phase }, 'Deploying WordPress');
+                const mysqlInfo = mysqlService.getConnectionInfo(ctx.namespace);
+                await wordpressService.deploy({
+                    namespace: ctx.namespace,
+                    storeId: ctx.storeId,
+                    storeName: ctx.storeName,
+                    mysqlHost: mysqlInfo.host,
+                    mysqlSecretName: mysqlInfo.secretName,
+                    storageSize: `${ctx.plan.applicationStorageGi}Gi`,
+                    replicas: ctx.plan.applicationReplicas,
+                    resources: containerResources(this.sizing, ctx.plan).wordpress,
+                });
+                return;
+            }
+
+            default:
+                // VALIDATION has nothing to deploy  WP-CLI runs in postInstall
+                return;
+        }
+    }
+
+    async waitForReady(phase: ProvisioningPhase, ctx: EngineContext): Promise<void> {
+        switch (phase) {
+            case ProvisioningPhase.DATABASE:
+                await mysqlService.waitForReady(ctx.namespace, config.mysqlReadyTimeout);
+                return;
+            case ProvisioningPhase.APPLICATION:
+                await wordpressService.waitForReady(ctx.namespace, config.wordpressReadyTimeout);
+                return;
+            default:
+                return;
+        }
+    }
+
+    async postInstall(ctx: EngineContext): Promise<void> {
+        // Auto-configure WooCommerce (COD payment + sample products)
+        await wooCommerceSetupService.setup({
+            namespace: ctx.namespace,
+            storeId: ctx.storeId,
+            hostname: new URL(this.getEndpoints(ctx.storeId).url).host,
+        });
+    }
+
+    async cloneFrom(source: EngineContext, ctx: EngineContext): Promise<void> {
+        // The clone keeps its own admin Secret  its password replaces the source's after the import
+        const admin = await this.getAdminCredentials(ctx);
+        if (!admin) {
+            throw new Error('WordPress admin Secret not found');
+        }
+
+        await wooCommerceSetupService.cloneFrom({
+            sourceNamespace: source.namespace,
+            sourceUrl: this.getEndpoints(source.storeId).url,
+            namespace: ctx.namespace,
+            storeId: ctx.storeId,
+            url: this.getEndpoints(ctx.storeId).url,
+            adminUser: admin.username,
+            adminPassword: admin.password,
+            timeoutMs: config.cloneTimeout,
+        });
+    }
+
+    // MySQL restarts once when its size changes; WordPress rolls one surge pod at a time
+    async resize(ctx: EngineContext): Promise<ResizeStep[]> {
+        const { namespace, plan } = ctx;
+        const resources = containerResources(this.sizing, plan);
+        return [
+            await runResizeStep('PersistentVolumeClaim/data-mysql-0', () =>
+                workloadService.expandPVC(namespace, 'data-mysql-0', `${plan.databaseStorageGi}Gi`)
+            ),
+            await runResizeStep('PersistentVolumeClaim/wordpress-content', () =>
+                workloadService.expandPVC(namespace, 'wordpress-content', `${plan.applicationStorageGi}Gi`)
+            ),
+            await runResizeStep('StatefulSet/mysql', async () => {
+                const skipped = await workloadService.resizeContainers(namespace, 'StatefulSet', 'mysql', { mysql: resources.mysql });
+                if (!skipped) {
+                    await workloadService.waitForRollout(namespace, 'StatefulSet', 'mysql', config.mysqlReadyTimeout);
+                }
+                return skipped;
+            }),
+            await runResizeStep('Deployment/wordpress', async () => {
+                await workloadService.scaleDeployment(namespace, 'wordpress', plan.applicationReplicas);
+                await workloadService.resizeContainers(namespace, 'Deployment', 'wordpress', { wordpress: resources.wordpress });
+                await workloadService.waitForRollout(namespace, 'Deployment', 'wordpress', config.wordpressReadyTimeout);
+            }),
+        ];
+    }
+
+    async teardown(ctx: EngineContext): Promise<void> {
+        await wordpressService.deleteIngress(ctx.namespace);
+    }
+
+    async health(ctx: EngineContext): Promise<EngineHealth> {
+        const [mysql, wordpress, http] = await Promise.all([
+            workloadService.podReadiness(ctx.namespace, 'mysql-0'),
+            workloadService.deploymentAvailability(ctx.namespace, 'wordpress'),
+            config.healthProbeHttp ? workloadService.probeService(ctx.namespace, 'wordpress', '/') : undefined,
+        ]);
+        return engineHealth(http ? { mysql, wordpress, http } : { mysql, wordpress });
+    }
+
+    async getAdminCredentials(ctx: EngineContext): Promise<AdminCredentials | null> {
+        const secret = await namespaceService.readSecret(ctx.namespace, 'wordpress-admin-secret');
+        if (!secret) {
+            return null;
+        }
+        return {
+            username: secret['admin-user'],
+            password: secret['admin-password'],
+            loginUrl: this.getEndpoints(ctx.storeId).adminUrl,
+        };
+    }
+
+    getEndpoints(storeId: string): StoreEndpoints {
+        return {
+            url: getStoreUrl(storeId, config.storeDomain),
+            adminUrl: getAdminUrl(storeId, config.storeDomain),
+        };
+    }
+}
+
+export const wooCommerceDriver = new WooCommerceDriver();
@@ -0,0 +1,156 @@
+// Fans out store changes to SSE subscribers. A dedicated connection LISTENs on store_events
+// (NOTIFY'd by a trigger on the stores table), so changes made by any replica reach every client.
+// After a reconnect, subscribers get a 'resync' event since notifications sent meanwhile are lost.
+
+import { EventEmitter } from 'events';
+import pg from 'pg';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { storeRepository } from '../database/index.js';
+import { Store } from '../../models/store.js';
+
+const CHANNEL = 'store_events';
+const RECONNECT_DELAY_MS = 5000;
+
+export type StoreEvent =
+    | { type: 'store.created' | 'store.updated'; store: Store }
+    | { type: 'resync' };
+
+export interface StoreEventSubscriber {
+    onEvent: (event: StoreEvent) => void;
+    onClose: () => void;
+}
+
+export class StoreEventBus {
+    private log = logger.child({ service: 'StoreEventBus' });
+    private emitter = new EventEmitter();
+    private client: pg.Client | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private stopping = false;
+
+    constructor() {
+        // One listener per connected dashboard
+        this.emitter.setMaxListeners(0);
+    }
+
+    // Never throws: if Postgres is unreachable the bus keeps retrying in the background
+    async start(): Promise<void> {
+        try {
+            await this.connect();
+            this.log.info({ channel: CHANNEL }, 'Store event bus listening');
+        } catch (err) {
+            this.log.error({ err }, 'Store event bus failed to connect  retrying');
+            this.scheduleReconnect();
+        }
+    }
+
+    async stop(): Promise<void> {
+        this.stopping = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        // End open SSE streams so the HTTP server can close
+        this.emitter.emit('close');
+        this.emitter.removeAllListeners();
+
+        const client = this.client;
+        this.client = null;
+        await client?.end().catch(() => undefined);
+    }
+
+    subscribe(subscriber: StoreEventSubscriber): () => void {
+        this.emitter.on('event', subscriber.onEvent);
+        this.emitter.on('close', subscriber.onClose);
+
+        return () => {
+            this.emitter.off('event', subscriber.onEvent);
+            this.emitter.off('close', subscriber.onClose);
+        };
+    }
+
+    private async connect(): Promise<void> {
+        const client = new pg.Client({ connectionString: config.databaseUrl });
+
+        client.on('notification', (msg) => {
+            if (msg.channel === CHANNEL && msg.payload) {
+                this.handleNotification(msg.payload);
+            }
+        });
+        client.on('error', (err) => {
+            this.log.warn({ err }, 'Event listener connection error');
+            this.handleDisconnect(client);
+        });
+        client.on('end', () => this.handleDisconnect(client));
+
+        try {
+            await client.connect();
+            await client.query(`LISTEN ${CHANNEL}`);
+        } catch (err) {
+            await client.end().catch(() => undefined);
+            throw err;
+        }
+
+        if (this.stopping) {
+            await client.end().catch(() => undefined);
+            return;
+        }
+        this.client = client;
+    }
+
+    private handleDisconnect(client: pg.Client): void {
+        // 'error' and 'end' both fire for one failure; only the live connection matters
+        if (this.client !== client) {
+            return;
+        }
+
+        this.client = null;
+        client.end().catch(() => undefined);
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(): void {
+        if (this.stopping || this.reconnectTimer) {
+            return;
+        }
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            try {
+                await this.connect();
+                this.log.info('Store event bus reconnected');
+                this.emitter.emit('event', { type: 'resync' } satisfies StoreEvent);
+            } catch (err) {
+                this.log.warn({ err }, 'Store event bus reconnect failed  retrying');
+                this.scheduleReconnect();
+            }
+        }, RECONNECT_DELAY_MS);
+    }
+
+    // Payload only carries the id  re-read the row once here rather than once per subscriber
+    private handleNotification(payload: string): void {
+        let parsed: { op: string; id: string };
+        try {
+            parsed = JSON.parse(payload);
+        } catch {
+            this.log.warn({ payload }, 'Ignoring malformed store notification');
+            return;
+        }
+
+        storeRepository.findById(parsed.id)
+            .then((store) => {
+                if (!store) {
+                    return;
+                }
+                this.emitter.emit('event', {
+                    type: parsed.op === 'INSERT' ? 'store.created' : 'store.updated',
+                    store,
+                } satisfies StoreEvent);
+            })
+            .catch((err) => this.log.warn({ err, storeId: parsed.id }, 'Failed to load notified store'));
+    }
+}
+
+// Export singleton
+export const storeEventBus = new StoreEventBus();
@@ -0,0 +1,430 @@
+// Store backups as K8s Jobs in the store namespace: mysqldump + wp-content archive uploaded to the
+// S3-compatible backup target, and the reverse for restores.
+// Pods are scheduled next to WordPress so they can mount its ReadWriteOnce wp-content volume.
+// The bucket credentials never leave the platform namespace: a Job gets presigned URLs for exactly the
+// objects it reads, writes or deletes, valid a little longer than the Job may run.
+
+import * as k8s from '@kubernetes/client-node';
+import { coreApi, batchApi, networkingApi } from './client.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { sleep, withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
+import { presignS3Url } from '../../utils/s3.js';
+import { ContainerSize } from '../../models/sizing.js';
+import { getStoreLabels, StoreLabels } from './namespace.js';
+import { mysqlService } from './mysql.js';
+import { millicores, mebibytes } from './workloads.js';
+
+const MYSQL_IMAGE = 'mysql:8.0';
+const BUSYBOX_IMAGE = 'busybox:1.36';
+const CURL_IMAGE = 'curlimages/curl:8.10.1';
+
+// Held the bucket-wide credentials before Jobs got presigned URLs; removed from namespaces that have it
+const LEGACY_CREDENTIALS_SECRET = 'backup-credentials';
+const WORK_DIR = '/backup';                 // emptyDir shared by the Job's containers
+const CONTENT_DIR = '/bitnami/wordpress';   // wordpress-content PVC, mounted as in the WordPress Deployment
+const DATABASE_OBJECT = 'database.sql.gz';
+const CONTENT_OBJECT = 'wp-content.tar.gz';
+
+const JOB_POLL_INTERVAL_MS = 5000;
+const JOB_TTL_SECONDS = 86400;              // Finished Jobs (and their pod logs) are kept a day for debugging
+const URL_EXPIRY_MARGIN_SECONDS = 300;      // Past the Job's activeDeadlineSeconds
+
+// Per container, capped by what the store's ResourceQuota has left. Init containers run one at a time, so
+// the pod counts as a single container against the quota. Store containers are sized to leave this much
+// free (BACKUP_JOB_SIZE, see models/sizing.ts); the Job only shrinks if a rollout's surge pod took more.
+const JOB_CPU_REQUEST_MILLICORES = 50;
+const JOB_MEMORY_REQUEST_MI = 64;
+const JOB_CPU_LIMIT_MILLICORES = 500;
+const JOB_MEMORY_LIMIT_MI = 512;
+const MIN_JOB_CPU_LIMIT_MILLICORES = 100;   // mysqldump and gzip crawl below this
+const MIN_JOB_MEMORY_LIMIT_MI = 128;
+
+export const BACKUP_JOB_SIZE: ContainerSize = {
+    requests: { cpuMillicores: JOB_CPU_REQUEST_MILLICORES, memoryMi: JOB_MEMORY_REQUEST_MI },
+    limits: { cpuMillicores: JOB_CPU_LIMIT_MILLICORES, memoryMi: JOB_MEMORY_LIMIT_MI },
+};
+
+export interface BackupJobConfig {
+    namespace: string;
+    storeId: string;
+    storeName: string;
+    jobName: string;               // Deterministic per backup/restore, so a resumed job finds its K8s Job
+    objectPrefix: string;          // See getBackupObjectPrefix
+}
+
+// Presigned URLs outlive the Job, so a Job resumed after an API restart can still use them
+function objectUrl(method: 'GET' | 'PUT' | 'DELETE', objectPrefix: string, object: string): string {
+    return presignS3Url(
+        method,
+        `${objectPrefix}/${object}`,
+        Math.ceil(config.backupTimeout / 1000) + URL_EXPIRY_MARGIN_SECONDS
+    );
+}
+
+export class BackupService {
+    private log = logger.child({ service: 'BackupService' });
+
+    // Dumps the database and archives wp-content, uploads both, then deletes the expired backups' objects
+    // (best-effort). Throws if the Job fails or times out.
+    async backup(cfg: BackupJobConfig, expiredPrefixes: string[] = []): Promise<void> {
+        const db = mysqlService.getConnectionInfo(cfg.namespace);
+
+        await this.runJob(cfg, {
+            initContainers: [
+                {
+                    name: 'dump-database',
+                    image: MYSQL_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        'mysqldump -h "$DB_HOST" -u root --single-transaction --routines --triggers ' +
+                        `--databases "$DB_NAME" --result-file=${WORK_DIR}/database.sql`,
+                    ],
+                    env: this.databaseEnv(db.host, db.database),
+                    volumeMounts: [{ name: 'work', mountPath: WORK_DIR }],
+                },
+                {
+                    name: 'archive-content',
+                    image: BUSYBOX_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        `gzip -f ${WORK_DIR}/database.sql && tar czf ${WORK_DIR}/${CONTENT_OBJECT} -C ${CONTENT_DIR} wp-content`,
+                    ],
+                    volumeMounts: [
+                        { name: 'work', mountPath: WORK_DIR },
+                        { name: 'wordpress-content', mountPath: CONTENT_DIR, readOnly: true },
+                    ],
+                },
+            ],
+            containers: [
+                {
+                    name: 'upload',
+                    image: CURL_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        `set -e
+curl -fsS -X PUT --upload-file ${WORK_DIR}/${DATABASE_OBJECT} "$DATABASE_PUT_URL"
+curl -fsS -X PUT --upload-file ${WORK_DIR}/${CONTENT_OBJECT} "$CONTENT_PUT_URL"
+for url in $EXPIRED_DELETE_URLS; do
+    curl -fsS -X DELETE "$url" || echo "Could not delete an expired backup object"
+done`,
+                    ],
+                    env: [
+                        { name: 'DATABASE_PUT_URL', value: objectUrl('PUT', cfg.objectPrefix, DATABASE_OBJECT) },
+                        { name: 'CONTENT_PUT_URL', value: objectUrl('PUT', cfg.objectPrefix, CONTENT_OBJECT) },
+                        {
+                            name: 'EXPIRED_DELETE_URLS',
+                            value: expiredPrefixes
+                                .flatMap((prefix) => [
+                                    objectUrl('DELETE', prefix, DATABASE_OBJECT),
+                                    objectUrl('DELETE', prefix, CONTENT_OBJECT),
+                                ])
+                                .join(' '),
+                        },
+                    ],
+                    volumeMounts: [{ name: 'work', mountPath: WORK_DIR }],
+                },
+            ],
+        }, true);
+    }
+
+    // Downloads a backup and replaces the store's database and wp-content with it.
+    // The archive is checked before the current wp-content is removed. Throws if the Job fails or times out.
+    async restore(cfg: BackupJobConfig): Promise<void> {
+        const db = mysqlService.getConnectionInfo(cfg.namespace);
+
+        await this.runJob(cfg, {
+            initContainers: [
+                {
+                    name: 'download',
+                    image: CURL_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        `set -e
+curl -fsS -o ${WORK_DIR}/${DATABASE_OBJECT} "$DATABASE_GET_URL"
+curl -fsS -o ${WORK_DIR}/${CONTENT_OBJECT} "$CONTENT_GET_URL"`,
+                    ],
+                    env: [
+                        { name: 'DATABASE_GET_URL', value: objectUrl('GET', cfg.objectPrefix, DATABASE_OBJECT) },
+                        { name: 'CONTENT_GET_URL', value: objectUrl('GET', cfg.objectPrefix, CONTENT_OBJECT) },
+                    ],
+                    volumeMounts: [{ name: 'work', mountPath: WORK_DIR }],
+                },
+                {
+                    name: 'unpack',
+                    image: BUSYBOX_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        `gunzip -f ${WORK_DIR}/${DATABASE_OBJECT} && tar tzf ${WORK_DIR}/${CONTENT_OBJECT} > /dev/null`,
+                    ],
+                    volumeMounts: [{ name: 'work', mountPath: WORK_DIR }],
+                },
+                {
+                    name: 'restore-database',
+                    image: MYSQL_IMAGE,
+                    command: ['sh', '-c', `mysql -h "$DB_HOST" -u root < ${WORK_DIR}/database.sql`],
+                    env: this.databaseEnv(db.host, db.database),
+                    volumeMounts: [{ name: 'work', mountPath: WORK_DIR }],
+                },
+            ],
+            containers: [
+                {
+                    name: 'restore-content',
+                    image: BUSYBOX_IMAGE,
+                    command: [
+                        'sh', '-c',
+                        `rm -rf ${CONTENT_DIR}/wp-content && tar xzf ${WORK_DIR}/${CONTENT_OBJECT} -C ${CONTENT_DIR}`,
+                    ],
+                    volumeMounts: [
+                        { name: 'work', mountPath: WORK_DIR },
+                        { name: 'wordpress-content', mountPath: CONTENT_DIR },
+                    ],
+                },
+            ],
+        }, false);
+    }
+
+    // Root credentials from the store's MySQL Secret. MYSQL_PWD keeps the password off the command line.
+    private databaseEnv(host: string, database: string): k8s.V1EnvVar[] {
+        return [
+            { name: 'DB_HOST', value: host },
+            { name: 'DB_NAME', value: database },
+            {
+                name: 'MYSQL_PWD',
+                valueFrom: { secretKeyRef: { name: 'mysql-secret', key: 'root-password' } },
+            },
+        ];
+    }
+
+    private async runJob(
+        cfg: BackupJobConfig,
+        containers: Pick<k8s.V1PodSpec, 'initContainers' | 'containers'>,
+        readOnlyContent: boolean
+    ): Promise<void> {
+        const log = this.log.child({ namespace: cfg.namespace, job: cfg.jobName });
+        const labels: StoreLabels = { storeId: cfg.storeId, storeName: cfg.storeName, engine: 'woocommerce' };
+        const k8sLabels = {
+            ...getStoreLabels(labels),
+            'app.kubernetes.io/component': 'backup',
+            'app.kubernetes.io/name': 'store-backup',
+        };
+
+        await this.removeLegacyCredentials(cfg.namespace);
+        await this.applyEgressPolicy(cfg.namespace, labels);
+
+        // A resumed backup/restore picks up the Job it already started; sizing it again would count that
+        // Job's own pod against the quota
+        if (await this.jobExists(cfg.namespace, cfg.jobName)) {
+            log.info('Job already exists');
+            await this.waitForJob(cfg.namespace, cfg.jobName);
+            return;
+        }
+
+        const resources = await this.jobResources(cfg.namespace);
+        const withResources = (list: k8s.V1Container[] = []) => list.map((container) => ({ ...container, resources }));
+
+        const job: k8s.V1Job = {
+            apiVersion: 'batch/v1',
+            kind: 'Job',
+            metadata: {
+                name: cfg.jobName,
+                namespace: cfg.namespace,
+                labels: k8sLabels,
+            },
+            spec: {
+                backoffLimit: 1,
+                activeDeadlineSeconds: Math.ceil(config.backupTimeout / 1000),
+                ttlSecondsAfterFinished: JOB_TTL_SECONDS,
+                template: {
+                    metadata: { labels: k8sLabels },
+                    spec: {
+                        restartPolicy: 'Never',
+                        // Same node as a WordPress pod  wordpress-content is ReadWriteOnce
+                        affinity: {
+                            podAffinity: {
+                                requiredDuringSchedulingIgnoredDuringExecution: [
+                                    {
+                                        labelSelector: {
+                                            matchLabels: {
+                                                'app.kubernetes.io/name': 'wordpress',
+                                                'urumi.ai/store-id': cfg.storeId,
+                                            },
+                                        },
+                                        topologyKey: 'kubernetes.io/hostname',
+                                    },
+                                ],
+                            },
+                        },
+                        initContainers: withResources(containers.initContainers),
+                        containers: withResources(containers.containers),
+                        volumes: [
+                            { name: 'work', emptyDir: {} },
+                            {
+                                name: 'wordpress-content',
+                                persistentVolumeClaim: { claimName: 'wordpress-content', readOnly: readOnlyContent },
+                            },
+                        ],
+                    },
+                },
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await batchApi().createNamespacedJob(cfg.namespace, job);
+                    log.info('Job created');
+                } catch (error: unknown) {
+                    // Created by a concurrent attempt since the check above
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Job already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Backup Job creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Job creation');
+                },
+            }
+        );
+
+        await this.waitForJob(cfg.namespace, cfg.jobName);
+    }
+
+    private async waitForJob(namespace: string, name: string): Promise<void> {
+        const log = this.log.child({ namespace, job: name });
+        const startTime = Date.now();
+
+        // The Job's own activeDeadlineSeconds ends it around the same time; the margin lets that failure be reported
+        while (Date.now() - startTime < config.backupTimeout + 60000) {
+            try {
+                const job = (await batchApi().readNamespacedJobStatus(name, namespace)).body;
+
+                if ((job.status?.succeeded ?? 0) > 0) {
+                    log.info({ durationMs: Date.now() - startTime }, 'Job succeeded');
+                    return;
+                }
+
+                const failed = job.status?.conditions?.find((c) => c.type === 'Failed' && c.status === 'True');
+                if (failed) {
+                    throw new Error(
+                        `Job ${name} failed: ${failed.reason ?? 'unknown'}${failed.message ? ` (${failed.message})` : ''}` +
+                        `  see kubectl logs -n ${namespace} job/${name} --all-containers`
+                    );
+                }
+            } catch (error) {
+                if (error instanceof Error && error.message.startsWith(`Job ${name} failed`)) {
+                    throw error;
+                }
+                log.debug({ err: error }, 'Error checking Job status');
+            }
+
+            await sleep(JOB_POLL_INTERVAL_MS);
+        }
+
+        throw new Error(`Job ${name} did not finish within ${config.backupTimeout}ms`);
+    }
+
+    private async jobExists(namespace: string, name: string): Promise<boolean> {
+        try {
+            await batchApi().readNamespacedJob(name, namespace);
+            return true;
+        } catch (error: unknown) {
+            if (isK8sStatusCode(error, 404)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // The default Job size, capped by the store quota's free requests and limits. Throws if what is left
+    // is too little to run the Job at all.
+    private async jobResources(namespace: string): Promise<k8s.V1ResourceRequirements> {
+        let status: k8s.V1ResourceQuotaStatus | undefined;
+        try {
+            status = (await coreApi().readNamespacedResourceQuota('store-quota', namespace)).body.status;
+        } catch (error: unknown) {
+            if (!isK8sStatusCode(error, 404)) {
+                throw error;
+            }
+        }
+
+        const free = (key: string, parse: (quantity: string) => number): number => {
+            const hard = status?.hard?.[key];
+            return hard === undefined ? Infinity : parse(hard) - parse(status?.used?.[key] ?? '0');
+        };
+
+        const cpuLimit = Math.min(JOB_CPU_LIMIT_MILLICORES, free('limits.cpu', millicores));
+        const memoryLimit = Math.min(JOB_MEMORY_LIMIT_MI, free('limits.memory', mebibytes));
+        const cpuRequest = Math.min(JOB_CPU_REQUEST_MILLICORES, cpuLimit, free('requests.cpu', millicores));
+        const memoryRequest = Math.min(JOB_MEMORY_REQUEST_MI, memoryLimit, free('requests.memory', mebibytes));
+
+        if (cpuLimit < MIN_JOB_CPU_LIMIT_MILLICORES || memoryLimit < MIN_JOB_MEMORY_LIMIT_MI || cpuRequest < 1 || memoryRequest < 1) {
+            throw new Error(
+                `The store's ResourceQuota has ${Math.max(0, cpuLimit)}m CPU / ${Math.max(0, Math.floor(memoryLimit))}Mi memory ` +
+                `left (limits; requests: ${Math.max(0, cpuRequest)}m / ${Math.max(0, Math.floor(memoryRequest))}Mi), but a backup ` +
+                `Job needs at least ${MIN_JOB_CPU_LIMIT_MILLICORES}m / ${MIN_JOB_MEMORY_LIMIT_MI}Mi  resize the store to make room`
+            );
+        }
+
+        return {
+            requests: { cpu: `${cpuRequest}m`, memory: `${Math.floor(memoryRequest)}Mi` },
+            limits: { cpu: `${cpuLimit}m`, memory: `${Math.floor(memoryLimit)}Mi` },
+        };
+    }
+
+    private async removeLegacyCredentials(namespace: string): Promise<void> {
+        try {
+            await coreApi().deleteNamespacedSecret(LEGACY_CREDENTIALS_SECRET, namespace);
+            this.log.info({ namespace }, 'Removed the legacy backup credentials Secret');
+        } catch (error: unknown) {
+            if (!isK8sStatusCode(error, 404)) {
+                throw error;
+            }
+        }
+    }
+
+    // store-isolation only allows egress on 80/443; an endpoint on another port (MinIO's 9000) needs its own rule
+    private async applyEgressPolicy(namespace: string, labels: StoreLabels): Promise<void> {
+        if (!config.backupS3Endpoint) {
+            return;
+        }
+        const endpoint = new URL(config.backupS3Endpoint);
+        const port = Number(endpoint.port) || (endpoint.protocol === 'https:' ? 443 : 80);
+        if (port === 80 || port === 443) {
+            return;
+        }
+
+        const policy: k8s.V1NetworkPolicy = {
+            apiVersion: 'networking.k8s.io/v1',
+            kind: 'NetworkPolicy',
+            metadata: {
+                name: 'backup-egress',
+                namespace,
+                labels: getStoreLabels(labels),
+            },
+            spec: {
+                podSelector: { matchLabels: { 'app.kubernetes.io/component': 'backup' } },
+                policyTypes: ['Egress'],
+                egress: [{ ports: [{ port, protocol: 'TCP' }] }],
+            },
+        };
+
+        try {
+            await networkingApi().createNamespacedNetworkPolicy(namespace, policy);
+        } catch (error: unknown) {
+            if (!isK8sStatusCode(error, 409)) {
+                throw error;
+            }
+            await networkingApi().replaceNamespacedNetworkPolicy('backup-egress', namespace, policy);
+        }
+    }
+}
+
+// Export singleton
+export const backupService = new BackupService();
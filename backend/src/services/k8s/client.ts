@@ -1,5 +1,5 @@
 // K8s client init. Auto-detects in-cluster vs kubeconfig.
-// Exports coreApi, appsApi, networkingApi singletons.
+// Exports coreApi, appsApi, batchApi, networkingApi, storageApi singletons.
 
 import * as k8s from '@kubernetes/client-node';
 import { logger } from '../../utils/logger.js';
@@ -8,7 +8,9 @@ class K8sClientManager {
     private kubeConfig: k8s.KubeConfig;
     private _coreApi: k8s.CoreV1Api | null = null;
     private _appsApi: k8s.AppsV1Api | null = null;
+    private _batchApi: k8s.BatchV1Api | null = null;
     private _networkingApi: k8s.NetworkingV1Api | null = null;
+    private _storageApi: k8s.StorageV1Api | null = null;
     private _customApi: k8s.CustomObjectsApi | null = null;
 
     constructor() {
@@ -62,6 +64,13 @@ class K8sClientManager {
         return this._appsApi;
     }
 
+    get batchApi(): k8s.BatchV1Api {
+        if (!this._batchApi) {
+            this._batchApi = this.kubeConfig.makeApiClient(k8s.BatchV1Api);
+        }
+        return this._batchApi;
+    }
+
     get networkingApi(): k8s.NetworkingV1Api {
         if (!this._networkingApi) {
             this._networkingApi = this.kubeConfig.makeApiClient(k8s.NetworkingV1Api);
@@ -69,6 +78,13 @@ class K8sClientManager {
         return this._networkingApi;
     }
 
+    get storageApi(): k8s.StorageV1Api {
+        if (!this._storageApi) {
+            this._storageApi = this.kubeConfig.makeApiClient(k8s.StorageV1Api);
+        }
+        return this._storageApi;
+    }
+
     get customApi(): k8s.CustomObjectsApi {
         if (!this._customApi) {
             this._customApi = this.kubeConfig.makeApiClient(k8s.CustomObjectsApi);
@@ -100,5 +116,7 @@ export const k8sClient = new K8sClientManager();
 // Export typed APIs for convenience
 export const coreApi = () => k8sClient.coreApi;
 export const appsApi = () => k8sClient.appsApi;
+export const batchApi = () => k8sClient.batchApi;
 export const networkingApi = () => k8sClient.networkingApi;
+export const storageApi = () => k8sClient.storageApi;
 export const customApi = () => k8sClient.customApi;
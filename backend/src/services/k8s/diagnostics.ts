@@ -0,0 +1,135 @@
+// Reads what a store namespace's workloads are doing: Events, pod and container states and the log
+// tails of unhealthy containers. Used to build a failed store's diagnostic bundle.
+
+import * as k8s from '@kubernetes/client-node';
+import { coreApi } from './client.js';
+import { config } from '../../config/index.js';
+import { NamespaceEventSummary, PodDiagnostics, ContainerDiagnostics } from '../../models/diagnostics.js';
+
+// Newest events kept per bundle
+const MAX_EVENTS = 50;
+
+// Caps a single container's log tail regardless of line length
+const LOG_LIMIT_BYTES = 16 * 1024;
+
+export interface NamespaceDiagnostics {
+    events: NamespaceEventSummary[];
+    pods: PodDiagnostics[];
+    errors: string[];
+}
+
+export class DiagnosticsService {
+    // Each part is read independently; what couldn't be read is reported in `errors`
+    async collect(namespace: string): Promise<NamespaceDiagnostics> {
+        const errors: string[] = [];
+
+        const [events, pods] = await Promise.all([
+            this.listEvents(namespace).catch((error) => {
+                errors.push(`Events: ${describeError(error)}`);
+                return [];
+            }),
+            this.listPods(namespace).catch((error) => {
+                errors.push(`Pods: ${describeError(error)}`);
+                return [];
+            }),
+        ]);
+
+        return { events, pods, errors };
+    }
+
+    private async listEvents(namespace: string): Promise<NamespaceEventSummary[]> {
+        const response = await coreApi().listNamespacedEvent(namespace);
+
+        return response.body.items
+            .map((event) => ({
+                type: event.type ?? 'Normal',
+                reason: event.reason ?? '',
+                message: event.message ?? '',
+                object: `${event.involvedObject.kind}/${event.involvedObject.name}`,
+                count: event.count ?? 1,
+                lastSeen: eventTime(event),
+            }))
+            .sort((a, b) => (a.lastSeen?.getTime() ?? 0) - (b.lastSeen?.getTime() ?? 0))
+            .slice(-MAX_EVENTS);
+    }
+
+    private async listPods(namespace: string): Promise<PodDiagnostics[]> {
+        const response = await coreApi().listNamespacedPod(namespace);
+
+        return Promise.all(response.body.items.map(async (pod) => {
+            const name = pod.metadata?.name ?? '';
+            const statuses = [
+                ...(pod.status?.initContainerStatuses ?? []).map((status) => ({ status, init: true })),
+                ...(pod.status?.containerStatuses ?? []).map((status) => ({ status, init: false })),
+            ];
+
+            const containers = await Promise.all(statuses.map(async ({ status, init }) => {
+                const container = containerDiagnostics(status, init);
+                if (isUnhealthy(container)) {
+                    container.logTail = await this.logTail(namespace, name, container);
+                }
+                return container;
+            }));
+
+            return {
+                name,
+                phase: pod.status?.phase ?? 'Unknown',
+                reason: pod.status?.reason,
+                containers,
+            };
+        }));
+    }
+
+    // Best-effort: a container that never started (ImagePullBackOff) has no log
+    private async logTail(namespace: string, pod: string, container: ContainerDiagnostics): Promise<string | undefined> {
+        // A restarted container's current run is often just starting up  the crash is in the previous one
+        const previous = container.restartCount > 0 && container.state !== 'terminated';
+        try {
+            const response = await coreApi().readNamespacedPodLog(
+                pod, namespace, container.name,
+                undefined, undefined, LOG_LIMIT_BYTES, undefined, previous, undefined, config.diagnosticsLogTailLines
+            );
+            return response.body || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+function containerDiagnostics(status: k8s.V1ContainerStatus, init: boolean): ContainerDiagnostics {
+    const { waiting, running, terminated } = status.state ?? {};
+    const lastTerminated = status.lastState?.terminated;
+
+    return {
+        name: status.name,
+        init,
+        ready: status.ready,
+        restartCount: status.restartCount,
+        state: waiting ? 'waiting' : running ? 'running' : terminated ? 'terminated' : 'unknown',
+        reason: waiting?.reason ?? terminated?.reason,
+        message: waiting?.message ?? terminated?.message,
+        exitCode: terminated?.exitCode,
+        lastTerminationReason: lastTerminated?.reason,
+    };
+}
+
+// A completed init container is healthy; anything else has to be running and ready
+function isUnhealthy(container: ContainerDiagnostics): boolean {
+    if (container.init && container.state === 'terminated' && container.exitCode === 0) {
+        return false;
+    }
+    return !container.ready || container.restartCount > 0;
+}
+
+function eventTime(event: k8s.CoreV1Event): Date | undefined {
+    const time = event.lastTimestamp ?? event.eventTime ?? event.metadata?.creationTimestamp;
+    return time ? new Date(time) : undefined;
+}
+
+function describeError(error: unknown): string {
+    const body = (error as { body?: { message?: string } }).body;
+    return body?.message ?? (error instanceof Error ? error.message : String(error));
+}
+
+// Export singleton
+export const diagnosticsService = new DiagnosticsService();
@@ -0,0 +1,182 @@
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import * as k8s from '@kubernetes/client-node';
+import type WebSocket from 'isomorphic-ws';
+import { K8sPodExecutor } from './exec.js';
+
+type ExecArgs = Parameters<k8s.Exec['exec']>;
+
+// Stands in for the exec WebSocket: decodes the framed stdin K8sPodExecutor sends (one WebSocket
+// message per send, channel byte first) and can be closed or paused like the real one.
+class FakeSocket extends EventEmitter {
+    stdin = Buffer.alloc(0);
+    private pending = Buffer.alloc(0);
+
+    send(data: Buffer, callback: (error?: Error) => void): void {
+        expect(data[0]).toBe(0);
+        this.pending = Buffer.concat([this.pending, data.subarray(1)]);
+        for (let newline = this.pending.indexOf('\n'); newline >= 0; newline = this.pending.indexOf('\n')) {
+            const length = Number(this.pending.subarray(0, newline).toString());
+            if (length === 0) {
+                this.emit('stdin-end');
+                break;
+            }
+            if (this.pending.length < newline + 1 + length) {
+                break;
+            }
+            this.stdin = Buffer.concat([this.stdin, this.pending.subarray(newline + 1, newline + 1 + length)]);
+            this.pending = this.pending.subarray(newline + 1 + length);
+        }
+        setImmediate(callback);
+    }
+
+    close(): void {
+        this.emit('close');
+    }
+
+    paused = false;
+    pause(): void {
+        this.paused = true;
+    }
+    resume(): void {
+        this.paused = false;
+    }
+}
+
+const success: k8s.V1Status = { status: 'Success' };
+const exitCode = (code: number): k8s.V1Status => ({
+    status: 'Failure',
+    reason: 'NonZeroExitCode',
+    details: { causes: [{ reason: 'ExitCode', message: String(code) }] },
+});
+
+// Makes k8s.Exec#exec answer with `respond`, which writes output and returns the final status
+function mockExec(respond: (args: ExecArgs, socket: FakeSocket) => Promise<k8s.V1Status>) {
+    return jest.spyOn(k8s.Exec.prototype, 'exec').mockImplementation(async (...args: ExecArgs) => {
+        const socket = new FakeSocket();
+        const [, , , , stdout, stderr, , , statusCallback] = args;
+        setImmediate(async () => {
+            const status = await respond(args, socket);
+            // As the library does: the status ends both streams, then reaches the callback
+            (stdout as Writable).end();
+            (stderr as Writable).end();
+            statusCallback!(status);
+        });
+        return socket as unknown as WebSocket;
+    });
+}
+
+const request = { namespace: 'store-a', pod: 'wordpress-0', container: 'wordpress', command: ['wp', 'option', 'get', 'home'] };
+
+describe('K8sPodExecutor', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('returns the captured stdout and exit code', async () => {
+        const exec = mockExec(async ([, , , , stdout]) => {
+            (stdout as Writable).write('http://store-a.localhost\n');
+            return success;
+        });
+
+        await expect(new K8sPodExecutor().exec(request)).resolves.toEqual({
+            exitCode: 0,
+            stdout: 'http://store-a.localhost\n',
+            stderr: '',
+        });
+        expect(exec).toHaveBeenCalledWith(
+            'store-a', 'wordpress-0', 'wordpress', request.command,
+            expect.anything(), expect.anything(), null, false, expect.any(Function)
+        );
+    });
+
+    it('reports a non-zero exit with its stderr', async () => {
+        mockExec(async ([, , , , , stderr]) => {
+            (stderr as Writable).write('Error: Could not get \'home\' option.\n');
+            return exitCode(1);
+        });
+
+        await expect(new K8sPodExecutor().exec(request)).resolves.toEqual({
+            exitCode: 1,
+            stdout: '',
+            stderr: 'Error: Could not get \'home\' option.\n',
+        });
+    });
+
+    it('retries a connection the API server refused with a 5xx', async () => {
+        const exec = mockExec(async () => success).mockRejectedValueOnce(new Error('Unexpected server response: 503'));
+
+        await expect(new K8sPodExecutor().exec(request)).resolves.toMatchObject({ exitCode: 0 });
+        expect(exec).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry a forbidden connection', async () => {
+        const exec = jest
+            .spyOn(k8s.Exec.prototype, 'exec')
+            .mockRejectedValue(new Error('Unexpected server response: 403'));
+
+        await expect(new K8sPodExecutor().exec(request)).rejects.toThrow('Exec connection failed: Unexpected server response: 403');
+        expect(exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('streams stdin in frames the pod decodes, ending with an empty one', async () => {
+        const input = Buffer.alloc(600 * 1024, 7);
+        const exec = mockExec(async (_args, socket) => {
+            await new Promise((resolve) => socket.once('stdin-end', resolve));
+            expect(socket.stdin.equals(input)).toBe(true);
+            return success;
+        });
+
+        await new K8sPodExecutor().exec({ ...request, command: ['wp', 'db', 'import', '-'], stdin: Readable.from([input]) });
+
+        const [, , , command, , , stdin] = exec.mock.calls[0];
+        expect(command).toEqual(['sh', '-c', expect.stringContaining('head -c "$n"'), 'sh', 'wp', 'db', 'import', '-']);
+        expect(stdin).not.toBeNull();
+    });
+
+    it('holds stdout frames and pauses the connection while the target is full', async () => {
+        const frame = Buffer.alloc(64 * 1024, 3);
+        let socket!: FakeSocket;
+        let maxDrainListeners = 0;
+        const received: Buffer[] = [];
+        const target = new Writable({
+            highWaterMark: frame.length,
+            write(chunk: Buffer, _encoding, callback) {
+                received.push(chunk);
+                maxDrainListeners = Math.max(maxDrainListeners, target.listenerCount('drain'));
+                setImmediate(callback);
+            },
+        });
+        mockExec(async ([, , , , stdout], fake) => {
+            socket = fake;
+            // As the library does: frames are written as they arrive, whatever write() returns
+            for (let i = 0; i < 32; i++) {
+                (stdout as Writable).write(frame);
+            }
+            expect(socket.paused).toBe(true);
+            return success;
+        });
+
+        await new K8sPodExecutor().exec({ ...request, command: ['wp', 'db', 'export', '-'], stdout: target });
+
+        expect(Buffer.concat(received).equals(Buffer.alloc(32 * frame.length, 3))).toBe(true);
+        expect(maxDrainListeners).toBeLessThanOrEqual(1);
+        expect(socket.paused).toBe(false);
+        expect(target.writableFinished).toBe(true);
+    });
+
+    it('closes the connection and rejects when aborted', async () => {
+        let socket!: FakeSocket;
+        mockExec((_args, fake) => {
+            socket = fake;
+            return new Promise(() => {});
+        });
+        const abort = new AbortController();
+
+        const result = new K8sPodExecutor().exec({ ...request, signal: abort.signal });
+        await new Promise((resolve) => setImmediate(resolve));
+        const closed = new Promise((resolve) => socket.once('close', resolve));
+        abort.abort(new Error('source failed'));
+
+        await expect(result).rejects.toThrow('source failed');
+        await closed;
+    });
+});
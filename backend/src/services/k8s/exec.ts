@@ -0,0 +1,262 @@
+// Runs commands in store pods through the K8s exec API (WebSocket) with the API's own kubeconfig  no
+// kubectl binary. Captures stdout/stderr and the exit code, bounds each command with a timeout and
+// retries connections the API server refused with 429/5xx or that failed at the network level.
+// Streamed stdin and stdout apply backpressure, so a pipe between two pods holds at most a few chunks.
+// PodExecutor is the seam for tests: WooCommerceSetupService takes any implementation.
+
+import * as k8s from '@kubernetes/client-node';
+import { PassThrough, Readable, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import type WebSocket from 'isomorphic-ws';
+import { k8sClient } from './client.js';
+import { podLogService } from './logs.js';
+import { logger } from '../../utils/logger.js';
+import { withRetry } from '../../utils/retry.js';
+import { withTimeout } from '../../utils/timeout.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Captured stderr is for error messages  keep its tail only
+const STDERR_LIMIT = 4096;
+
+// Streamed stdin is sent in chunks of about this size, each decoded by one `head -c` in the pod
+const STDIN_CHUNK_BYTES = 256 * 1024;
+
+// The v4 exec protocol can't close stdin without closing the whole connection (and losing the exit
+// code), so stdin is framed: a decimal length line before each chunk, and "0" at the end. The command
+// sees a plain stream that ends after the last chunk. $0 would be the shell name, hence the "sh".
+const STDIN_DECODER = 'while IFS= read -r n && [ "$n" -gt 0 ]; do head -c "$n"; done | "$@"';
+
+const STDIN_STREAM = 0;
+
+export interface ExecRequest {
+    namespace: string;
+    pod: string;
+    container?: string;                            // Defaults to the pod's only/default container
+    command: string[];
+    timeoutMs?: number;
+    stdin?: Readable;                              // Read until it ends; the command then sees EOF
+    stdout?: Writable;                             // Streams stdout here instead of capturing it; ended only on exit 0
+    signal?: AbortSignal;                          // Closes the connection and rejects with the abort reason
+}
+
+export interface ExecResult {
+    exitCode: number;
+    stdout: string;                                // Empty when request.stdout was given
+    stderr: string;
+}
+
+export interface PodExecutor {
+    // Newest running pod matching the selector
+    findPod(namespace: string, labelSelector: string): Promise<string | null>;
+    exec(request: ExecRequest): Promise<ExecResult>;
+}
+
+// A command that ran and exited non-zero. Only the first args are quoted  later ones can carry secrets.
+export class ExecError extends Error {
+    public readonly exitCode: number;
+    public readonly stderr: string;
+
+    constructor(command: string[], result: ExecResult) {
+        super(`'${command.slice(0, 3).join(' ')}' failed (exit code ${result.exitCode}): ${result.stderr.trim()}`);
+        this.name = 'ExecError';
+        this.exitCode = result.exitCode;
+        this.stderr = result.stderr;
+
+        Error.captureStackTrace(this, ExecError);
+    }
+}
+
+// The WebSocket couldn't be opened, so the command never started and is safe to retry
+class ExecConnectionError extends Error {
+    public readonly statusCode?: number;
+
+    constructor(cause: unknown) {
+        const message = cause instanceof Error ? cause.message : (cause as { message?: string })?.message ?? String(cause);
+        super(`Exec connection failed: ${message}`);
+        this.name = 'ExecConnectionError';
+        // ws reports a refused upgrade as "Unexpected server response: 403"
+        const status = /Unexpected server response: (\d{3})/.exec(message);
+        this.statusCode = status ? Number(status[1]) : undefined;
+    }
+
+    get retryable(): boolean {
+        return this.statusCode === undefined || this.statusCode === 429 || this.statusCode >= 500;
+    }
+}
+
+export class K8sPodExecutor implements PodExecutor {
+    private log = logger.child({ service: 'PodExecutor' });
+
+    async findPod(namespace: string, labelSelector: string): Promise<string | null> {
+        const pod = await podLogService.findPod(namespace, labelSelector);
+        return pod?.metadata?.name ?? null;
+    }
+
+    exec(request: ExecRequest): Promise<ExecResult> {
+        return withRetry(() => this.run(request), {
+            operation: 'pod exec',
+            maxRetries: 2,
+            initialDelayMs: 1000,
+            shouldRetry: (error) => error instanceof ExecConnectionError && error.retryable,
+            onRetry: (error, attempt, delayMs) => {
+                this.log.warn({ err: error, pod: request.pod, attempt, delayMs }, 'Retrying exec connection');
+            },
+        });
+    }
+
+    private async run(request: ExecRequest): Promise<ExecResult> {
+        request.signal?.throwIfAborted();
+
+        const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const command = request.stdin ? ['sh', '-c', STDIN_DECODER, 'sh', ...request.command] : request.command;
+
+        let socket: WebSocket | undefined;
+        let stdout = '';
+        let stderr = '';
+        const stdoutSink = request.stdout ? forwardingSink(request.stdout, () => socket) : new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                stdout += chunk.toString('utf8');
+                callback();
+            },
+        });
+        const stderrSink = new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                stderr = (stderr + chunk.toString('utf8')).slice(-STDERR_LIMIT);
+                callback();
+            },
+        });
+
+        let onStatus!: (status: k8s.V1Status) => void;
+        let onFailure!: (error: unknown) => void;
+        const status = new Promise<k8s.V1Status>((resolve, reject) => {
+            onStatus = resolve;
+            onFailure = reject;
+        });
+
+        try {
+            socket = await new k8s.Exec(k8sClient.rawConfig).exec(
+                request.namespace,
+                request.pod,
+                request.container ?? '',
+                command,
+                stdoutSink,
+                stderrSink,
+                // Only asks for a stdin channel: nothing is written to it, sendStdin() writes to the socket
+                request.stdin ? new PassThrough() : null,
+                false,
+                onStatus
+            );
+        } catch (error) {
+            throw new ExecConnectionError(error);
+        }
+        const connection = socket;
+        // The caller's stream failed while a write was waiting on it
+        stdoutSink.on('error', (error: Error) => onFailure(error));
+
+        const abort = () => {
+            onFailure(request.signal!.reason);
+            connection.close();
+        };
+        request.signal?.addEventListener('abort', abort, { once: true });
+
+        // Status arrives before the close, so this only fires for a connection lost mid-command
+        connection.on('close', () => onFailure(new Error('Exec connection closed before the command finished')));
+        connection.on('error', (error: Error) => onFailure(error));
+        if (request.stdin) {
+            sendStdin(connection, request.stdin).catch((error) => {
+                onFailure(error);
+                connection.close();
+            });
+        }
+
+        this.log.debug({ namespace: request.namespace, pod: request.pod, command: request.command[0] }, 'Exec started');
+
+        const result = await withTimeout(
+            status,
+            timeoutMs,
+            `'${request.command.slice(0, 3).join(' ')}' timed out after ${timeoutMs}ms`,
+            () => connection.close()
+        ).finally(() => request.signal?.removeEventListener('abort', abort));
+
+        const exitCode = statusExitCode(result);
+        if (exitCode === undefined) {
+            throw new Error(`Exec in ${request.pod} failed: ${result.message ?? result.reason ?? 'unknown error'}`);
+        }
+
+        // A failed command's output may be cut short, so only a clean exit ends the caller's stream
+        if (request.stdout && exitCode === 0) {
+            // The status ended the sink, but it may still be forwarding frames queued behind a full target
+            await finished(stdoutSink);
+            request.stdout.end();
+            await finished(request.stdout, { readable: false });
+        }
+
+        return { exitCode, stdout, stderr };
+    }
+}
+
+// Passes stdout on to `target`. While the target is full the write stays pending and the connection is
+// paused; frames already in flight queue in this sink. Never ends the target (run() does, once the exit
+// code is known).
+function forwardingSink(target: Writable, socket: () => WebSocket | undefined): Writable {
+    return new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+            if (target.write(chunk)) {
+                callback();
+                return;
+            }
+            socket()?.pause();
+            const onDrain = () => {
+                target.off('error', onError);
+                socket()?.resume();
+                callback();
+            };
+            const onError = (error: Error) => {
+                target.off('drain', onDrain);
+                callback(error);
+            };
+            target.once('drain', onDrain);
+            target.once('error', onError);
+        },
+    });
+}
+
+// Sends `stdin` in framed chunks (see STDIN_DECODER), one WebSocket message at a time
+async function sendStdin(socket: WebSocket, stdin: Readable): Promise<void> {
+    const send = (data: Buffer) =>
+        new Promise<void>((resolve, reject) => {
+            socket.send(Buffer.concat([Buffer.from([STDIN_STREAM]), data]), (error?: Error) => (error ? reject(error) : resolve()));
+        });
+    const frame = (chunk: Buffer) => send(Buffer.concat([Buffer.from(`${chunk.length}\n`), chunk]));
+
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    for await (const chunk of stdin) {
+        const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        pending.push(data);
+        pendingBytes += data.length;
+        if (pendingBytes >= STDIN_CHUNK_BYTES) {
+            await frame(Buffer.concat(pending));
+            pending = [];
+            pendingBytes = 0;
+        }
+    }
+    if (pendingBytes > 0) {
+        await frame(Buffer.concat(pending));
+    }
+    await send(Buffer.from('0\n'));
+}
+
+// Success, or "command terminated with non-zero exit code" with the code in details.causes.
+// Anything else (e.g. the container isn't running) has no exit code.
+function statusExitCode(status: k8s.V1Status): number | undefined {
+    if (status.status === 'Success') {
+        return 0;
+    }
+    const cause = status.details?.causes?.find((c) => c.reason === 'ExitCode');
+    return cause?.message !== undefined ? Number(cause.message) : undefined;
+}
+
+// Export singleton
+export const podExecutor = new K8sPodExecutor();
@@ -0,0 +1,53 @@
+// Existence checks for the objects a store namespace is expected to hold (used by the reconciler).
+
+import { coreApi, appsApi, networkingApi } from './client.js';
+import { isK8sStatusCode } from '../../utils/retry.js';
+import { ExpectedResource, ResourceKind } from '../../models/drift.js';
+
+export class InventoryService {
+    // The expected resources that don't exist in the namespace
+    async findMissing(namespace: string, resources: readonly ExpectedResource[]): Promise<ExpectedResource[]> {
+        const present = await Promise.all(resources.map((resource) => this.exists(namespace, resource)));
+        return resources.filter((_, index) => !present[index]);
+    }
+
+    private async exists(namespace: string, resource: ExpectedResource): Promise<boolean> {
+        try {
+            await this.read(namespace, resource);
+            return true;
+        } catch (error: unknown) {
+            if (isK8sStatusCode(error, 404)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async read(namespace: string, { kind, name }: ExpectedResource): Promise<unknown> {
+        switch (kind) {
+            case ResourceKind.NAMESPACE:
+                return coreApi().readNamespace(name);
+            case ResourceKind.RESOURCE_QUOTA:
+                return coreApi().readNamespacedResourceQuota(name, namespace);
+            case ResourceKind.LIMIT_RANGE:
+                return coreApi().readNamespacedLimitRange(name, namespace);
+            case ResourceKind.NETWORK_POLICY:
+                return networkingApi().readNamespacedNetworkPolicy(name, namespace);
+            case ResourceKind.SECRET:
+                return coreApi().readNamespacedSecret(name, namespace);
+            case ResourceKind.PVC:
+                return coreApi().readNamespacedPersistentVolumeClaim(name, namespace);
+            case ResourceKind.STATEFUL_SET:
+                return appsApi().readNamespacedStatefulSet(name, namespace);
+            case ResourceKind.DEPLOYMENT:
+                return appsApi().readNamespacedDeployment(name, namespace);
+            case ResourceKind.SERVICE:
+                return coreApi().readNamespacedService(name, namespace);
+            case ResourceKind.INGRESS:
+                return networkingApi().readNamespacedIngress(name, namespace);
+        }
+    }
+}
+
+// Export singleton
+export const inventoryService = new InventoryService();
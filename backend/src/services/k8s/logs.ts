@@ -0,0 +1,99 @@
+// Streams store container logs through the K8s log API (GET /api/stores/:id/logs). Open streams are
+// tracked so shutdown can end them  a followed log never ends on its own.
+
+import * as k8s from '@kubernetes/client-node';
+import { Writable } from 'stream';
+import { coreApi, k8sClient } from './client.js';
+import { logger } from '../../utils/logger.js';
+
+export interface LogStreamHandlers {
+    onLine: (line: string) => void;
+    onEnd: (error?: Error) => void;    // K8s closed the stream (container exited, or not following)
+}
+
+export class PodLogService {
+    private log = logger.child({ service: 'PodLogService' });
+    private open = new Set<(error: Error) => void>();
+
+    // The named pod if it matches the selector, otherwise the newest running one (newest of any if none run)
+    async findPod(namespace: string, labelSelector: string, podName?: string): Promise<k8s.V1Pod | null> {
+        const response = await coreApi().listNamespacedPod(namespace, undefined, undefined, undefined, undefined, labelSelector);
+        const pods = response.body.items;
+
+        if (podName) {
+            return pods.find((pod) => pod.metadata?.name === podName) ?? null;
+        }
+
+        const created = (pod: k8s.V1Pod) => new Date(pod.metadata?.creationTimestamp ?? 0).getTime();
+        const newestFirst = [...pods].sort((a, b) => created(b) - created(a));
+        return newestFirst.find((pod) => pod.status?.phase === 'Running') ?? newestFirst[0] ?? null;
+    }
+
+    // Rejects (K8s HttpError) if the log can't be opened, e.g. an unknown container or no previous run.
+    // Resolves with a function that closes the stream; onEnd isn't called for a stream closed that way.
+    async stream(
+        namespace: string,
+        podName: string,
+        container: string,
+        options: k8s.LogOptions,
+        handlers: LogStreamHandlers
+    ): Promise<() => void> {
+        let partial = '';
+        let ended = false;
+        let abort: (() => void) | undefined;
+
+        const close = () => {
+            ended = true;
+            this.open.delete(terminate);
+            abort?.();
+        };
+
+        const finish = (error?: Error) => {
+            if (ended) return;
+            ended = true;
+            this.open.delete(terminate);
+            if (partial) {
+                handlers.onLine(partial);
+            }
+            handlers.onEnd(error);
+        };
+
+        // Closes the stream from this side, still reporting its end
+        const terminate = (error: Error) => {
+            finish(error);
+            abort?.();
+        };
+
+        // Splits the chunked log into lines; a line can span chunks
+        const lines = new Writable({
+            write(chunk: Buffer, _encoding, callback) {
+                const text = partial + chunk.toString('utf8');
+                const parts = text.split('\n');
+                partial = parts.pop() ?? '';
+                for (const line of parts) {
+                    handlers.onLine(line.replace(/\r$/, ''));
+                }
+                callback();
+            },
+        });
+        lines.on('finish', () => finish());
+
+        const request = await new k8s.Log(k8sClient.rawConfig).log(namespace, podName, container, lines, options);
+        request.on('error', (error: Error) => finish(error));
+        abort = () => request.abort();
+        this.open.add(terminate);
+
+        this.log.debug({ namespace, pod: podName, container, follow: options.follow }, 'Log stream opened');
+        return close;
+    }
+
+    // Ends every open stream (graceful shutdown), so their responses finish
+    stop(): void {
+        for (const terminate of [...this.open]) {
+            terminate(new Error('API shutting down'));
+        }
+    }
+}
+
+// Export singleton
+export const podLogService = new PodLogService();
@@ -0,0 +1,890 @@
+// Deploys MedusaJS into a store namespace.
+// Database phase: Postgres StatefulSet + Redis. Application phase: Medusa backend Deployment, Service, and Ingress.
+
+import * as k8s from '@kubernetes/client-node';
+import { coreApi, appsApi, networkingApi } from './client.js';
+import { logger } from '../../utils/logger.js';
+import { timelineStep } from '../../utils/timeline.js';
+import { withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
+import { getStoreLabels, StoreLabels } from './namespace.js';
+import { config } from '../../config/index.js';
+import crypto from 'crypto';
+
+export interface MedusaDatabaseConfig {
+    namespace: string;
+    storeId: string;
+    storeName: string;
+    storageSize: string;   // e.g., "1Gi" (from the store's plan)
+    postgresResources: k8s.V1ResourceRequirements;     // From the store's plan, see models/sizing.ts
+    redisResources: k8s.V1ResourceRequirements;
+}
+
+export interface MedusaDeploymentConfig {
+    namespace: string;
+    storeId: string;
+    storeName: string;
+    secretName: string;
+    redisUrl: string;
+    replicas: number;
+    resources: k8s.V1ResourceRequirements;     // The medusa container and its migrate init container
+}
+
+export interface MedusaDatabaseInfo {
+    host: string;
+    port: number;
+    database: string;
+    username: string;
+    secretName: string;
+    redisUrl: string;
+}
+
+export class MedusaService {
+    private log = logger.child({ service: 'MedusaService' });
+
+    async deployDatabase(cfg: MedusaDatabaseConfig): Promise<MedusaDatabaseInfo> {
+        const log = this.log.child({ storeId: cfg.storeId, namespace: cfg.namespace });
+        const labels = this.getLabels(cfg);
+        const { host, secretName } = this.getDatabaseInfo(cfg.namespace);
+
+        log.info('Starting Medusa database deployment');
+
+        // 1. Create Secret with Postgres credentials + Medusa signing secrets
+        await timelineStep(`Secret/${secretName}`, () => this.createSecret(cfg.namespace, secretName, host, labels));
+
+        // 2. Create Postgres StatefulSet + headless Service
+        await timelineStep('StatefulSet/postgres', () => this.createPostgresStatefulSet(cfg, labels, secretName));
+        await timelineStep('Service/postgres', () => this.createPostgresService(cfg.namespace, labels));
+
+        // 3. Create Redis (event bus + cache, no persistence needed)
+        await timelineStep('Deployment/redis', () => this.createRedisDeployment(cfg.namespace, labels, cfg.redisResources));
+        await timelineStep('Service/redis', () => this.createRedisService(cfg.namespace, labels));
+
+        log.info('Medusa database deployment completed');
+
+        return this.getDatabaseInfo(cfg.namespace);
+    }
+
+    // Deterministic per namespace, so later phases can resume without the deployDatabase() result
+    getDatabaseInfo(namespace: string): MedusaDatabaseInfo {
+        return {
+            host: `postgres.${namespace}.svc.cluster.local`,
+            port: 5432,
+            database: 'medusa',
+            username: 'medusa',
+            secretName: 'medusa-secret',
+            redisUrl: `redis://redis.${namespace}.svc.cluster.local:6379`,
+        };
+    }
+
+    async deploy(cfg: MedusaDeploymentConfig): Promise<{
+        url: string;
+        adminUrl: string;
+    }> {
+        const log = this.log.child({ storeId: cfg.storeId, namespace: cfg.namespace });
+        const labels = this.getLabels(cfg);
+
+        log.info('Starting Medusa backend deployment');
+
+        // Calculate URLs
+        const hostname = `store-${cfg.storeId}.${config.storeDomain}`;
+        const url = `http://${hostname}`;
+        const adminUrl = `${url}/app`;
+
+        // 1. Create admin credentials Secret
+        const adminSecretName = 'medusa-admin-secret';
+        await timelineStep(`Secret/${adminSecretName}`, () => this.createAdminSecret(cfg.namespace, adminSecretName, labels));
+
+        // 2. Create Deployment (init container runs migrations + admin user)
+        await timelineStep('Deployment/medusa', () => this.createDeployment(cfg, labels, url, adminSecretName));
+
+        // 3. Create Service
+        await timelineStep('Service/medusa', () => this.createService(cfg.namespace, labels));
+
+        // 4. Create Ingress
+        await timelineStep('Ingress/medusa', () => this.createIngress(cfg.namespace, labels, hostname));
+
+        log.info({ url, adminUrl }, 'Medusa backend deployment completed');
+
+        return { url, adminUrl };
+    }
+
+    private getLabels(cfg: { storeId: string; storeName: string }): StoreLabels {
+        return {
+            storeId: cfg.storeId,
+            storeName: cfg.storeName,
+            engine: 'medusa',
+        };
+    }
+
+    private async createSecret(
+        namespace: string,
+        name: string,
+        host: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const log = this.log.child({ namespace, secret: name });
+        const password = this.generatePassword();
+
+        const secret: k8s.V1Secret = {
+            apiVersion: 'v1',
+            kind: 'Secret',
+            metadata: {
+                name,
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'database',
+                },
+            },
+            type: 'Opaque',
+            stringData: {
+                'postgres-user': 'medusa',
+                'postgres-password': password,
+                'postgres-database': 'medusa',
+                'database-url': `postgres://medusa:${password}@${host}:5432/medusa`,
+                'jwt-secret': this.generatePassword(),
+                'cookie-secret': this.generatePassword(),
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await coreApi().createNamespacedSecret(namespace, secret);
+                    log.info('Secret created');
+                } catch (error: unknown) {
+                    // If already exists, that's fine (idempotent)
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Secret already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Secret creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Secret creation');
+                },
+            }
+        );
+    }
+
+    private async createPostgresStatefulSet(
+        cfg: MedusaDatabaseConfig,
+        labels: StoreLabels,
+        secretName: string
+    ): Promise<void> {
+        const log = this.log.child({ namespace: cfg.namespace });
+        const k8sLabels = {
+            ...getStoreLabels(labels),
+            'app.kubernetes.io/component': 'database',
+            'app.kubernetes.io/name': 'postgres',
+        };
+
+        const statefulSet: k8s.V1StatefulSet = {
+            apiVersion: 'apps/v1',
+            kind: 'StatefulSet',
+            metadata: {
+                name: 'postgres',
+                namespace: cfg.namespace,
+                labels: k8sLabels,
+            },
+            spec: {
+                serviceName: 'postgres',
+                replicas: 1,
+                selector: {
+                    matchLabels: {
+                        'app.kubernetes.io/name': 'postgres',
+                        'urumi.ai/store-id': cfg.storeId,
+                    },
+                },
+                template: {
+                    metadata: {
+                        labels: k8sLabels,
+                    },
+                    spec: {
+                        containers: [
+                            {
+                                name: 'postgres',
+                                image: 'postgres:15-alpine',
+                                ports: [{ containerPort: 5432, name: 'postgres' }],
+                                env: [
+                                    {
+                                        name: 'POSTGRES_USER',
+                                        valueFrom: {
+                                            secretKeyRef: { name: secretName, key: 'postgres-user' },
+                                        },
+                                    },
+                                    {
+                                        name: 'POSTGRES_PASSWORD',
+                                        valueFrom: {
+                                            secretKeyRef: { name: secretName, key: 'postgres-password' },
+                                        },
+                                    },
+                                    {
+                                        name: 'POSTGRES_DB',
+                                        valueFrom: {
+                                            secretKeyRef: { name: secretName, key: 'postgres-database' },
+                                        },
+                                    },
+                                    // Subdirectory so the PVC's lost+found doesn't break initdb
+                                    { name: 'PGDATA', value: '/var/lib/postgresql/data/pgdata' },
+                                ],
+                                resources: cfg.postgresResources,
+                                volumeMounts: [
+                                    { name: 'data', mountPath: '/var/lib/postgresql/data' },
+                                ],
+                                readinessProbe: {
+                                    exec: {
+                                        command: ['pg_isready', '-U', 'medusa', '-d', 'medusa'],
+                                    },
+                                    initialDelaySeconds: 5,
+                                    periodSeconds: 3,
+                                    timeoutSeconds: 3,
+                                },
+                                livenessProbe: {
+                                    exec: {
+                                        command: ['pg_isready', '-U', 'medusa', '-d', 'medusa'],
+                                    },
+                                    initialDelaySeconds: 30,
+                                    periodSeconds: 10,
+                                    timeoutSeconds: 5,
+                                },
+                            },
+                        ],
+                    },
+                },
+                // PVC template
+                volumeClaimTemplates: [
+                    {
+                        metadata: {
+                            name: 'data',
+                            labels: k8sLabels,
+                        },
+                        spec: {
+                            accessModes: ['ReadWriteOnce'],
+                            resources: {
+                                requests: {
+                                    storage: cfg.storageSize,
+                                },
+                            },
+                        },
+                    },
+                ],
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await appsApi().createNamespacedStatefulSet(cfg.namespace, statefulSet);
+                    log.info('Postgres StatefulSet created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Postgres StatefulSet already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Postgres StatefulSet creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Postgres StatefulSet creation');
+                },
+            }
+        );
+    }
+
+    private async createPostgresService(
+        namespace: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const service: k8s.V1Service = {
+            apiVersion: 'v1',
+            kind: 'Service',
+            metadata: {
+                name: 'postgres',
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'database',
+                },
+            },
+            spec: {
+                clusterIP: 'None',
+                selector: {
+                    'app.kubernetes.io/name': 'postgres',
+                    'urumi.ai/store-id': labels.storeId,
+                },
+                ports: [
+                    { port: 5432, targetPort: 5432, name: 'postgres' },
+                ],
+            },
+        };
+
+        await this.createServiceObject(namespace, service);
+    }
+
+    private async createRedisDeployment(
+        namespace: string,
+        labels: StoreLabels,
+        resources: k8s.V1ResourceRequirements
+    ): Promise<void> {
+        const log = this.log.child({ namespace });
+        const k8sLabels = {
+            ...getStoreLabels(labels),
+            'app.kubernetes.io/component': 'cache',
+            'app.kubernetes.io/name': 'redis',
+        };
+
+        const deployment: k8s.V1Deployment = {
+            apiVersion: 'apps/v1',
+            kind: 'Deployment',
+            metadata: {
+                name: 'redis',
+                namespace,
+                labels: k8sLabels,
+            },
+            spec: {
+                replicas: 1,
+                selector: {
+                    matchLabels: {
+                        'app.kubernetes.io/name': 'redis',
+                        'urumi.ai/store-id': labels.storeId,
+                    },
+                },
+                template: {
+                    metadata: {
+                        labels: k8sLabels,
+                    },
+                    spec: {
+                        containers: [
+                            {
+                                name: 'redis',
+                                image: 'redis:7-alpine',
+                                // Medusa only uses Redis for events/cache/locks  skip disk persistence
+                                args: ['--save', '', '--appendonly', 'no'],
+                                ports: [{ containerPort: 6379, name: 'redis' }],
+                                resources,
+                                readinessProbe: {
+                                    exec: {
+                                        command: ['redis-cli', 'ping'],
+                                    },
+                                    initialDelaySeconds: 3,
+                                    periodSeconds: 3,
+                                    timeoutSeconds: 3,
+                                },
+                                livenessProbe: {
+                                    tcpSocket: {
+                                        port: 6379,
+                                    },
+                                    initialDelaySeconds: 15,
+                                    periodSeconds: 10,
+                                    timeoutSeconds: 3,
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await appsApi().createNamespacedDeployment(namespace, deployment);
+                    log.info('Redis Deployment created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Redis Deployment already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Redis Deployment creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Redis Deployment creation');
+                },
+            }
+        );
+    }
+
+    private async createRedisService(
+        namespace: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const service: k8s.V1Service = {
+            apiVersion: 'v1',
+            kind: 'Service',
+            metadata: {
+                name: 'redis',
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'cache',
+                },
+            },
+            spec: {
+                type: 'ClusterIP',
+                selector: {
+                    'app.kubernetes.io/name': 'redis',
+                    'urumi.ai/store-id': labels.storeId,
+                },
+                ports: [
+                    { port: 6379, targetPort: 6379, name: 'redis' },
+                ],
+            },
+        };
+
+        await this.createServiceObject(namespace, service);
+    }
+
+    private async createAdminSecret(
+        namespace: string,
+        name: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const log = this.log.child({ namespace });
+
+        const secret: k8s.V1Secret = {
+            apiVersion: 'v1',
+            kind: 'Secret',
+            metadata: {
+                name,
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'application',
+                },
+            },
+            type: 'Opaque',
+            stringData: {
+                'admin-email': 'admin@urumi.ai',
+                'admin-password': this.generatePassword(),
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await coreApi().createNamespacedSecret(namespace, secret);
+                    log.info('Admin secret created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Admin secret already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa admin secret creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying admin secret creation');
+                },
+            }
+        );
+    }
+
+    private async createDeployment(
+        cfg: MedusaDeploymentConfig,
+        labels: StoreLabels,
+        url: string,
+        adminSecretName: string
+    ): Promise<void> {
+        const log = this.log.child({ namespace: cfg.namespace });
+        const k8sLabels = {
+            ...getStoreLabels(labels),
+            'app.kubernetes.io/component': 'application',
+            'app.kubernetes.io/name': 'medusa',
+        };
+
+        const env: k8s.V1EnvVar[] = [
+            { name: 'NODE_ENV', value: 'production' },
+            { name: 'PORT', value: '9000' },
+            {
+                name: 'DATABASE_URL',
+                valueFrom: {
+                    secretKeyRef: { name: cfg.secretName, key: 'database-url' },
+                },
+            },
+            { name: 'REDIS_URL', value: cfg.redisUrl },
+            {
+                name: 'JWT_SECRET',
+                valueFrom: {
+                    secretKeyRef: { name: cfg.secretName, key: 'jwt-secret' },
+                },
+            },
+            {
+                name: 'COOKIE_SECRET',
+                valueFrom: {
+                    secretKeyRef: { name: cfg.secretName, key: 'cookie-secret' },
+                },
+            },
+            // Storefront, admin and auth all live on the store hostname
+            { name: 'STORE_CORS', value: url },
+            { name: 'ADMIN_CORS', value: url },
+            { name: 'AUTH_CORS', value: url },
+            { name: 'MEDUSA_BACKEND_URL', value: url },
+        ];
+
+        const deployment: k8s.V1Deployment = {
+            apiVersion: 'apps/v1',
+            kind: 'Deployment',
+            metadata: {
+                name: 'medusa',
+                namespace: cfg.namespace,
+                labels: k8sLabels,
+            },
+            spec: {
+                replicas: cfg.replicas,
+                selector: {
+                    matchLabels: {
+                        'app.kubernetes.io/name': 'medusa',
+                        'urumi.ai/store-id': cfg.storeId,
+                    },
+                },
+                template: {
+                    metadata: {
+                        labels: k8sLabels,
+                    },
+                    spec: {
+                        initContainers: [
+                            {
+                                // Migrations are idempotent; user creation fails harmlessly once the admin exists
+                                name: 'migrate',
+                                image: config.medusaImage,
+                                // The default image is built locally (medusa/Dockerfile), not pulled
+                                imagePullPolicy: 'IfNotPresent',
+                                command: [
+                                    'sh', '-c',
+                                    'npx medusa db:migrate && (npx medusa user -e "$MEDUSA_ADMIN_EMAIL" -p "$MEDUSA_ADMIN_PASSWORD" || true)',
+                                ],
+                                env: [
+                                    ...env,
+                                    {
+                                        name: 'MEDUSA_ADMIN_EMAIL',
+                                        valueFrom: {
+                                            secretKeyRef: { name: adminSecretName, key: 'admin-email' },
+                                        },
+                                    },
+                                    {
+                                        name: 'MEDUSA_ADMIN_PASSWORD',
+                                        valueFrom: {
+                                            secretKeyRef: { name: adminSecretName, key: 'admin-password' },
+                                        },
+                                    },
+                                ],
+                                resources: cfg.resources,
+                            },
+                        ],
+                        containers: [
+                            {
+                                name: 'medusa',
+                                image: config.medusaImage,
+                                // The default image is built locally (medusa/Dockerfile), not pulled
+                                imagePullPolicy: 'IfNotPresent',
+                                ports: [{ containerPort: 9000, name: 'http' }],
+                                env,
+                                resources: cfg.resources,
+                                readinessProbe: {
+                                    httpGet: {
+                                        path: '/health',
+                                        port: 9000,
+                                    },
+                                    initialDelaySeconds: 15,
+                                    periodSeconds: 5,
+                                    timeoutSeconds: 5,
+                                    failureThreshold: 10,
+                                },
+                                livenessProbe: {
+                                    tcpSocket: {
+                                        port: 9000,
+                                    },
+                                    initialDelaySeconds: 60,
+                                    periodSeconds: 10,
+                                    timeoutSeconds: 3,
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await appsApi().createNamespacedDeployment(cfg.namespace, deployment);
+                    log.info('Deployment created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Deployment already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Deployment creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Deployment creation');
+                },
+            }
+        );
+    }
+
+    private async createService(
+        namespace: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const service: k8s.V1Service = {
+            apiVersion: 'v1',
+            kind: 'Service',
+            metadata: {
+                name: 'medusa',
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'application',
+                },
+            },
+            spec: {
+                type: 'ClusterIP',
+                selector: {
+                    'app.kubernetes.io/name': 'medusa',
+                    'urumi.ai/store-id': labels.storeId,
+                },
+                ports: [
+                    { port: 80, targetPort: 9000, name: 'http' },
+                ],
+            },
+        };
+
+        await this.createServiceObject(namespace, service);
+    }
+
+    private async createServiceObject(
+        namespace: string,
+        service: k8s.V1Service
+    ): Promise<void> {
+        const log = this.log.child({ namespace, service: service.metadata?.name });
+
+        await withRetry(
+            async () => {
+                try {
+                    await coreApi().createNamespacedService(namespace, service);
+                    log.info('Service created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Service already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Service creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Service creation');
+                },
+            }
+        );
+    }
+
+    private async createIngress(
+        namespace: string,
+        labels: StoreLabels,
+        hostname: string
+    ): Promise<void> {
+        const log = this.log.child({ namespace, hostname });
+
+        const ingress: k8s.V1Ingress = {
+            apiVersion: 'networking.k8s.io/v1',
+            kind: 'Ingress',
+            metadata: {
+                name: 'medusa',
+                namespace,
+                labels: {
+                    ...getStoreLabels(labels),
+                    'app.kubernetes.io/component': 'application',
+                },
+                annotations: {
+                    'nginx.ingress.kubernetes.io/proxy-body-size': '50m',
+                    'nginx.ingress.kubernetes.io/proxy-read-timeout': '300',
+                },
+            },
+            spec: {
+                ingressClassName: config.storeIngressClass,
+                rules: [
+                    {
+                        host: hostname,
+                        http: {
+                            paths: [
+                                {
+                                    path: '/',
+                                    pathType: 'Prefix',
+                                    backend: {
+                                        service: {
+                                            name: 'medusa',
+                                            port: { number: 80 },
+                                        },
+                                    },
+                                },
+                            ],
+                        },
+                    },
+                ],
+            },
+        };
+
+        await withRetry(
+            async () => {
+                try {
+                    await networkingApi().createNamespacedIngress(namespace, ingress);
+                    log.info('Ingress created');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        log.info('Ingress already exists');
+                        return;
+                    }
+                    throw error;
+                }
+            },
+            {
+                operation: 'Medusa Ingress creation',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => {
+                    log.warn({ err, attempt }, 'Retrying Ingress creation');
+                },
+            }
+        );
+    }
+
+    async isDatabaseReady(namespace: string): Promise<{ postgres: boolean; redis: boolean }> {
+        const [postgres, redis] = await Promise.all([
+            this.readReadiness(() => appsApi().readNamespacedStatefulSet('postgres', namespace)),
+            this.readReadiness(() => appsApi().readNamespacedDeployment('redis', namespace)),
+        ]);
+        return { postgres, redis };
+    }
+
+    async isReady(namespace: string): Promise<boolean> {
+        return this.readReadiness(() => appsApi().readNamespacedDeployment('medusa', namespace));
+    }
+
+    private async readReadiness(
+        read: () => Promise<{ body: k8s.V1StatefulSet | k8s.V1Deployment }>
+    ): Promise<boolean> {
+        try {
+            const { body } = await read();
+            return (body.status?.readyReplicas || 0) >= (body.spec?.replicas || 1);
+        } catch (error) {
+            if (isK8sStatusCode(error, 404)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // Stops routing traffic immediately; the namespace cascade can take a while
+    async deleteIngress(namespace: string): Promise<void> {
+        try {
+            await networkingApi().deleteNamespacedIngress('medusa', namespace);
+            this.log.info({ namespace }, 'Ingress deleted');
+        } catch (error: unknown) {
+            if (isK8sStatusCode(error, 404)) {
+                return;
+            }
+            throw error;
+        }
+    }
+
+    async waitForDatabaseReady(namespace: string, timeoutMs: number): Promise<void> {
+        const log = this.log.child({ namespace });
+        const startTime = Date.now();
+
+        log.info({ timeoutMs }, 'Waiting for Postgres and Redis to be ready');
+
+        while (Date.now() - startTime < timeoutMs) {
+            try {
+                const [stsResponse, redisResponse] = await Promise.all([
+                    appsApi().readNamespacedStatefulSet('postgres', namespace),
+                    appsApi().readNamespacedDeployment('redis', namespace),
+                ]);
+                const sts = stsResponse.body;
+                const redis = redisResponse.body;
+
+                const postgresReady = (sts.status?.readyReplicas || 0) >= (sts.spec?.replicas || 1);
+                const redisReady = (redis.status?.readyReplicas || 0) >= (redis.spec?.replicas || 1);
+
+                if (postgresReady && redisReady) {
+                    log.info('Postgres and Redis are ready');
+                    return;
+                }
+
+                log.debug({ postgresReady, redisReady }, 'Medusa database not ready yet');
+            } catch (error) {
+                log.debug({ err: error }, 'Error checking Medusa database status');
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+
+        throw new Error(`Postgres/Redis not ready after ${timeoutMs}ms`);
+    }
+
+    async waitForReady(namespace: string, timeoutMs: number): Promise<void> {
+        const log = this.log.child({ namespace });
+        const startTime = Date.now();
+
+        log.info({ timeoutMs }, 'Waiting for Medusa to be ready');
+
+        while (Date.now() - startTime < timeoutMs) {
+            try {
+                const response = await appsApi().readNamespacedDeployment('medusa', namespace);
+                const deployment = response.body;
+
+                const readyReplicas = deployment.status?.readyReplicas || 0;
+                const desiredReplicas = deployment.spec?.replicas || 1;
+
+                if (readyReplicas >= desiredReplicas) {
+                    log.info({ readyReplicas }, 'Medusa is ready');
+                    return;
+                }
+
+                log.debug({ readyReplicas, desiredReplicas }, 'Medusa not ready yet');
+            } catch (error) {
+                log.debug({ err: error }, 'Error checking Medusa status');
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+
+        throw new Error(`Medusa not ready after ${timeoutMs}ms`);
+    }
+
+    private generatePassword(): string {
+        return crypto.randomBytes(16).toString('base64').replace(/[^a-zA-Z0-9]/g, '');
+    }
+}
+
+// Export singleton
+export const medusaService = new MedusaService();
@@ -4,28 +4,31 @@
 import * as k8s from '@kubernetes/client-node';
 import { coreApi, appsApi } from './client.js';
 import { logger } from '../../utils/logger.js';
+import { timelineStep } from '../../utils/timeline.js';
 import { withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
 import { getStoreLabels, StoreLabels } from './namespace.js';
-import { config } from '../../config/index.js';
 import crypto from 'crypto';
 
 export interface MySQLDeploymentConfig {
     namespace: string;
     storeId: string;
     storeName: string;
-    storageSize?: string;  // e.g., "1Gi"
+    storageSize: string;   // e.g., "1Gi" (from the store's plan)
+    resources: k8s.V1ResourceRequirements;     // The mysql container (from the store's plan, see models/sizing.ts)
+}
+
+export interface MySQLConnectionInfo {
+    host: string;
+    port: number;
+    database: string;
+    username: string;
+    secretName: string;
 }
 
 export class MySQLService {
     private log = logger.child({ service: 'MySQLService' });
 
-    async deploy(cfg: MySQLDeploymentConfig): Promise<{
-        host: string;
-        port: number;
-        database: string;
-        username: string;
-        secretName: string;
-    }> {
+    async deploy(cfg: MySQLDeploymentConfig): Promise<MySQLConnectionInfo> {
         const log = this.log.child({ storeId: cfg.storeId, namespace: cfg.namespace });
         const labels: StoreLabels = {
             storeId: cfg.storeId,
@@ -36,25 +39,29 @@ export class MySQLService {
         log.info('Starting MySQL deployment');
 
         // 1. Create Secret with credentials
-        const secretName = 'mysql-secret';
+        const { secretName } = this.getConnectionInfo(cfg.namespace);
         const password = this.generatePassword();
-        await this.createSecret(cfg.namespace, secretName, password, labels);
+        await timelineStep(`Secret/${secretName}`, () => this.createSecret(cfg.namespace, secretName, password, labels));
 
         // 2. Create StatefulSet
-        await this.createStatefulSet(cfg, labels);
+        await timelineStep('StatefulSet/mysql', () => this.createStatefulSet(cfg, labels));
 
         // 3. Create Headless Service
-        await this.createService(cfg.namespace, labels);
+        await timelineStep('Service/mysql', () => this.createService(cfg.namespace, labels));
 
         log.info('MySQL deployment completed');
 
-        // Return connection info
+        return this.getConnectionInfo(cfg.namespace);
+    }
+
+    // Deterministic per namespace, so later phases can resume without the deploy() result
+    getConnectionInfo(namespace: string): MySQLConnectionInfo {
         return {
-            host: `mysql.${cfg.namespace}.svc.cluster.local`,
+            host: `mysql.${namespace}.svc.cluster.local`,
             port: 3306,
             database: 'wordpress',
             username: 'wordpress',
-            secretName,
+            secretName: 'mysql-secret',
         };
     }
 
@@ -101,6 +108,7 @@ export class MySQLService {
                 }
             },
             {
+                operation: 'MySQL Secret creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -177,10 +185,7 @@ export class MySQLService {
                                         },
                                     },
                                 ],
-                                resources: {
-                                    requests: { cpu: '100m', memory: '256Mi' },
-                                    limits: { cpu: '500m', memory: '512Mi' },
-                                },
+                                resources: cfg.resources,
                                 volumeMounts: [
                                     { name: 'data', mountPath: '/var/lib/mysql' },
                                 ],
@@ -227,7 +232,7 @@ export class MySQLService {
                             accessModes: ['ReadWriteOnce'],
                             resources: {
                                 requests: {
-                                    storage: cfg.storageSize || config.mysqlStorageSize,
+                                    storage: cfg.storageSize,
                                 },
                             },
                         },
@@ -250,6 +255,7 @@ export class MySQLService {
                 }
             },
             {
+                operation: 'MySQL StatefulSet creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -302,6 +308,7 @@ export class MySQLService {
                 }
             },
             {
+                operation: 'MySQL Service creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -311,6 +318,19 @@ export class MySQLService {
         );
     }
 
+    async isReady(namespace: string): Promise<boolean> {
+        try {
+            const response = await appsApi().readNamespacedStatefulSet('mysql', namespace);
+            const sts = response.body;
+            return (sts.status?.readyReplicas || 0) >= (sts.spec?.replicas || 1);
+        } catch (error) {
+            if (isK8sStatusCode(error, 404)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
     async waitForReady(namespace: string, timeoutMs: number): Promise<void> {
         const log = this.log.child({ namespace });
         const startTime = Date.now();
@@ -2,9 +2,35 @@
 // Namespace-per-store gives clean isolation and cascading deletes.
 
 import * as k8s from '@kubernetes/client-node';
-import { coreApi, networkingApi } from './client.js';
+import { coreApi, appsApi, networkingApi } from './client.js';
 import { logger } from '../../utils/logger.js';
+import { timelineStep } from '../../utils/timeline.js';
 import { withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
+import { RemainingResource, ProvisioningPhase } from '../../models/store.js';
+import { ExpectedResource, ResourceKind } from '../../models/drift.js';
+import { StorePlan, config } from '../../config/index.js';
+
+export interface NamespaceDeletionStatus {
+    phase?: string;
+    conditions: string[];
+    remaining: RemainingResource[];
+}
+
+function toRemaining(kind: string, metadata?: k8s.V1ObjectMeta): RemainingResource {
+    return {
+        kind,
+        name: metadata?.name ?? 'unknown',
+        finalizers: metadata?.finalizers?.length ? metadata.finalizers : undefined,
+    };
+}
+
+// Created by createNamespace() for every engine
+export const NAMESPACE_RESOURCES: readonly ExpectedResource[] = [
+    { kind: ResourceKind.RESOURCE_QUOTA, name: 'store-quota', phase: ProvisioningPhase.NAMESPACE, repairable: true },
+    { kind: ResourceKind.LIMIT_RANGE, name: 'store-limits', phase: ProvisioningPhase.NAMESPACE, repairable: true },
+    { kind: ResourceKind.NETWORK_POLICY, name: 'store-isolation', phase: ProvisioningPhase.NAMESPACE, repairable: true },
+    { kind: ResourceKind.NETWORK_POLICY, name: 'allow-platform-probes', phase: ProvisioningPhase.NAMESPACE, repairable: true },
+];
 
 export interface StoreLabels {
     storeId: string;
@@ -27,55 +53,60 @@ export class NamespaceService {
 
     async createNamespace(
         name: string,
-        labels: StoreLabels
+        labels: StoreLabels,
+        plan: StorePlan
     ): Promise<k8s.V1Namespace> {
         const log = this.log.child({ namespace: name, storeId: labels.storeId });
 
-        // Check if namespace already exists (idempotent)
-        const existing = await this.getNamespace(name);
-        if (existing) {
+        // Check if namespace already exists (idempotent). Policies below are still
+        // (re)applied so a resumed/retried provisioning fills in anything missing.
+        let namespace = await this.getNamespace(name);
+        if (namespace) {
             log.info('Namespace already exists, skipping creation');
-            return existing;
-        }
-
-        log.info('Creating namespace');
+        } else {
+            log.info('Creating namespace');
 
-        const namespaceSpec: k8s.V1Namespace = {
-            apiVersion: 'v1',
-            kind: 'Namespace',
-            metadata: {
-                name,
-                labels: getStoreLabels(labels),
-                annotations: {
-                    'urumi.ai/created-at': new Date().toISOString(),
+            const namespaceSpec: k8s.V1Namespace = {
+                apiVersion: 'v1',
+                kind: 'Namespace',
+                metadata: {
+                    name,
+                    labels: getStoreLabels(labels),
+                    annotations: {
+                        'urumi.ai/created-at': new Date().toISOString(),
+                    },
                 },
-            },
-        };
+            };
 
-        const namespace = await withRetry(
-            async () => {
-                const response = await coreApi().createNamespace(namespaceSpec);
-                return response.body;
-            },
-            {
-                maxRetries: 3,
-                shouldRetry: isRetryableK8sError,
-                onRetry: (err, attempt) => {
-                    log.warn({ err, attempt }, 'Retrying namespace creation');
+            namespace = await timelineStep(`Namespace/${name}`, () => withRetry(
+                async () => {
+                    const response = await coreApi().createNamespace(namespaceSpec);
+                    return response.body;
                 },
-            }
-        );
+                {
+                    operation: 'Namespace creation',
+                    maxRetries: 3,
+                    shouldRetry: isRetryableK8sError,
+                    onRetry: (err, attempt) => {
+                        log.warn({ err, attempt }, 'Retrying namespace creation');
+                    },
+                }
+            ));
 
-        log.info('Namespace created successfully');
+            log.info('Namespace created successfully');
+        }
 
         // Apply ResourceQuota
-        await this.applyResourceQuota(name, labels);
+        await timelineStep('ResourceQuota/store-quota', () => this.applyResourceQuota(name, labels, plan));
 
         // Apply LimitRange
-        await this.applyLimitRange(name, labels);
+        await timelineStep('LimitRange/store-limits', () => this.applyLimitRange(name, labels, plan));
 
         // Apply NetworkPolicy (deny-by-default + allow ingress controller)
-        await this.applyNetworkPolicy(name, labels);
+        await timelineStep('NetworkPolicy/store-isolation', () => this.applyNetworkPolicy(name, labels));
+
+        // Let the health prober reach the store's Services
+        await timelineStep('NetworkPolicy/allow-platform-probes', () => this.applyProbePolicy(name, labels));
 
         return namespace;
     }
@@ -94,6 +125,24 @@ export class NamespaceService {
         }
     }
 
+    // Decoded Secret data, or null if the Secret does not exist
+    async readSecret(namespace: string, name: string): Promise<Record<string, string> | null> {
+        try {
+            const response = await coreApi().readNamespacedSecret(name, namespace);
+            return Object.fromEntries(
+                Object.entries(response.body.data ?? {}).map(([key, value]) => [
+                    key,
+                    Buffer.from(value, 'base64').toString('utf8'),
+                ])
+            );
+        } catch (error: unknown) {
+            if (isK8sStatusCode(error, 404)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
     async deleteNamespace(name: string): Promise<void> {
         const log = this.log.child({ namespace: name });
 
@@ -119,6 +168,7 @@ export class NamespaceService {
                 );
             },
             {
+                operation: 'Namespace deletion',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -130,27 +180,76 @@ export class NamespaceService {
         log.info('Namespace deletion initiated');
     }
 
-    async waitForDeletion(name: string, timeoutMs: number = 60000): Promise<void> {
+    // Snapshot of a terminating namespace: conditions K8s reports plus the workloads still present.
+    // Returns null once the namespace is gone.
+    async getDeletionStatus(name: string): Promise<NamespaceDeletionStatus | null> {
+        const ns = await this.getNamespace(name);
+        if (!ns) {
+            return null;
+        }
+
+        // Only conditions that are currently true explain why deletion is blocked
+        const conditions = (ns.status?.conditions ?? [])
+            .filter((c) => c.status === 'True' && c.message)
+            .map((c) => `${c.type}: ${c.message}`);
+
+        const [pods, pvcs, statefulSets, deployments] = await Promise.all([
+            coreApi().listNamespacedPod(name),
+            coreApi().listNamespacedPersistentVolumeClaim(name),
+            appsApi().listNamespacedStatefulSet(name),
+            appsApi().listNamespacedDeployment(name),
+        ]);
+
+        const remaining: RemainingResource[] = [
+            ...pods.body.items.map((o) => toRemaining('Pod', o.metadata)),
+            ...pvcs.body.items.map((o) => toRemaining('PersistentVolumeClaim', o.metadata)),
+            ...statefulSets.body.items.map((o) => toRemaining('StatefulSet', o.metadata)),
+            ...deployments.body.items.map((o) => toRemaining('Deployment', o.metadata)),
+        ];
+
+        return {
+            phase: ns.status?.phase,
+            conditions,
+            remaining,
+        };
+    }
+
+    // Nudges a namespace stuck in Terminating: re-issues the namespace delete and force-deletes
+    // pods that are still hanging around (e.g. on an unreachable node). Finalizers are left alone.
+    async retryDeletion(name: string): Promise<void> {
         const log = this.log.child({ namespace: name });
-        const startTime = Date.now();
 
-        while (Date.now() - startTime < timeoutMs) {
-            const ns = await this.getNamespace(name);
-            if (!ns) {
-                log.info('Namespace fully deleted');
-                return;
-            }
+        await this.deleteNamespace(name);
 
-            log.debug({ phase: ns.status?.phase }, 'Waiting for namespace deletion');
-            await new Promise((resolve) => setTimeout(resolve, 2000));
+        const pods = await coreApi().listNamespacedPod(name);
+        for (const pod of pods.body.items) {
+            const podName = pod.metadata?.name;
+            if (!podName) {
+                continue;
+            }
+            try {
+                // gracePeriodSeconds = 0 → immediate removal from the API server
+                await coreApi().deleteNamespacedPod(podName, name, undefined, undefined, 0);
+                log.warn({ pod: podName }, 'Force-deleted pod blocking namespace deletion');
+            } catch (error) {
+                // Forbidden (RBAC without pods delete): only a nudge  the namespace controller still
+                // removes the pod, so don't fail the deletion over it
+                if (isK8sStatusCode(error, 403)) {
+                    log.warn({ pod: podName }, 'Not allowed to force-delete pod  waiting for the namespace controller');
+                    continue;
+                }
+                if (!isK8sStatusCode(error, 404)) {
+                    throw error;
+                }
+            }
         }
-
-        throw new Error(`Namespace ${name} deletion timed out after ${timeoutMs}ms`);
     }
 
-    private async applyResourceQuota(
+    // Create, or replace an existing quota  a resize re-applies it with the new plan
+    async applyResourceQuota(
         namespace: string,
-        labels: StoreLabels
+        labels: StoreLabels,
+        plan: StorePlan
     ): Promise<void> {
         const log = this.log.child({ namespace });
 
@@ -165,16 +264,16 @@ export class NamespaceService {
             spec: {
                 hard: {
                     // CPU limits
-                    'requests.cpu': '500m',
-                    'limits.cpu': '2',
-                    // Memory limits  
-                    'requests.memory': '512Mi',
-                    'limits.memory': '2Gi',
+                    'requests.cpu': `${plan.quota.cpuRequestMillicores}m`,
+                    'limits.cpu': `${plan.quota.cpuLimitMillicores}m`,
+                    // Memory limits
+                    'requests.memory': `${plan.quota.memoryRequestMi}Mi`,
+                    'limits.memory': `${plan.quota.memoryLimitMi}Mi`,
                     // Storage limits
-                    'requests.storage': '5Gi',
+                    'requests.storage': `${plan.quota.storageGi}Gi`,
                     'persistentvolumeclaims': '3',
                     // Object count limits
-                    pods: '10',
+                    pods: String(plan.quota.pods),
                     services: '5',
                     secrets: '10',
                     configmaps: '10',
@@ -184,9 +283,20 @@ export class NamespaceService {
 
         await withRetry(
             async () => {
-                await coreApi().createNamespacedResourceQuota(namespace, quota);
+                try {
+                    await coreApi().createNamespacedResourceQuota(namespace, quota);
+                    log.info('ResourceQuota applied');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        await coreApi().replaceNamespacedResourceQuota('store-quota', namespace, quota);
+                        log.info('ResourceQuota replaced');
+                        return;
+                    }
+                    throw error;
+                }
             },
             {
+                operation: 'ResourceQuota creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -194,13 +304,13 @@ export class NamespaceService {
                 },
             }
         );
-
-        log.info('ResourceQuota applied');
     }
 
-    private async applyLimitRange(
+    // Create or replace, like applyResourceQuota. Only affects containers created afterwards.
+    async applyLimitRange(
         namespace: string,
-        labels: StoreLabels
+        labels: StoreLabels,
+        plan: StorePlan
     ): Promise<void> {
         const log = this.log.child({ namespace });
 
@@ -218,20 +328,20 @@ export class NamespaceService {
                         type: 'Container',
                         // Note: K8s client uses _default (underscored) property name
                         _default: {
-                            cpu: '500m',
-                            memory: '512Mi',
+                            cpu: `${plan.limitRange.defaultCpuMillicores}m`,
+                            memory: `${plan.limitRange.defaultMemoryMi}Mi`,
                         },
                         defaultRequest: {
-                            cpu: '100m',
-                            memory: '128Mi',
+                            cpu: `${plan.limitRange.defaultRequestCpuMillicores}m`,
+                            memory: `${plan.limitRange.defaultRequestMemoryMi}Mi`,
                         },
                         min: {
                             cpu: '50m',
                             memory: '64Mi',
                         },
                         max: {
-                            cpu: '1',
-                            memory: '1Gi',
+                            cpu: `${plan.limitRange.maxCpuMillicores}m`,
+                            memory: `${plan.limitRange.maxMemoryMi}Mi`,
                         },
                     },
                 ],
@@ -240,9 +350,20 @@ export class NamespaceService {
 
         await withRetry(
             async () => {
-                await coreApi().createNamespacedLimitRange(namespace, limitRange);
+                try {
+                    await coreApi().createNamespacedLimitRange(namespace, limitRange);
+                    log.info('LimitRange applied');
+                } catch (error: unknown) {
+                    if (isK8sStatusCode(error, 409)) {
+                        await coreApi().replaceNamespacedLimitRange('store-limits', namespace, limitRange);
+                        log.info('LimitRange replaced');
+                        return;
+                    }
+                    throw error;
+                }
             },
             {
+                operation: 'LimitRange creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -250,8 +371,6 @@ export class NamespaceService {
                 },
             }
         );
-
-        log.info('LimitRange applied');
     }
 
     async listStoreNamespaces(): Promise<k8s.V1Namespace[]> {
@@ -270,8 +389,6 @@ export class NamespaceService {
         namespace: string,
         labels: StoreLabels
     ): Promise<void> {
-        const log = this.log.child({ namespace });
-
         const policy: k8s.V1NetworkPolicy = {
             apiVersion: 'networking.k8s.io/v1',
             kind: 'NetworkPolicy',
@@ -341,6 +458,52 @@ export class NamespaceService {
             },
         };
 
+        await this.createNetworkPolicy(namespace, policy);
+    }
+
+    // NetworkPolicy: allow the platform namespace (the API's health prober) into the store's
+    // HTTP ports. Policies are additive, so this only widens store-isolation's ingress.
+    private async applyProbePolicy(
+        namespace: string,
+        labels: StoreLabels
+    ): Promise<void> {
+        const policy: k8s.V1NetworkPolicy = {
+            apiVersion: 'networking.k8s.io/v1',
+            kind: 'NetworkPolicy',
+            metadata: {
+                name: 'allow-platform-probes',
+                namespace,
+                labels: getStoreLabels(labels),
+            },
+            spec: {
+                podSelector: {},
+                policyTypes: ['Ingress'],
+                ingress: [
+                    {
+                        from: [
+                            {
+                                namespaceSelector: {
+                                    matchLabels: {
+                                        'kubernetes.io/metadata.name': config.kubeNamespace,
+                                    },
+                                },
+                            },
+                        ],
+                        ports: [
+                            { port: 8080, protocol: 'TCP' },   // WordPress
+                            { port: 9000, protocol: 'TCP' },   // Medusa
+                        ],
+                    },
+                ],
+            },
+        };
+
+        await this.createNetworkPolicy(namespace, policy);
+    }
+
+    private async createNetworkPolicy(namespace: string, policy: k8s.V1NetworkPolicy): Promise<void> {
+        const log = this.log.child({ namespace, networkPolicy: policy.metadata?.name });
+
         await withRetry(
             async () => {
                 try {
@@ -355,6 +518,7 @@ export class NamespaceService {
                 }
             },
             {
+                operation: 'NetworkPolicy creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -0,0 +1,191 @@
+import { once } from 'events';
+import { Readable } from 'stream';
+import { ExecError, ExecRequest, ExecResult, PodExecutor } from './exec.js';
+import { WooCommerceSetupService } from './woocommerce-setup.js';
+
+type Handler = (request: ExecRequest) => Promise<ExecResult>;
+
+// Records every exec and answers it with `handler`. Like K8sPodExecutor, it ends a streamed stdout only on exit 0.
+class FakePodExecutor implements PodExecutor {
+    readonly requests: ExecRequest[] = [];
+
+    constructor(private readonly handler: Handler) {}
+
+    async findPod(namespace: string): Promise<string | null> {
+        return `wordpress-${namespace}`;
+    }
+
+    async exec(request: ExecRequest): Promise<ExecResult> {
+        this.requests.push(request);
+        const result = await this.handler(request);
+        if (request.stdout && result.exitCode === 0) {
+            request.stdout.end();
+        }
+        return result;
+    }
+
+    wpCommands(): string[] {
+        return this.requests.filter((r) => r.command[0] === 'wp').map((r) => r.command.slice(1, 3).join(' '));
+    }
+}
+
+const ok = (stdout = ''): ExecResult => ({ exitCode: 0, stdout, stderr: '' });
+
+// Writes `total` bytes to the request's stdout, waiting whenever the reader is behind
+async function produce(request: ExecRequest, total: number, fill: number): Promise<void> {
+    const chunk = Buffer.alloc(64 * 1024, fill);
+    for (let written = 0; written < total; written += chunk.length) {
+        if (!request.stdout!.write(chunk.subarray(0, Math.min(chunk.length, total - written)))) {
+            await once(request.stdout!, 'drain');
+        }
+    }
+}
+
+// Reads the request's stdin to its end, or rejects like K8sPodExecutor once the pipe is aborted
+function consume(request: ExecRequest): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        request.signal?.addEventListener('abort', () => reject(request.signal!.reason));
+        (request.stdin as Readable)
+            .on('data', (chunk: Buffer) => chunks.push(chunk))
+            .on('end', () => resolve(Buffer.concat(chunks)))
+            .on('error', reject);
+    });
+}
+
+const CLONE = {
+    sourceNamespace: 'store-source',
+    sourceUrl: 'http://store-source.localhost',
+    namespace: 'store-clone',
+    storeId: 'clone',
+    url: 'http://store-clone.localhost',
+    adminUser: 'admin',
+    adminPassword: 's3cret-pass',
+    timeoutMs: 10000,
+};
+
+const isSource = (request: ExecRequest) => request.namespace === CLONE.sourceNamespace;
+
+// Twice the 1 MiB pipe buffer, so the copy only finishes with backpressure working
+const COPY_BYTES = 2 * 1024 * 1024;
+
+describe('WooCommerceSetupService', () => {
+    describe('setup', () => {
+        it('runs each WP-CLI step in the wordpress container', async () => {
+            const executor = new FakePodExecutor(async () => ok());
+
+            await new WooCommerceSetupService(executor).setup({ namespace: 'store-a', storeId: 'a', hostname: 'store-a.localhost' });
+
+            expect(executor.wpCommands()).toEqual(expect.arrayContaining(['wc tool', 'rewrite flush']));
+            for (const request of executor.requests) {
+                expect(request).toMatchObject({ namespace: 'store-a', pod: 'wordpress-store-a', container: 'wordpress' });
+                expect(request.command).toEqual(expect.arrayContaining(['--allow-root', '--path=/opt/bitnami/wordpress']));
+            }
+        });
+
+        it('keeps going when a WP-CLI command exits non-zero', async () => {
+            const executor = new FakePodExecutor(async (request) =>
+                request.command[1] === 'wc' ? { exitCode: 1, stdout: '', stderr: 'Error: WooCommerce not active' } : ok()
+            );
+
+            await expect(
+                new WooCommerceSetupService(executor).setup({ namespace: 'store-a', storeId: 'a', hostname: 'store-a.localhost' })
+            ).resolves.toBeUndefined();
+            expect(executor.wpCommands()).toContain('rewrite flush');
+        });
+    });
+
+    describe('cloneFrom', () => {
+        it('streams the database and wp-content from the source pod into the clone', async () => {
+            const received: Record<string, Buffer> = {};
+            const executor = new FakePodExecutor(async (request) => {
+                if (isSource(request)) {
+                    await produce(request, COPY_BYTES, request.command[0] === 'wp' ? 1 : 2);
+                    return ok();
+                }
+                if (request.stdin) {
+                    received[request.command[0]] = await consume(request);
+                    return ok();
+                }
+                return ok(request.command[1] === 'search-replace' ? '42' : '');
+            });
+
+            await new WooCommerceSetupService(executor).cloneFrom(CLONE);
+
+            // Buffer#equals: toEqual walks a large Buffer byte by byte and blocks the event loop for seconds
+            expect(received.wp.length).toBe(COPY_BYTES);
+            expect(received.wp.equals(Buffer.alloc(COPY_BYTES, 1))).toBe(true);
+            expect(received.tar.length).toBe(COPY_BYTES);
+            expect(received.tar.equals(Buffer.alloc(COPY_BYTES, 2))).toBe(true);
+            expect(executor.wpCommands()).toEqual([
+                'db export',
+                'db import',
+                'search-replace http://store-source.localhost',
+                'user update',
+                'cache flush',
+                'rewrite flush',
+            ]);
+        });
+
+        it('fails the copy and stops the clone side when the source exits non-zero', async () => {
+            const executor = new FakePodExecutor(async (request) => {
+                if (isSource(request)) {
+                    await produce(request, 128 * 1024, 1);
+                    return { exitCode: 2, stdout: '', stderr: 'mysqldump: Got error: 2013: Lost connection' };
+                }
+                if (request.stdin) {
+                    await consume(request);
+                }
+                return ok();
+            });
+
+            const error = await new WooCommerceSetupService(executor).cloneFrom(CLONE).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ExecError);
+            expect(error).toMatchObject({ exitCode: 2, message: expect.stringContaining('Lost connection') });
+            const target = executor.requests.find((r) => r.stdin)!;
+            expect(target.signal?.aborted).toBe(true);
+            expect(executor.wpCommands()).not.toContain('search-replace http://store-source.localhost');
+        });
+
+        it('reports a failing WP-CLI command as an ExecError', async () => {
+            const executor = new FakePodExecutor(async (request) => {
+                if (isSource(request)) {
+                    await produce(request, 1024, 1);
+                    return ok();
+                }
+                if (request.stdin) {
+                    await consume(request);
+                    return ok();
+                }
+                return request.command[1] === 'search-replace'
+                    ? { exitCode: 1, stdout: '', stderr: "Error: Couldn't find any tables" }
+                    : ok();
+            });
+
+            const error = await new WooCommerceSetupService(executor).cloneFrom(CLONE).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ExecError);
+            expect(error).toMatchObject({ exitCode: 1, stderr: "Error: Couldn't find any tables" });
+        });
+
+        it('keeps the admin password out of a failed reset', async () => {
+            const executor = new FakePodExecutor(async (request) => {
+                if (isSource(request)) {
+                    await produce(request, 1024, 1);
+                    return ok();
+                }
+                if (request.stdin) {
+                    await consume(request);
+                    return ok();
+                }
+                return request.command[1] === 'user' ? { exitCode: 1, stdout: '', stderr: 'Error: Invalid user' } : ok('1');
+            });
+
+            const error = await new WooCommerceSetupService(executor).cloneFrom(CLONE).catch((e: unknown) => e);
+
+            expect((error as Error).message).toBe("Failed to reset the password of admin user 'admin'");
+            expect((error as Error).message).not.toContain(CLONE.adminPassword);
+        });
+    });
+});
@@ -1,16 +1,35 @@
-// Post-install WooCommerce config via WP-CLI (kubectl exec).
-// Sets up COD payment, sample products, and store settings.
+// Post-install WooCommerce config via WP-CLI, run in the WordPress pod through the K8s exec API.
+// Sets up COD payment, sample products, and store settings; clones copy another store's data instead.
 // Uses WP-CLI because WC REST API needs OAuth consumer keys which aren't available at provision time.
 
-import { execFile } from 'child_process';
-import { promisify } from 'util';
+import { PassThrough } from 'stream';
 import { logger } from '../../utils/logger.js';
+import { withSpan } from '../../utils/tracing.js';
+import { timelineStep } from '../../utils/timeline.js';
+import { PodExecutor, ExecRequest, ExecError, podExecutor } from './exec.js';
 
-const execFileAsync = promisify(execFile);
+const WORDPRESS_SELECTOR = 'app.kubernetes.io/name=wordpress';
+const WORDPRESS_CONTAINER = 'wordpress';
+
+const WP_CLI_FLAGS = ['--allow-root', '--path=/opt/bitnami/wordpress'];
+
+// Persistent volume root in the Bitnami image  wp-content lives here, symlinked into the install
+const CONTENT_ROOT = '/bitnami/wordpress';
+
+// Source output buffered in the API while the target catches up; beyond it the source is paused
+const PIPE_BUFFER_BYTES = 1024 * 1024;
+
+interface PodCommand {
+    namespace: string;
+    podName: string;
+    command: string[];
+}
 
 export class WooCommerceSetupService {
     private log = logger.child({ service: 'WooCommerceSetup' });
 
+    constructor(private readonly executor: PodExecutor = podExecutor) {}
+
     async setup(opts: {
         namespace: string;
         storeId: string;
@@ -42,7 +61,7 @@ export class WooCommerceSetupService {
             await this.configureStore(opts.namespace, podName, log);
 
             // Step 5: Flush rewrite rules so /shop works
-            await this.wpCli(opts.namespace, podName, ['rewrite', 'flush']);
+            await timelineStep('WP-CLI: flush rewrite rules', () => this.wpCli(opts.namespace, podName, ['rewrite', 'flush']));
 
             log.info('WooCommerce auto-setup completed successfully');
         } catch (error) {
@@ -50,14 +69,77 @@ export class WooCommerceSetupService {
         }
     }
 
+    // Copies a source store's database and wp-content into this store, rewrites the source's URL and
+    // resets the admin password to this store's (the imported users are the source's).
+    // Unlike setup(), failures are thrown  a half-copied clone must not become READY.
+    async cloneFrom(opts: {
+        sourceNamespace: string;
+        sourceUrl: string;
+        namespace: string;
+        storeId: string;
+        url: string;
+        adminUser: string;
+        adminPassword: string;
+        timeoutMs: number;
+    }): Promise<void> {
+        const log = this.log.child({ storeId: opts.storeId, sourceNamespace: opts.sourceNamespace });
+
+        const [sourcePod, podName] = await Promise.all([
+            this.getWordPressPod(opts.sourceNamespace),
+            this.getWordPressPod(opts.namespace),
+        ]);
+        if (!sourcePod) {
+            throw new Error(`No WordPress pod found in source namespace ${opts.sourceNamespace}`);
+        }
+        if (!podName) {
+            throw new Error(`No WordPress pod found in ${opts.namespace}`);
+        }
+
+        // The dump drops and recreates every table; --single-transaction avoids locking the live source
+        await timelineStep('WP-CLI: copy database', () => this.pipeExec(
+            { namespace: opts.sourceNamespace, podName: sourcePod, command: ['wp', 'db', 'export', '-', '--single-transaction', ...WP_CLI_FLAGS] },
+            { namespace: opts.namespace, podName, command: ['wp', 'db', 'import', '-', ...WP_CLI_FLAGS] },
+            opts.timeoutMs
+        ));
+        log.info('Database copied from source store');
+
+        await timelineStep('copy wp-content', () => this.pipeExec(
+            { namespace: opts.sourceNamespace, podName: sourcePod, command: ['tar', 'czf', '-', '-C', CONTENT_ROOT, 'wp-content'] },
+            { namespace: opts.namespace, podName, command: ['tar', 'xzf', '-', '-C', CONTENT_ROOT] },
+            opts.timeoutMs
+        ));
+        log.info('wp-content copied from source store');
+
+        // Post GUIDs are permanent IDs (feed readers rely on them)  leave them pointing at the source
+        const replacements = await timelineStep('WP-CLI: rewrite site URL', () => this.wpCli(opts.namespace, podName,
+            ['search-replace', opts.sourceUrl, opts.url, '--all-tables-with-prefix', '--skip-columns=guid', '--format=count'],
+            opts.timeoutMs
+        ));
+        log.info({ from: opts.sourceUrl, to: opts.url, replacements: Number(replacements) }, 'Site URL rewritten');
+
+        // The password is an argument  keep the failed command out of the error (the store's errorMessage
+        // and its timeline)
+        await timelineStep('WP-CLI: reset admin password', async () => {
+            try {
+                await this.wpCli(opts.namespace, podName,
+                    ['user', 'update', opts.adminUser, `--user_pass=${opts.adminPassword}`, '--skip-email']
+                );
+            } catch {
+                throw new Error(`Failed to reset the password of admin user '${opts.adminUser}'`);
+            }
+        });
+
+        await timelineStep('WP-CLI: flush caches', async () => {
+            await this.wpCli(opts.namespace, podName, ['cache', 'flush']);
+            await this.wpCli(opts.namespace, podName, ['rewrite', 'flush']);
+        });
+
+        log.info('Clone data copied');
+    }
+
     private async getWordPressPod(namespace: string): Promise<string | null> {
         try {
-            const { stdout } = await execFileAsync(
-                'kubectl',
-                ['get', 'pods', '-n', namespace, '-l', 'app.kubernetes.io/name=wordpress', '-o', 'jsonpath={.items[0].metadata.name}'],
-                { timeout: 15000 }
-            );
-            return stdout.replace(/[{}]/g, '').trim() || null;
+            return await this.executor.findPod(namespace, WORDPRESS_SELECTOR);
         } catch {
             return null;
         }
@@ -66,15 +148,67 @@ export class WooCommerceSetupService {
     private async wpCli(
         namespace: string,
         podName: string,
-        wpArgs: string[]
+        wpArgs: string[],
+        timeoutMs = 30000
     ): Promise<string> {
-        // Use execFile with explicit arg array  no shell, no injection
-        const args = [
-            'exec', '-n', namespace, podName, '--',
-            'wp', ...wpArgs, '--allow-root', '--path=/opt/bitnami/wordpress'
-        ];
-        const { stdout } = await execFileAsync('kubectl', args, { timeout: 30000 });
-        return stdout.trim();
+        // Arguments are passed as an array  no shell, no injection
+        const command = ['wp', ...wpArgs, ...WP_CLI_FLAGS];
+
+        // Only the subcommand ("user create") is recorded  later args can carry passwords
+        const attributes = { 'k8s.namespace.name': namespace, 'k8s.pod.name': podName, 'wp.command': wpArgs.slice(0, 2).join(' ') };
+
+        return withSpan('wp-cli', attributes, async () => {
+            const result = await this.executor.exec({ namespace, pod: podName, container: WORDPRESS_CONTAINER, command, timeoutMs });
+            if (result.exitCode !== 0) {
+                throw new ExecError(command, result);
+            }
+            return result.stdout.trim();
+        });
+    }
+
+    // Copies one pod command's stdout into another's stdin through the API (no shell on either side).
+    // Both must exit 0  a source that dies mid-stream leaves the target with a truncated input.
+    private pipeExec(from: PodCommand, to: PodCommand, timeoutMs: number): Promise<void> {
+        const attributes = {
+            'k8s.namespace.name': to.namespace,
+            'exec.source': `${from.podName}: ${from.command[0]}`,
+            'exec.target': `${to.podName}: ${to.command[0]}`,
+        };
+        return withSpan('exec-pipe', attributes, () => this.runPipe(from, to, timeoutMs));
+    }
+
+    // Streams the source's stdout into the target's stdin as it is produced, both commands running at once
+    // under the same timeout. If either fails the other is stopped and the copy fails with the first error.
+    private async runPipe(from: PodCommand, to: PodCommand, timeoutMs: number): Promise<void> {
+        const pipe = new PassThrough({ highWaterMark: PIPE_BUFFER_BYTES });
+        const abort = new AbortController();
+
+        const run = async (side: PodCommand, streams: Pick<ExecRequest, 'stdin' | 'stdout'>) => {
+            try {
+                const result = await this.executor.exec({
+                    namespace: side.namespace,
+                    pod: side.podName,
+                    container: WORDPRESS_CONTAINER,
+                    command: side.command,
+                    timeoutMs,
+                    signal: abort.signal,
+                    ...streams,
+                });
+                if (result.exitCode !== 0) {
+                    throw new ExecError(side.command, result);
+                }
+            } catch (error) {
+                abort.abort(error);
+                pipe.destroy();
+                throw error;
+            }
+        };
+
+        // The first failure aborts the other side, so it is the error to report
+        await Promise.allSettled([run(from, { stdout: pipe }), run(to, { stdin: pipe })]);
+        if (abort.signal.aborted) {
+            throw abort.signal.reason;
+        }
     }
 
     private async installPages(
@@ -83,9 +217,9 @@ export class WooCommerceSetupService {
         log: any
     ): Promise<void> {
         try {
-            await this.wpCli(namespace, podName,
+            await timelineStep('WP-CLI: install WooCommerce pages', () => this.wpCli(namespace, podName,
                 ['wc', 'tool', 'run', 'install_pages', '--user=1']
-            );
+            ));
             log.info('WooCommerce pages installed (Shop, Cart, Checkout, My Account)');
         } catch (error) {
             log.warn({ err: error }, 'Failed to install WooCommerce pages  /shop may not work');
@@ -107,9 +241,9 @@ export class WooCommerceSetupService {
                 enable_for_methods: '',
                 enable_for_virtual: 'yes',
             });
-            await this.wpCli(namespace, podName,
+            await timelineStep('WP-CLI: enable Cash on Delivery', () => this.wpCli(namespace, podName,
                 ['option', 'update', 'woocommerce_cod_settings', codSettings, '--format=json']
-            );
+            ));
 
             // Verify gateways list includes COD
             try {
@@ -126,9 +260,9 @@ export class WooCommerceSetupService {
             // Try alternate method via direct DB update
             try {
                 const codSerialized = 'a:6:{s:7:"enabled";s:3:"yes";s:5:"title";s:16:"Cash on Delivery";s:11:"description";s:29:"Pay with cash upon delivery.";s:12:"instructions";s:29:"Pay with cash upon delivery.";s:18:"enable_for_methods";s:0:"";s:21:"enable_for_virtual";s:3:"yes";}';
-                await this.wpCli(namespace, podName,
+                await timelineStep('WP-CLI: enable Cash on Delivery (DB fallback)', () => this.wpCli(namespace, podName,
                     ['db', 'query', `UPDATE wp_options SET option_value = '${codSerialized}' WHERE option_name = 'woocommerce_cod_settings'`]
-                );
+                ));
                 log.info('COD enabled via direct DB update');
             } catch (dbError) {
                 log.warn({ err: dbError }, 'COD DB fallback also failed');
@@ -183,7 +317,7 @@ export class WooCommerceSetupService {
                     // If check fails, try creating anyway
                 }
 
-                await this.wpCli(namespace, podName, [
+                await timelineStep(`WP-CLI: create product ${product.sku}`, () => this.wpCli(namespace, podName, [
                     'wc', 'product', 'create',
                     `--name=${product.name}`,
                     '--type=simple',
@@ -195,7 +329,7 @@ export class WooCommerceSetupService {
                     `--stock_quantity=${product.stock}`,
                     '--status=publish',
                     '--user=1',
-                ]);
+                ]));
                 log.info({ product: product.name }, 'Sample product created');
             } catch (error) {
                 log.debug({ err: error, product: product.name }, 'Failed to create product via WP-CLI');
@@ -219,15 +353,18 @@ export class WooCommerceSetupService {
             { key: 'woocommerce_enable_guest_checkout', value: 'yes' },
         ];
 
-        for (const setting of settings) {
-            try {
-                await this.wpCli(namespace, podName,
-                    ['option', 'update', setting.key, setting.value]
-                );
-            } catch {
-                // Non-fatal
+        // One timeline step for all of them  individual failures are ignored anyway
+        await timelineStep('WP-CLI: store settings', async () => {
+            for (const setting of settings) {
+                try {
+                    await this.wpCli(namespace, podName,
+                        ['option', 'update', setting.key, setting.value]
+                    );
+                } catch {
+                    // Non-fatal
+                }
             }
-        }
+        });
 
         log.info('Store settings configured');
     }
@@ -4,6 +4,7 @@
 import * as k8s from '@kubernetes/client-node';
 import { coreApi, appsApi, networkingApi } from './client.js';
 import { logger } from '../../utils/logger.js';
+import { timelineStep } from '../../utils/timeline.js';
 import { withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
 import { getStoreLabels, StoreLabels } from './namespace.js';
 import { config } from '../../config/index.js';
@@ -15,7 +16,9 @@ export interface WordPressDeploymentConfig {
     storeName: string;
     mysqlHost: string;
     mysqlSecretName: string;
-    storageSize?: string;
+    storageSize: string;
+    replicas: number;
+    resources: k8s.V1ResourceRequirements;     // The wordpress container (from the store's plan, see models/sizing.ts)
 }
 
 export class WordPressService {
@@ -41,19 +44,19 @@ export class WordPressService {
 
         // 1. Create admin credentials Secret
         const adminSecretName = 'wordpress-admin-secret';
-        await this.createAdminSecret(cfg.namespace, adminSecretName, labels);
+        await timelineStep(`Secret/${adminSecretName}`, () => this.createAdminSecret(cfg.namespace, adminSecretName, labels));
 
         // 2. Create PVC for wp-content
-        await this.createPVC(cfg, labels);
+        await timelineStep('PersistentVolumeClaim/wordpress-content', () => this.createPVC(cfg, labels));
 
         // 3. Create Deployment
-        await this.createDeployment(cfg, labels, hostname, adminSecretName);
+        await timelineStep('Deployment/wordpress', () => this.createDeployment(cfg, labels, hostname, adminSecretName));
 
         // 4. Create Service
-        await this.createService(cfg.namespace, labels);
+        await timelineStep('Service/wordpress', () => this.createService(cfg.namespace, labels));
 
         // 5. Create Ingress
-        await this.createIngress(cfg.namespace, labels, hostname);
+        await timelineStep('Ingress/wordpress', () => this.createIngress(cfg.namespace, labels, hostname));
 
         log.info({ url, adminUrl }, 'WordPress deployment completed');
 
@@ -100,6 +103,7 @@ export class WordPressService {
                 }
             },
             {
+                operation: 'WordPress admin secret creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -130,7 +134,7 @@ export class WordPressService {
                 accessModes: ['ReadWriteOnce'],
                 resources: {
                     requests: {
-                        storage: cfg.storageSize || config.wordpressStorageSize,
+                        storage: cfg.storageSize,
                     },
                 },
             },
@@ -150,6 +154,7 @@ export class WordPressService {
                 }
             },
             {
+                operation: 'WordPress PVC creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -181,7 +186,7 @@ export class WordPressService {
                 labels: k8sLabels,
             },
             spec: {
-                replicas: 1,
+                replicas: cfg.replicas,
                 selector: {
                     matchLabels: {
                         'app.kubernetes.io/name': 'wordpress',
@@ -248,10 +253,7 @@ export class WordPressService {
                                     // Skip wizard for faster setup
                                     { name: 'WORDPRESS_SKIP_BOOTSTRAP', value: 'no' },
                                 ],
-                                resources: {
-                                    requests: { cpu: '100m', memory: '256Mi' },
-                                    limits: { cpu: '500m', memory: '512Mi' },
-                                },
+                                resources: cfg.resources,
                                 volumeMounts: [
                                     { name: 'wordpress-content', mountPath: '/bitnami/wordpress' },
                                 ],
@@ -300,6 +302,7 @@ export class WordPressService {
                 }
             },
             {
+                operation: 'WordPress Deployment creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -352,6 +355,7 @@ export class WordPressService {
                 }
             },
             {
+                operation: 'WordPress Service creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -421,6 +425,7 @@ export class WordPressService {
                 }
             },
             {
+                operation: 'WordPress Ingress creation',
                 maxRetries: 3,
                 shouldRetry: isRetryableK8sError,
                 onRetry: (err, attempt) => {
@@ -430,6 +435,32 @@ export class WordPressService {
         );
     }
 
+    async isReady(namespace: string): Promise<boolean> {
+        try {
+            const response = await appsApi().readNamespacedDeployment('wordpress', namespace);
+            const deployment = response.body;
+            return (deployment.status?.readyReplicas || 0) >= (deployment.spec?.replicas || 1);
+        } catch (error) {
+            if (isK8sStatusCode(error, 404)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // Stops routing traffic immediately; the namespace cascade can take a while
+    async deleteIngress(namespace: string): Promise<void> {
+        try {
+            await networkingApi().deleteNamespacedIngress('wordpress', namespace);
+            this.log.info({ namespace }, 'Ingress deleted');
+        } catch (error: unknown) {
+            if (isK8sStatusCode(error, 404)) {
+                return;
+            }
+            throw error;
+        }
+    }
+
     async waitForReady(namespace: string, timeoutMs: number): Promise<void> {
         const log = this.log.child({ namespace });
         const startTime = Date.now();
@@ -0,0 +1,272 @@
+// Running store workloads: PVC expansion, Deployment scaling and container resizing with its rollout
+// (used by resizes), and the availability, pod readiness and in-cluster HTTP checks behind the health prober.
+
+import * as k8s from '@kubernetes/client-node';
+import { coreApi, appsApi, storageApi } from './client.js';
+import { logger } from '../../utils/logger.js';
+import { sleep, withRetry, isRetryableK8sError, isK8sStatusCode } from '../../utils/retry.js';
+import { config } from '../../config/index.js';
+import { ComponentHealth } from '../../models/health.js';
+
+const MERGE_PATCH = { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_JSON_MERGE_PATCH } };
+
+// Merges a containers list by name instead of replacing it
+const STRATEGIC_MERGE_PATCH = { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_STRATEGIC_MERGE_PATCH } };
+
+const ROLLOUT_POLL_INTERVAL_MS = 2000;
+
+export type WorkloadKind = 'Deployment' | 'StatefulSet';
+
+const BINARY_UNITS: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40 };
+
+// Bytes in a storage quantity ("512Mi", "5Gi"). Decimal units aren't used for store volumes.
+export function quantityBytes(quantity: string): number {
+    const match = /^(\d+(?:\.\d+)?)(Ki|Mi|Gi|Ti)?$/.exec(quantity);
+    if (!match) {
+        throw new Error(`Unsupported storage quantity '${quantity}'`);
+    }
+    return Number(match[1]) * (match[2] ? BINARY_UNITS[match[2]] : 1);
+}
+
+// CPU quantity ("500m", "2") in millicores
+export function millicores(quantity: string): number {
+    const match = /^(\d+(?:\.\d+)?)(m)?$/.exec(quantity);
+    if (!match) {
+        throw new Error(`Unsupported CPU quantity '${quantity}'`);
+    }
+    return Number(match[1]) * (match[2] ? 1 : 1000);
+}
+
+export function mebibytes(quantity: string): number {
+    return quantityBytes(quantity) / 2 ** 20;
+}
+
+// Same CPU and memory requests and limits, however the quantities are written ("1" vs "1000m")
+function sameResources(current: k8s.V1ResourceRequirements | undefined, wanted: k8s.V1ResourceRequirements): boolean {
+    const same = (a: Record<string, string> | undefined, b: Record<string, string> | undefined) =>
+        !!a && !!b && !!a.cpu && !!a.memory && !!b.cpu && !!b.memory &&
+        millicores(a.cpu) === millicores(b.cpu) && mebibytes(a.memory) === mebibytes(b.memory);
+    return same(current?.requests, wanted.requests) && same(current?.limits, wanted.limits);
+}
+
+export class WorkloadService {
+    private log = logger.child({ service: 'WorkloadService' });
+
+    // Grows a PVC to `size`. Returns why nothing was changed (already that size, or the
+    // StorageClass can't expand volumes), or undefined once the expansion is requested.
+    async expandPVC(namespace: string, name: string, size: string): Promise<string | undefined> {
+        const log = this.log.child({ namespace, pvc: name });
+
+        const pvc = (await coreApi().readNamespacedPersistentVolumeClaim(name, namespace)).body;
+        const current = pvc.spec?.resources?.requests?.storage;
+
+        if (current && quantityBytes(current) >= quantityBytes(size)) {
+            return quantityBytes(current) === quantityBytes(size)
+                ? `Already ${current}`
+                : `Volumes cannot shrink (currently ${current})`;
+        }
+
+        const storageClassName = pvc.spec?.storageClassName;
+        if (storageClassName) {
+            const storageClass = (await storageApi().readStorageClass(storageClassName)).body;
+            if (!storageClass.allowVolumeExpansion) {
+                return `StorageClass ${storageClassName} does not allow volume expansion`;
+            }
+        }
+
+        await withRetry(
+            () => coreApi().patchNamespacedPersistentVolumeClaim(
+                name,
+                namespace,
+                { spec: { resources: { requests: { storage: size } } } },
+                undefined, undefined, undefined, undefined, undefined,
+                MERGE_PATCH
+            ),
+            {
+                operation: 'PVC expansion',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => log.warn({ err, attempt }, 'Retrying PVC expansion'),
+            }
+        );
+
+        // The filesystem grows when the volume is next mounted (or online, if the driver supports it)
+        log.info({ from: current, to: size }, 'PVC expansion requested');
+        return undefined;
+    }
+
+    async scaleDeployment(namespace: string, name: string, replicas: number): Promise<void> {
+        const log = this.log.child({ namespace, deployment: name });
+
+        await withRetry(
+            () => appsApi().patchNamespacedDeployment(
+                name,
+                namespace,
+                { spec: { replicas } },
+                undefined, undefined, undefined, undefined, undefined,
+                MERGE_PATCH
+            ),
+            {
+                operation: 'Deployment scale',
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => log.warn({ err, attempt }, 'Retrying Deployment scale'),
+            }
+        );
+
+        log.info({ replicas }, 'Deployment scaled');
+    }
+
+    // Sets the requests and limits of the named containers (init containers included) in a Deployment or
+    // StatefulSet's pod template, which rolls its pods. Returns why nothing was changed (already that size),
+    // or undefined once the template is patched; waitForRollout() then waits for the new pods.
+    async resizeContainers(
+        namespace: string,
+        kind: WorkloadKind,
+        name: string,
+        resources: Record<string, k8s.V1ResourceRequirements>
+    ): Promise<string | undefined> {
+        const log = this.log.child({ namespace, [kind === 'Deployment' ? 'deployment' : 'statefulSet']: name });
+
+        const workload = kind === 'Deployment'
+            ? (await appsApi().readNamespacedDeployment(name, namespace)).body
+            : (await appsApi().readNamespacedStatefulSet(name, namespace)).body;
+        const podSpec = workload.spec?.template.spec;
+
+        const patchList = (containers: k8s.V1Container[] = []) => containers
+            .filter((container) => resources[container.name])
+            .map((container) => ({ name: container.name, resources: resources[container.name] }));
+        const containers = patchList(podSpec?.containers);
+        const initContainers = patchList(podSpec?.initContainers);
+
+        const current = [...(podSpec?.containers ?? []), ...(podSpec?.initContainers ?? [])];
+        if (current.every((container) => !resources[container.name] || sameResources(container.resources, resources[container.name]))) {
+            return 'Already sized';
+        }
+
+        const patch = { spec: { template: { spec: initContainers.length ? { containers, initContainers } : { containers } } } };
+        await withRetry(
+            () => kind === 'Deployment'
+                ? appsApi().patchNamespacedDeployment(
+                    name, namespace, patch, undefined, undefined, undefined, undefined, undefined, STRATEGIC_MERGE_PATCH
+                )
+                : appsApi().patchNamespacedStatefulSet(
+                    name, namespace, patch, undefined, undefined, undefined, undefined, undefined, STRATEGIC_MERGE_PATCH
+                ),
+            {
+                operation: `${kind} resize`,
+                maxRetries: 3,
+                shouldRetry: isRetryableK8sError,
+                onRetry: (err, attempt) => log.warn({ err, attempt }, `Retrying ${kind} resize`),
+            }
+        );
+
+        log.info({ resources }, 'Containers resized');
+        return undefined;
+    }
+
+    // Waits until every pod runs the current template and is ready: the controller has seen the latest
+    // spec, no pod of an older revision is left, and the desired replicas are ready (available for a Deployment).
+    async waitForRollout(namespace: string, kind: WorkloadKind, name: string, timeoutMs: number): Promise<void> {
+        const log = this.log.child({ namespace, [kind === 'Deployment' ? 'deployment' : 'statefulSet']: name });
+        const startTime = Date.now();
+
+        while (Date.now() - startTime < timeoutMs) {
+            try {
+                if (kind === 'Deployment') {
+                    const { body } = await appsApi().readNamespacedDeployment(name, namespace);
+                    const desired = body.spec?.replicas ?? 1;
+                    if (
+                        (body.status?.observedGeneration ?? 0) >= (body.metadata?.generation ?? 0) &&
+                        (body.status?.updatedReplicas ?? 0) >= desired &&
+                        (body.status?.replicas ?? 0) <= desired &&
+                        (body.status?.availableReplicas ?? 0) >= desired
+                    ) {
+                        log.info('Rollout finished');
+                        return;
+                    }
+                } else {
+                    const { body } = await appsApi().readNamespacedStatefulSet(name, namespace);
+                    const desired = body.spec?.replicas ?? 1;
+                    if (
+                        (body.status?.observedGeneration ?? 0) >= (body.metadata?.generation ?? 0) &&
+                        (body.status?.updatedReplicas ?? 0) >= desired &&
+                        body.status?.currentRevision === body.status?.updateRevision &&
+                        (body.status?.readyReplicas ?? 0) >= desired
+                    ) {
+                        log.info('Rollout finished');
+                        return;
+                    }
+                }
+            } catch (error) {
+                log.debug({ err: error }, 'Error checking rollout status');
+            }
+
+            await sleep(ROLLOUT_POLL_INTERVAL_MS);
+        }
+
+        throw new Error(`${kind} ${name} rollout not finished after ${timeoutMs}ms`);
+    }
+
+    // Healthy while every desired replica is available (ready for minReadySeconds)
+    async deploymentAvailability(namespace: string, name: string): Promise<ComponentHealth> {
+        try {
+            const { body } = await appsApi().readNamespacedDeployment(name, namespace);
+            const desired = body.spec?.replicas ?? 1;
+            const available = body.status?.availableReplicas ?? 0;
+            return available >= desired
+                ? { healthy: true }
+                : { healthy: false, message: `${available}/${desired} replicas available` };
+        } catch (error) {
+            if (isK8sStatusCode(error, 404)) {
+                return { healthy: false, message: `Deployment ${name} not found` };
+            }
+            throw error;
+        }
+    }
+
+    // Healthy while the pod's Ready condition is True. Otherwise reports a waiting container's
+    // reason (CrashLoopBackOff, ImagePullBackOff, ...) when there is one.
+    async podReadiness(namespace: string, name: string): Promise<ComponentHealth> {
+        try {
+            const { body } = await coreApi().readNamespacedPod(name, namespace);
+            const ready = body.status?.conditions?.find((condition) => condition.type === 'Ready');
+            if (ready?.status === 'True') {
+                return { healthy: true };
+            }
+            const waiting = body.status?.containerStatuses?.find((status) => status.state?.waiting)?.state?.waiting;
+            return {
+                healthy: false,
+                message: waiting?.reason ?? `Pod ${name} not ready (${body.status?.phase ?? 'Unknown'})`,
+            };
+        } catch (error) {
+            if (isK8sStatusCode(error, 404)) {
+                return { healthy: false, message: `Pod ${name} not found` };
+            }
+            throw error;
+        }
+    }
+
+    // GET through the store's Service, bypassing the ingress. Redirects count as healthy
+    // (WordPress redirects to its canonical URL); 4xx/5xx and timeouts don't.
+    async probeService(namespace: string, service: string, path: string): Promise<ComponentHealth> {
+        try {
+            const response = await fetch(`http://${service}.${namespace}.svc.cluster.local${path}`, {
+                redirect: 'manual',
+                signal: AbortSignal.timeout(config.healthProbeTimeoutMs),
+            });
+            return response.status < 400
+                ? { healthy: true }
+                : { healthy: false, message: `HTTP ${response.status}` };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'TimeoutError') {
+                return { healthy: false, message: `No response within ${config.healthProbeTimeoutMs}ms` };
+            }
+            const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+            return { healthy: false, message: cause instanceof Error ? cause.message : 'Request failed' };
+        }
+    }
+}
+
+// Export singleton
+export const workloadService = new WorkloadService();
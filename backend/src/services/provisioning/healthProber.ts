@@ -0,0 +1,169 @@
+// Store health prober. Provisioning stops checking a store once it is READY; the prober keeps checking
+// READY and DEGRADED stores through their driver's health(): workload availability, database pod
+// readiness and an HTTP request to the storefront's Service. healthProbeFailureThreshold failed checks
+// in a row move a store to DEGRADED with the failing checks as its healthReason; the first passing
+// check moves it back to READY. Every change is recorded as a StoreHealthEvent. A resize or restore also
+// returns a DEGRADED store to READY; the prober then records the recovery on the first passing check.
+
+import { config } from '../../config/index.js';
+import { logger, createStoreLogger } from '../../utils/logger.js';
+import { engineRegistry } from '../engines/registry.js';
+import { engineContext, EngineHealth } from '../engines/driver.js';
+import { storeRepository, storeHealthRepository } from '../database/index.js';
+import { Store, StoreStatus, InvalidTransitionError, isRunningState } from '../../models/store.js';
+import { describeUnhealthy } from '../../models/health.js';
+
+export class StoreHealthProber {
+    private log = logger.child({ service: 'StoreHealthProber' });
+    private timer: NodeJS.Timeout | null = null;
+    private probing = false;
+
+    // Failed checks in a row for READY stores. Per replica: every replica probes every store, and
+    // the status change is compare-and-set, so whichever reaches the threshold first applies it.
+    private failures = new Map<string, number>();
+
+    // READY stores whose latest health event is known to be healthy (or that have none), so a passing
+    // check needs no lookup. A store that went DEGRADED → RESIZING/RESTORING → READY isn't in it.
+    private settled = new Set<string>();
+
+    start(): void {
+        if (config.healthProbeIntervalMs === 0) {
+            this.log.info('Store health probing disabled (HEALTH_PROBE_INTERVAL_MS=0)');
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.probeAll().catch((err) => this.log.error({ err }, 'Health probe pass failed'));
+        }, config.healthProbeIntervalMs);
+
+        this.log.info(
+            {
+                intervalMs: config.healthProbeIntervalMs,
+                failureThreshold: config.healthProbeFailureThreshold,
+                http: config.healthProbeHttp,
+            },
+            'Store health prober started'
+        );
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async probeAll(): Promise<void> {
+        // A pass slowed down by unresponsive stores makes the next tick a no-op rather than overlap it
+        if (this.probing) {
+            return;
+        }
+        this.probing = true;
+
+        try {
+            const stores = (await storeRepository.findLive()).filter((store) => isRunningState(store.status));
+
+            // One store at a time, like the reconciler
+            for (const store of stores) {
+                try {
+                    await this.probe(store);
+                } catch (err) {
+                    // Couldn't read the store's workloads (API server trouble)  not the store's fault
+                    createStoreLogger(store.id).warn({ err }, 'Health check could not run');
+                }
+            }
+
+            // Forget stores that left READY/DEGRADED
+            const checked = new Set(stores.map((store) => store.id));
+            for (const storeId of this.failures.keys()) {
+                if (!checked.has(storeId)) {
+                    this.failures.delete(storeId);
+                }
+            }
+            for (const storeId of this.settled) {
+                if (!checked.has(storeId)) {
+                    this.settled.delete(storeId);
+                }
+            }
+        } finally {
+            this.probing = false;
+        }
+    }
+
+    private async probe(store: Store): Promise<void> {
+        const log = createStoreLogger(store.id);
+        const health = await engineRegistry.get(store.engine).health(engineContext(store, log));
+
+        if (health.healthy) {
+            this.failures.delete(store.id);
+            if (store.status === StoreStatus.DEGRADED) {
+                await this.record(store, StoreStatus.READY, health);
+            } else if (!this.settled.has(store.id)) {
+                // READY, but the history may still end at "degraded" (a resize or restore cleared it)
+                const [latest] = await storeHealthRepository.findByStore(store.id, 1);
+                if (latest && !latest.healthy) {
+                    await this.record(store, StoreStatus.READY, health);
+                }
+            }
+            this.settled.add(store.id);
+            return;
+        }
+
+        this.settled.delete(store.id);
+
+        const reason = describeUnhealthy(health.components);
+
+        // Already DEGRADED: only a different set of failures is worth an event
+        if (store.status === StoreStatus.DEGRADED) {
+            if (reason !== store.healthReason) {
+                await this.record(store, StoreStatus.DEGRADED, health, reason);
+            }
+            return;
+        }
+
+        const failures = (this.failures.get(store.id) ?? 0) + 1;
+        if (failures < config.healthProbeFailureThreshold) {
+            this.failures.set(store.id, failures);
+            log.debug({ failures, reason }, 'Store failed a health check');
+            return;
+        }
+
+        this.failures.delete(store.id);
+        await this.record(store, StoreStatus.DEGRADED, health, reason);
+    }
+
+    private async record(
+        store: Store,
+        status: typeof StoreStatus.READY | typeof StoreStatus.DEGRADED,
+        health: EngineHealth,
+        reason?: string
+    ): Promise<void> {
+        const log = createStoreLogger(store.id);
+
+        try {
+            await storeRepository.update(store.id, { status, healthReason: reason });
+        } catch (err) {
+            // A job (resize, restore, deletion) took the store over since the pass read it
+            if (err instanceof InvalidTransitionError) {
+                return;
+            }
+            throw err;
+        }
+
+        await storeHealthRepository.record({
+            storeId: store.id,
+            healthy: health.healthy,
+            reason,
+            components: health.components,
+        });
+
+        if (health.healthy) {
+            log.info('Store recovered');
+        } else {
+            log.warn({ reason }, 'Store degraded');
+        }
+    }
+}
+
+// Export singleton
+export const storeHealthProber = new StoreHealthProber();
@@ -1,24 +1,55 @@
 // Orchestrates end-to-end store provisioning on K8s.
-// Phases: namespace → mysql → wordpress → validation
-// Each phase is checkpointed; on failure the namespace is cleaned up.
+// Phases: namespace → engine phases declared by the EngineDriver (database → application → validation),
+// then clone for stores copied from another store (see cloneStore).
+// Each phase is checkpointed; jobs are driven by ProvisioningWorker and resume from the checkpoint.
+// On failure the namespace is cleaned up. Deletion, resizing, backups and restores are also queued jobs
+// (see runDeletion, runResize, runBackup, runRestore).
 
 import { v4 as uuidv4 } from 'uuid';
-import { createStoreLogger } from '../../utils/logger.js';
+import { logger, createStoreLogger, StoreLogger } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
-import { createDeadline } from '../../utils/timeout.js';
+import { createDeadline, abortable } from '../../utils/timeout.js';
 import { namespaceService } from '../k8s/namespace.js';
-import { mysqlService } from '../k8s/mysql.js';
-import { wordpressService } from '../k8s/wordpress.js';
-import { wooCommerceSetupService } from '../k8s/woocommerce-setup.js';
+import { backupService, BackupJobConfig } from '../k8s/backup.js';
+import { engineRegistry } from '../engines/registry.js';
+import { EngineContext, AdminCredentials, engineContext, runResizeStep } from '../engines/driver.js';
 import { auditLogger, AuditAction } from '../audit/auditLogger.js';
-import { storeRepository } from '../database/index.js';
+import { storeRepository, backupRepository, storeHealthRepository, storeDiagnosticsRepository } from '../database/index.js';
+import { diagnosticsService } from '../k8s/diagnostics.js';
+import { podLogService, LogStreamHandlers } from '../k8s/logs.js';
+import { JobKind } from '../../models/job.js';
+import { Backup, BackupStatus, BackupTrigger, getBackupObjectPrefix } from '../../models/backup.js';
+import { StoreHealthEvent } from '../../models/health.js';
+import { sleep, getK8sErrorStatusCode } from '../../utils/retry.js';
+import { provisioningPhaseDuration, provisioningFailures } from '../../utils/metrics.js';
+import { withSpan } from '../../utils/tracing.js';
+import { timelineStep } from '../../utils/timeline.js';
+import { provisioningTimeline } from './timeline.js';
+import { ProvisioningEvent, POST_INSTALL } from '../../models/timeline.js';
+import { DiagnosticBundle, diagnosticFindings } from '../../models/diagnostics.js';
+import { StoreLogsQuery } from '../../models/logs.js';
+import { storeFootprint } from '../../models/sizing.js';
 import {
     Store,
     StoreStatus,
     StoreEngine,
+    StoreUpdate,
     ProvisioningPhase,
     CreateStoreRequest,
+    CloneStoreRequest,
+    StoreFilter,
+    StoreListResponse,
+    DeletionProgress,
+    ResizeProgress,
+    ResizeStepStatus,
+    ResizeStoreRequest,
+    RestoreProgress,
+    StoreResources,
+    resolveStorePlan,
     getNamespaceName,
+    canTransitionTo,
+    isRunningState,
+    InvalidTransitionError,
 } from '../../models/store.js';
 
 export interface ProvisioningResult {
@@ -28,82 +59,83 @@ export interface ProvisioningResult {
     phase?: ProvisioningPhase;
 }
 
+export type LogStreamError = 'NOT_FOUND' | 'UNKNOWN_COMPONENT' | 'POD_NOT_FOUND' | 'LOG_UNAVAILABLE';
+
+export interface LogStreamResult {
+    success: boolean;
+    close?: () => void;            // Ends the stream (set on success)
+    pod?: string;
+    container?: string;
+    code?: LogStreamError;
+    error?: string;
+}
+
 // PostgreSQL-backed store storage (replaces in-memory Map)
 const storeStorage = storeRepository;
 
-export class ProvisioningOrchestrator {
-    // Logger is created per-operation with store context
+// Readiness flags checkpointed once a phase's workloads are ready.
+// mysqlReady/wordpressReady mean "database ready"/"application ready" for every engine.
+const PHASE_READY_FLAGS: Partial<Record<ProvisioningPhase, StoreUpdate>> = {
+    [ProvisioningPhase.DATABASE]: { mysqlReady: true },
+    [ProvisioningPhase.APPLICATION]: { wordpressReady: true },
+};
 
-    async createStore(request: CreateStoreRequest): Promise<ProvisioningResult> {
-        // Guard: MedusaJS is stubbed  not yet implemented
-        if (request.engine === StoreEngine.MEDUSA) {
-            return {
-                success: false,
-                store: {
-                    id: 'n/a',
-                    name: request.name,
-                    namespace: 'n/a',
-                    engine: request.engine,
-                    status: StoreStatus.FAILED,
-                    mysqlReady: false,
-                    wordpressReady: false,
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                    errorMessage: 'MedusaJS engine is not yet implemented. Architecture supports it  see ARCHITECTURE.md for the extension plan.',
-                },
-                error: 'MedusaJS engine is not yet implemented',
-            };
-        }
+// How often a terminating namespace is re-checked while deleting
+const DELETION_POLL_INTERVAL_MS = 3000;
 
-        // Abuse prevention: max 10 active stores
-        const allStores = await storeStorage.findAll();
-        const activeStores = allStores.filter(
-            s => s.status !== StoreStatus.FAILED && s.status !== StoreStatus.DELETED
-        );
-        if (activeStores.length >= 10) {
-            return {
-                success: false,
-                store: {
-                    id: 'n/a',
-                    name: request.name,
-                    namespace: 'n/a',
-                    engine: request.engine,
-                    status: StoreStatus.FAILED,
-                    mysqlReady: false,
-                    wordpressReady: false,
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                    errorMessage: 'Maximum number of active stores (10) reached. Delete existing stores before creating new ones.',
-                },
-                error: 'Max stores limit reached',
-            };
-        }
+// The backup Job dumps MySQL and archives wp-content  Medusa stores aren't covered yet
+const BACKUP_ENGINES: StoreEngine[] = [StoreEngine.WOOCOMMERCE];
+
+function backupJobConfig(store: Store, jobName: string, objectPrefix: string): BackupJobConfig {
+    return {
+        namespace: store.namespace,
+        storeId: store.id,
+        storeName: store.name,
+        jobName,
+        objectPrefix,
+    };
+}
+
+export class ProvisioningOrchestrator {
+    // Logger is created per-operation with store context
 
+    // Throws QuotaExceededError if the tenant has no room for another store
+    async createStore(
+        request: CreateStoreRequest,
+        tenantId: string,
+        clonedFrom?: string,
+        resources?: StoreResources
+    ): Promise<ProvisioningResult> {
         // Generate unique store ID
         const storeId = uuidv4().slice(0, 8); // Short ID for readability
         const namespace = getNamespaceName(storeId);
         const log = createStoreLogger(storeId);
 
-        log.info({ request }, 'Starting store provisioning');
+        log.info({ request, tenantId }, 'Starting store provisioning');
+
+        const plan = resolveStorePlan(request.plan, resources);
 
-        // Create store record in provisioning state
-        const store = await storeStorage.create({
+        // Create store record in provisioning state + its durable job (quota-checked)
+        const store = await storeStorage.createWithJob({
             id: storeId,
+            tenantId,
             name: request.name,
             namespace,
             engine: request.engine,
+            plan: request.plan,
+            resources,
+            clonedFrom,
             status: StoreStatus.PROVISIONING,
             phase: ProvisioningPhase.NAMESPACE,
             mysqlReady: false,
             wordpressReady: false,
+            cpuMillicores: plan.quota.cpuLimitMillicores,
+            storageGi: plan.quota.storageGi,
             createdAt: new Date(),
             updatedAt: new Date(),
         });
 
-        // Fire-and-forget: provision in background
-        this.provisionInBackground(storeId, request, namespace, log).catch((err) => {
-            log.error({ err }, 'Unhandled error in background provisioning');
-        });
+        // ProvisioningWorker picks the job up on its next poll
 
         // Audit log
         auditLogger.record({
@@ -111,112 +143,144 @@ export class ProvisioningOrchestrator {
             storeId,
             storeName: request.name,
             engine: request.engine,
+            details: { plan: request.plan, clonedFrom },
         });
 
         return { success: true, store };
     }
 
-    private async provisionInBackground(
-        storeId: string,
-        request: CreateStoreRequest,
-        namespace: string,
-        log: ReturnType<typeof createStoreLogger>
-    ): Promise<void> {
-        const startTime = Date.now();
+    // Queues a new store that is provisioned like any other, then filled with a copy of a READY or DEGRADED source
+    // store's data in a final CLONE phase. It gets the source's engine and tenant, and by default its plan
+    // and resource overrides (so its volumes fit the copied data).
+    // Throws QuotaExceededError if the tenant has no room for another store.
+    async cloneStore(
+        sourceId: string,
+        request: CloneStoreRequest,
+        tenantId?: string
+    ): Promise<{ success: boolean; store?: Store; error?: string }> {
+        const source = await this.getStore(sourceId, tenantId);
+        if (!source) {
+            return { success: false, error: 'Store not found' };
+        }
 
-        try {
-            // Create deadline for total provisioning time (5 min)
-            const deadline = createDeadline(300000);
+        if (!engineRegistry.get(source.engine).cloneFrom) {
+            return { success: false, error: `Cloning is not supported for ${source.engine} stores` };
+        }
 
-            // Phase 1: Namespace
-            log.info({ phase: ProvisioningPhase.NAMESPACE }, 'Phase 1: Creating namespace');
+        if (!isRunningState(source.status)) {
+            return { success: false, error: `Only ready or degraded stores can be cloned (current status: ${source.status})` };
+        }
 
-            await deadline.wrap(
-                namespaceService.createNamespace(namespace, {
-                    storeId,
-                    storeName: request.name,
-                    engine: request.engine,
-                }),
-                'namespace creation'
-            );
+        const result = await this.createStore(
+            { name: request.name, engine: source.engine, plan: request.plan ?? source.plan },
+            source.tenantId,
+            source.id,
+            request.plan ? undefined : source.resources
+        );
 
-            await storeStorage.update(storeId, {
-                phase: ProvisioningPhase.DATABASE,
-            });
+        return { success: true, store: result.store };
+    }
 
-            // Phase 2: MySQL
-            log.info({ phase: ProvisioningPhase.DATABASE }, 'Phase 2: Deploying MySQL');
+    // Runs (or resumes) provisioning for a store. Called by ProvisioningWorker for a claimed job.
+    // Starts at the checkpointed phase; every step is idempotent so re-running a phase is safe.
+    // Returns true if the store reached READY. An aborted `signal` (the worker lost the job's lease)
+    // stops it between steps and rethrows instead of failing the store.
+    async provisionStore(storeId: string, signal?: AbortSignal): Promise<boolean> {
+        const log = createStoreLogger(storeId);
 
-            const mysqlInfo = await deadline.wrap(
-                mysqlService.deploy({
-                    namespace,
-                    storeId,
-                    storeName: request.name,
-                }),
-                'MySQL deployment'
-            );
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.PROVISIONING) {
+            log.warn({ status: store?.status }, 'Store is not provisioning  nothing to do');
+            return store?.status === StoreStatus.READY;
+        }
 
-            // Wait for MySQL to be ready
-            await deadline.wrap(
-                mysqlService.waitForReady(namespace, config.mysqlReadyTimeout),
-                'MySQL readiness'
-            );
+        const driver = engineRegistry.get(store.engine);
+        const ctx = engineContext(store, log);
+        const phases = [
+            ProvisioningPhase.NAMESPACE,
+            ...driver.phases,
+            ...(store.clonedFrom ? [ProvisioningPhase.CLONE] : []),
+        ];
+        const startIndex = Math.max(0, phases.indexOf(store.phase ?? ProvisioningPhase.NAMESPACE));
 
-            await storeStorage.update(storeId, {
-                mysqlReady: true,
-                phase: ProvisioningPhase.APPLICATION,
-            });
+        if (startIndex > 0) {
+            log.info({ phase: phases[startIndex] }, 'Resuming provisioning from checkpoint');
+        }
 
-            // Phase 3: WordPress
-            log.info({ phase: ProvisioningPhase.APPLICATION }, 'Phase 3: Deploying WordPress');
-
-            const wpInfo = await deadline.wrap(
-                wordpressService.deploy({
-                    namespace,
-                    storeId,
-                    storeName: request.name,
-                    mysqlHost: mysqlInfo.host,
-                    mysqlSecretName: mysqlInfo.secretName,
-                }),
-                'WordPress deployment'
-            );
+        await provisioningTimeline.interrupt(storeId);
 
-            // Wait for WordPress to be ready
-            await deadline.wrap(
-                wordpressService.waitForReady(namespace, config.wordpressReadyTimeout),
-                'WordPress readiness'
-            );
+        try {
+            // Create deadline for this attempt's provisioning time (5 min)
+            const deadline = createDeadline(300000);
 
-            await storeStorage.update(storeId, {
-                wordpressReady: true,
-                phase: ProvisioningPhase.VALIDATION,
-            });
+            for (const [index, phase] of phases.entries()) {
+                if (index < startIndex) {
+                    continue;
+                }
+                signal?.throwIfAborted();
 
-            // Phase 4: Validation + WooCommerce setup
-            log.info({ phase: ProvisioningPhase.VALIDATION }, 'Phase 4: Validating store');
+                // Checkpoint before the phase starts
+                await storeStorage.update(storeId, { phase });
 
-            // Auto-configure WooCommerce (COD payment + sample products)
-            const hostname = `store-${storeId}.${config.storeDomain}`;
-            await wooCommerceSetupService.setup({
-                namespace,
-                storeId,
-                hostname,
-            });
+                log.info({ phase, engine: driver.engine }, `Phase ${index + 1}: ${phase}`);
+                const endPhaseTimer = provisioningPhaseDuration.startTimer({ engine: store.engine, phase });
+                const spanAttributes = { 'store.id': storeId, 'store.engine': store.engine, 'provisioning.phase': phase };
+
+                await abortable(withSpan(`provisioning.${phase}`, spanAttributes, () => provisioningTimeline.phase(storeId, phase, async () => {
+                    if (phase === ProvisioningPhase.NAMESPACE) {
+                        // Namespace phase is shared by every engine
+                        await deadline.wrap(
+                            namespaceService.createNamespace(
+                                store.namespace,
+                                { storeId, storeName: store.name, engine: store.engine },
+                                ctx.plan
+                            ),
+                            'namespace creation'
+                        );
+                    } else if (phase === ProvisioningPhase.CLONE) {
+                        // Outside the deadline  copying a large store is bounded by cloneTimeout instead
+                        await this.cloneData(store, ctx);
+                    } else {
+                        await deadline.wrap(driver.deploy(phase, ctx), `${driver.engine} ${phase} deployment`);
+                        await deadline.wrap(
+                            timelineStep('readiness', () => driver.waitForReady(phase, ctx)),
+                            `${driver.engine} ${phase} readiness`
+                        );
+
+                        const readyFlags = PHASE_READY_FLAGS[phase];
+                        if (readyFlags) {
+                            await storeStorage.update(storeId, readyFlags);
+                        }
+                    }
+                })), signal);
+
+                endPhaseTimer();
+            }
+
+            // Best-effort engine configuration (e.g. WooCommerce COD + sample products).
+            // Clones already carry the source's configuration.
+            if (!store.clonedFrom) {
+                signal?.throwIfAborted();
+                await abortable(provisioningTimeline.phase(storeId, POST_INSTALL, () => driver.postInstall(ctx)), signal);
+            }
+            signal?.throwIfAborted();
 
-            const provisioningDuration = Date.now() - startTime;
+            const endpoints = driver.getEndpoints(storeId);
+            // Measured from creation so resumed stores report their real wall-clock time
+            const provisioningDuration = Date.now() - store.createdAt.getTime();
 
             // Update to READY
             await storeStorage.update(storeId, {
                 status: StoreStatus.READY,
                 phase: undefined,
-                url: wpInfo.url,
-                adminUrl: wpInfo.adminUrl,
+                url: endpoints.url,
+                adminUrl: endpoints.adminUrl,
                 readyAt: new Date(),
                 provisioningDurationMs: provisioningDuration,
             });
 
             log.info(
-                { duration: provisioningDuration, url: wpInfo.url },
+                { duration: provisioningDuration, url: endpoints.url },
                 'Store provisioned successfully'
             );
 
@@ -224,102 +288,946 @@ export class ProvisioningOrchestrator {
             auditLogger.record({
                 action: AuditAction.STORE_CREATE_SUCCEEDED,
                 storeId,
-                storeName: request.name,
-                engine: request.engine,
+                storeName: store.name,
+                engine: store.engine,
                 duration: provisioningDuration,
-                details: { url: wpInfo.url, adminUrl: wpInfo.adminUrl },
+                details: { url: endpoints.url, adminUrl: endpoints.adminUrl, clonedFrom: store.clonedFrom },
             });
 
+            return true;
+
         } catch (error) {
-            // Handle provisioning failure
+            if (signal?.aborted) {
+                throw error;
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            const currentStore = await storeStorage.findById(storeId);
-            const failedPhase = currentStore?.phase;
+            await this.failProvisioning(store, ctx, errorMessage, error);
+            return false;
+        }
+    }
 
-            log.error(
-                { err: error, phase: failedPhase },
-                'Store provisioning failed'
-            );
+    // The CLONE phase. Re-running it is safe: the import replaces every table and the archive
+    // overwrites wp-content.
+    private async cloneData(store: Store, ctx: EngineContext): Promise<void> {
+        const driver = engineRegistry.get(store.engine);
+        if (!driver.cloneFrom) {
+            throw new Error(`Cloning is not supported for ${store.engine} stores`);
+        }
 
-            // Update store to failed state
-            await storeStorage.update(storeId, {
-                status: StoreStatus.FAILED,
+        const source = await storeStorage.findById(store.clonedFrom!);
+        if (!source || !isRunningState(source.status)) {
+            throw new Error(`Source store ${store.clonedFrom} is ${source?.status ?? 'missing'}  it must be ready or degraded to be cloned`);
+        }
+
+        ctx.log.info({ sourceStoreId: source.id }, 'Copying data from source store');
+        await driver.cloneFrom(engineContext(source, ctx.log), ctx);
+    }
+
+    // Gives up on a store whose job kept dying mid-run (e.g. the API crashed every attempt)
+    async abandonProvisioning(storeId: string, reason: string): Promise<void> {
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.PROVISIONING) {
+            return;
+        }
+
+        const log = createStoreLogger(storeId);
+        await provisioningTimeline.interrupt(storeId);
+        await this.failProvisioning(store, engineContext(store, log), reason);
+    }
+
+    private async failProvisioning(
+        store: Store,
+        ctx: EngineContext,
+        errorMessage: string,
+        error?: unknown
+    ): Promise<void> {
+        const { log } = ctx;
+        const currentStore = await storeStorage.findById(store.id);
+        const failedPhase = currentStore?.phase;
+
+        log.error(
+            { err: error, phase: failedPhase },
+            'Store provisioning failed'
+        );
+        provisioningFailures.inc({ engine: store.engine, phase: failedPhase ?? 'unknown' });
+
+        // Update store to failed state
+        await storeStorage.update(store.id, {
+            status: StoreStatus.FAILED,
+            errorMessage,
+            errorPhase: failedPhase,
+        });
+
+        // Audit log
+        auditLogger.record({
+            action: AuditAction.STORE_CREATE_FAILED,
+            storeId: store.id,
+            storeName: store.name,
+            engine: store.engine,
+            details: { error: errorMessage, phase: failedPhase },
+        });
+
+        // Before cleanup deletes the pods and Events it is read from
+        await this.collectDiagnostics(store, failedPhase, errorMessage, log);
+
+        if (config.keepFailedNamespaces) {
+            log.warn({ namespace: store.namespace }, 'Keeping failed namespace for debugging (KEEP_FAILED_NAMESPACES)');
+            return;
+        }
+
+        // Cleanup: Delete namespace to cascade-delete all resources
+        try {
+            log.info('Cleaning up failed provisioning');
+            await engineRegistry.get(store.engine).teardown(ctx);
+            await namespaceService.deleteNamespace(store.namespace);
+        } catch (cleanupError) {
+            log.error({ err: cleanupError }, 'Cleanup failed - manual intervention may be needed');
+        }
+    }
+
+    // Best-effort: a failure here must not stop the namespace cleanup
+    private async collectDiagnostics(
+        store: Store,
+        phase: ProvisioningPhase | undefined,
+        errorMessage: string,
+        log: StoreLogger
+    ): Promise<void> {
+        try {
+            const { events, pods, errors } = await diagnosticsService.collect(store.namespace);
+            const findings = diagnosticFindings(pods, events);
+
+            await storeDiagnosticsRepository.save({
+                storeId: store.id,
+                phase,
                 errorMessage,
-                errorPhase: failedPhase,
+                findings,
+                events,
+                pods,
+                collectionErrors: errors,
+            });
+
+            log.info({ findings }, 'Collected diagnostics for failed store');
+        } catch (err) {
+            log.warn({ err }, 'Failed to collect diagnostics');
+        }
+    }
+
+    // Re-queues a FAILED store, resuming from the phase it failed in. If the namespace was
+    // cleaned up on failure, provisioning restarts from the namespace phase instead.
+    async retryStore(storeId: string, tenantId?: string): Promise<{ success: boolean; store?: Store; error?: string }> {
+        const log = createStoreLogger(storeId);
+
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return { success: false, error: 'Store not found' };
+        }
+
+        if (store.status !== StoreStatus.FAILED || !canTransitionTo(store.status, StoreStatus.PROVISIONING)) {
+            return { success: false, error: `Only failed stores can be retried (current status: ${store.status})` };
+        }
+
+        if (store.deletionProgress) {
+            return { success: false, error: 'Store deletion failed  delete it again instead of retrying' };
+        }
+
+        const namespace = await namespaceService.getNamespace(store.namespace);
+        if (namespace?.status?.phase === 'Terminating') {
+            return { success: false, error: 'Store namespace is still terminating  try again shortly' };
+        }
+
+        // Without the namespace nothing from earlier phases survives  start over
+        const resumePhase = namespace
+            ? store.errorPhase ?? ProvisioningPhase.NAMESPACE
+            : ProvisioningPhase.NAMESPACE;
+
+        log.info({ resumePhase, namespaceExists: !!namespace }, 'Retrying store provisioning');
+
+        const updated = await storeStorage.update(storeId, {
+            status: StoreStatus.PROVISIONING,
+            phase: resumePhase,
+            errorMessage: undefined,
+            errorPhase: undefined,
+            ...(namespace ? {} : { mysqlReady: false, wordpressReady: false }),
+        });
+
+        // ProvisioningWorker picks the job up on its next poll
+        await storeStorage.enqueueJob(storeId);
+
+        return { success: true, store: updated ?? store };
+    }
+
+    // Marks the store DELETING and queues a delete job; ProvisioningWorker runs runDeletion().
+    // Deleting a store that is already DELETING re-queues its job if none is active (e.g. after a crash).
+    async deleteStore(storeId: string, tenantId?: string): Promise<{ success: boolean; store?: Store; error?: string }> {
+        const log = createStoreLogger(storeId);
+
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return { success: false, error: 'Store not found' };
+        }
+
+        if (store.status === StoreStatus.DELETED) {
+            return { success: true, store }; // Already deleted
+        }
+
+        if (store.status !== StoreStatus.DELETING && !canTransitionTo(store.status, StoreStatus.DELETING)) {
+            throw new InvalidTransitionError(storeId, store.status, StoreStatus.DELETING);
+        }
+
+        log.info('Queueing store deletion');
+
+        // Mark as deleting  throws InvalidTransitionError if the status changed since the read
+        const updated = store.status === StoreStatus.DELETING
+            ? store
+            : await storeStorage.update(storeId, {
+                status: StoreStatus.DELETING,
+                errorMessage: undefined,
+                deletionProgress: {
+                    startedAt: new Date().toISOString(),
+                    remaining: [],
+                    conditions: [],
+                    retries: 0,
+                },
             });
 
+        // ProvisioningWorker picks the job up on its next poll
+        await storeStorage.enqueueJob(storeId, JobKind.DELETE);
+
+        return { success: true, store: updated ?? store };
+    }
+
+    // Runs a queued deletion. Called by ProvisioningWorker for a claimed delete job.
+    // Polls the terminating namespace, recording what is left in deletionProgress, and re-issues
+    // the delete every namespaceDeleteRetryInterval while it is stuck. Returns true once DELETED.
+    async runDeletion(storeId: string, signal?: AbortSignal): Promise<boolean> {
+        const log = createStoreLogger(storeId);
+
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.DELETING) {
+            log.warn({ status: store?.status }, 'Store is not deleting  nothing to do');
+            return store?.status === StoreStatus.DELETED;
+        }
+
+        const progress: DeletionProgress = store.deletionProgress ?? {
+            startedAt: new Date().toISOString(),
+            remaining: [],
+            conditions: [],
+            retries: 0,
+        };
+
+        try {
+            // Engine-specific cleanup, then delete namespace (cascades all resources)
+            await engineRegistry.get(store.engine).teardown(engineContext(store, log));
+            await namespaceService.deleteNamespace(store.namespace);
+
+            const deadline = new Date(progress.startedAt).getTime() + config.deletionTimeout;
+            let lastAttempt = Date.now();
+
+            for (;;) {
+                signal?.throwIfAborted();
+                const status = await namespaceService.getDeletionStatus(store.namespace);
+                if (!status) {
+                    break;
+                }
+
+                const changed =
+                    status.phase !== progress.namespacePhase ||
+                    JSON.stringify(status.remaining) !== JSON.stringify(progress.remaining) ||
+                    JSON.stringify(status.conditions) !== JSON.stringify(progress.conditions);
+
+                progress.namespacePhase = status.phase;
+                progress.remaining = status.remaining;
+                progress.conditions = status.conditions;
+                progress.lastCheckedAt = new Date().toISOString();
+
+                // Only write on change  every write is pushed to dashboards over SSE
+                if (changed) {
+                    await storeStorage.update(storeId, { deletionProgress: progress });
+                }
+
+                if (Date.now() >= deadline) {
+                    const blockers = status.conditions.length
+                        ? status.conditions.join('; ')
+                        : `${status.remaining.length} resources remaining`;
+                    throw new Error(`Namespace ${store.namespace} still terminating after ${config.deletionTimeout}ms (${blockers})`);
+                }
+
+                if (Date.now() - lastAttempt >= config.namespaceDeleteRetryInterval) {
+                    log.warn({ remaining: status.remaining.length, conditions: status.conditions }, 'Namespace deletion stuck  re-issuing');
+                    await namespaceService.retryDeletion(store.namespace);
+                    progress.retries++;
+                    lastAttempt = Date.now();
+                    await storeStorage.update(storeId, { deletionProgress: progress });
+                }
+
+                await sleep(DELETION_POLL_INTERVAL_MS);
+            }
+
+            // Mark as deleted (soft delete)
+            await storeStorage.softDelete(storeId);
+
+            const duration = Date.now() - new Date(progress.startedAt).getTime();
+            log.info({ duration, retries: progress.retries }, 'Store deleted successfully');
+
             // Audit log
             auditLogger.record({
-                action: AuditAction.STORE_CREATE_FAILED,
+                action: AuditAction.STORE_DELETE_SUCCEEDED,
                 storeId,
-                storeName: request.name,
-                engine: request.engine,
-                details: { error: errorMessage, phase: failedPhase },
+                storeName: store.name,
+                engine: store.engine,
+                duration,
             });
 
-            // Cleanup: Delete namespace to cascade-delete all resources
-            try {
-                log.info('Cleaning up failed provisioning');
-                await namespaceService.deleteNamespace(namespace);
-            } catch (cleanupError) {
-                log.error({ err: cleanupError }, 'Cleanup failed - manual intervention may be needed');
+            return true;
+
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
             }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await this.failDeletion(store, progress, errorMessage, error);
+            return false;
+        }
+    }
+
+    // Gives up on a deletion whose job kept dying mid-run
+    async abandonDeletion(storeId: string, reason: string): Promise<void> {
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.DELETING) {
+            return;
+        }
+
+        await this.failDeletion(store, store.deletionProgress, reason);
+    }
+
+    // FAILED keeps deletionProgress so the dashboard can show what is stuck; deleting again resumes
+    private async failDeletion(
+        store: Store,
+        progress: DeletionProgress | undefined,
+        errorMessage: string,
+        error?: unknown
+    ): Promise<void> {
+        const log = createStoreLogger(store.id);
+        log.error({ err: error }, 'Store deletion failed');
+
+        await storeStorage.update(store.id, {
+            status: StoreStatus.FAILED,
+            errorMessage: `Deletion failed: ${errorMessage}`,
+            deletionProgress: progress,
+        });
+
+        // Audit log
+        auditLogger.record({
+            action: AuditAction.STORE_DELETE_FAILED,
+            storeId: store.id,
+            storeName: store.name,
+            engine: store.engine,
+            details: { error: errorMessage, remaining: progress?.remaining.length },
+        });
+    }
+
+    // Moves a READY or DEGRADED store to RESIZING on the new plan and/or resources and queues a resize job;
+    // ProvisioningWorker runs runResize(). Resources not given keep their current value, unless the plan
+    // changes (then they reset to the new plan's). Throws InvalidTransitionError if the store isn't running,
+    // QuotaExceededError if the tenant has no room for the growth.
+    async resizeStore(
+        storeId: string,
+        request: ResizeStoreRequest,
+        tenantId?: string
+    ): Promise<{ success: boolean; store?: Store; error?: string }> {
+        const log = createStoreLogger(storeId);
+
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return { success: false, error: 'Store not found' };
+        }
+
+        if (!canTransitionTo(store.status, StoreStatus.RESIZING)) {
+            throw new InvalidTransitionError(storeId, store.status, StoreStatus.RESIZING);
+        }
+
+        const { plan: requestedPlan, ...requested } = request;
+        const planName = requestedPlan ?? store.plan;
+        const explicit = Object.fromEntries(
+            Object.entries(requested).filter(([, value]) => value !== undefined)
+        ) as StoreResources;
+        const resources: StoreResources =
+            requestedPlan && requestedPlan !== store.plan ? explicit : { ...store.resources, ...explicit };
+        const toResources = Object.keys(resources).length ? resources : undefined;
+
+        const current = resolveStorePlan(store.plan, store.resources);
+        const target = resolveStorePlan(planName, toResources);
+
+        // The quota must hold all of the store's pods plus a rollout's surge pod and a backup Job. Below
+        // that, K8s rejects new pods (scale-up, rollout, rescheduling) and the store can't recover.
+        const { sizing } = engineRegistry.get(store.engine);
+        const footprint = storeFootprint(sizing, target);
+        const replicas = target.applicationReplicas === 1 ? '1 replica' : `${target.applicationReplicas} replicas`;
+        const fits = `every container at its smallest size with ${replicas}, ` +
+            (sizing.backupJob ? 'a rollout surge pod and a backup Job' : 'and a rollout surge pod');
+        if (target.quota.cpuLimitMillicores < footprint.limits.cpuMillicores) {
+            return {
+                success: false,
+                error: `cpuMillicores must be at least ${footprint.limits.cpuMillicores} (${fits})`,
+            };
+        }
+        if (target.quota.memoryLimitMi < footprint.limits.memoryMi) {
+            return {
+                success: false,
+                error: `memoryMi must be at least ${footprint.limits.memoryMi} (${fits})`,
+            };
+        }
+        if (
+            target.quota.cpuRequestMillicores < footprint.requests.cpuMillicores ||
+            target.quota.memoryRequestMi < footprint.requests.memoryMi
+        ) {
+            return {
+                success: false,
+                error:
+                    `Plan '${planName}' requests ${target.quota.cpuRequestMillicores}m CPU / ${target.quota.memoryRequestMi}Mi ` +
+                    `memory, but needs ${footprint.requests.cpuMillicores}m / ${footprint.requests.memoryMi}Mi (${fits})`,
+            };
         }
+
+        // PVCs can only grow, so smaller volumes can never be reached
+        if (
+            target.databaseStorageGi < current.databaseStorageGi ||
+            target.applicationStorageGi < current.applicationStorageGi
+        ) {
+            return {
+                success: false,
+                error:
+                    `Volumes can only grow: database ${current.databaseStorageGi}Gi → ${target.databaseStorageGi}Gi, ` +
+                    `application ${current.applicationStorageGi}Gi → ${target.applicationStorageGi}Gi`,
+            };
+        }
+
+        log.info({ from: store.plan, to: planName, resources: toResources }, 'Queueing store resize');
+
+        const updated = await storeStorage.beginResize(
+            store,
+            planName,
+            toResources,
+            { cpuMillicores: target.quota.cpuLimitMillicores, storageGi: target.quota.storageGi },
+            {
+                fromPlan: store.plan,
+                toPlan: planName,
+                fromResources: store.resources,
+                toResources,
+                startedAt: new Date().toISOString(),
+                steps: [],
+            }
+        );
+
+        return { success: true, store: updated };
     }
 
-    async deleteStore(storeId: string): Promise<{ success: boolean; error?: string }> {
+    // Runs a queued resize. Called by ProvisioningWorker for a claimed resize job. Applies the
+    // namespace quota and limit range, then the engine's volumes, replicas and container sizes. Every
+    // resource is attempted; the store returns to READY either way, with failures listed in resizeProgress.
+    // Returns true if every resource was resized (or needed no change).
+    async runResize(storeId: string, signal?: AbortSignal): Promise<boolean> {
         const log = createStoreLogger(storeId);
 
         const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.RESIZING) {
+            log.warn({ status: store?.status }, 'Store is not resizing  nothing to do');
+            return store?.status === StoreStatus.READY;
+        }
+
+        const ctx = engineContext(store, log);
+        const labels = { storeId, storeName: store.name, engine: store.engine };
+        const progress: ResizeProgress = {
+            ...(store.resizeProgress ?? { fromPlan: store.plan, toPlan: store.plan, startedAt: new Date().toISOString() }),
+            steps: [],
+        };
+
+        log.info({ from: progress.fromPlan, to: progress.toPlan }, 'Resizing store');
+
+        // While pods roll, old and new sizes run side by side: the quota covers both (the larger of the old
+        // and new value of each), and only drops to the new plan's once the workloads are resized
+        const from = resolveStorePlan(progress.fromPlan, progress.fromResources).quota;
+        const rollout = Object.fromEntries(
+            Object.entries(ctx.plan.quota).map(([key, value]) => [key, Math.max(value, from[key as keyof typeof from])])
+        ) as typeof from;
+        const lowered = Object.entries(rollout).some(([key, value]) => value !== ctx.plan.quota[key as keyof typeof from]);
+
+        progress.steps.push(
+            await runResizeStep('ResourceQuota/store-quota', () =>
+                namespaceService.applyResourceQuota(store.namespace, labels, { ...ctx.plan, quota: rollout })
+            ),
+            await runResizeStep('LimitRange/store-limits', () =>
+                namespaceService.applyLimitRange(store.namespace, labels, ctx.plan)
+            )
+        );
+        await storeStorage.update(storeId, { resizeProgress: progress });
+
+        signal?.throwIfAborted();
+        progress.steps.push(...(await abortable(engineRegistry.get(store.engine).resize(ctx), signal)));
+
+        // Lowered under pods that didn't finish rolling, the quota would block their rollout for good
+        if (lowered) {
+            signal?.throwIfAborted();
+            const rolled = progress.steps.every((step) => step.status !== ResizeStepStatus.FAILED);
+            progress.steps.push(
+                await runResizeStep('ResourceQuota/store-quota (lowered)', async () => {
+                    if (!rolled) {
+                        return 'Kept at the larger size until every workload is resized';
+                    }
+                    await namespaceService.applyResourceQuota(store.namespace, labels, ctx.plan);
+                    return undefined;
+                })
+            );
+        }
+
+        return this.finishResize(store, progress);
+    }
+
+    // Gives up on a resize whose job kept dying mid-run
+    async abandonResize(storeId: string, reason: string): Promise<void> {
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.RESIZING) {
+            return;
+        }
+
+        const progress = store.resizeProgress ?? {
+            fromPlan: store.plan,
+            toPlan: store.plan,
+            startedAt: new Date().toISOString(),
+            steps: [],
+        };
+        progress.steps.push({ resource: 'resize', status: ResizeStepStatus.FAILED, message: reason });
+
+        await this.finishResize(store, progress);
+    }
+
+    private async finishResize(store: Store, progress: ResizeProgress): Promise<boolean> {
+        const log = createStoreLogger(store.id);
+        const failed = progress.steps.filter((step) => step.status === ResizeStepStatus.FAILED);
+        progress.completedAt = new Date().toISOString();
+
+        const errorMessage = failed.length
+            ? `Resize to '${progress.toPlan}' incomplete: ` +
+              failed.map((step) => `${step.resource}: ${step.message}`).join('; ')
+            : undefined;
+
+        // A store that was DEGRADED comes back READY too; the health prober re-checks it from there
+        await storeStorage.update(store.id, {
+            status: StoreStatus.READY,
+            resizeProgress: progress,
+            errorMessage,
+            healthReason: undefined,
+        });
+
+        if (failed.length) {
+            log.warn({ failed }, 'Store resize partially failed');
+        } else {
+            log.info({ plan: progress.toPlan }, 'Store resized');
+        }
+
+        auditLogger.record({
+            action: failed.length ? AuditAction.STORE_RESIZE_FAILED : AuditAction.STORE_RESIZE_SUCCEEDED,
+            storeId: store.id,
+            storeName: store.name,
+            engine: store.engine,
+            duration: Date.now() - new Date(progress.startedAt).getTime(),
+            details: { from: progress.fromPlan, to: progress.toPlan, failed: failed.map((step) => step.resource) },
+        });
+
+        return failed.length === 0;
+    }
+
+    // Queues a backup of a READY or DEGRADED store; ProvisioningWorker runs runBackup(). The store's
+    // status doesn't change and other operations aren't blocked while it runs.
+    async createBackup(
+        storeId: string,
+        tenantId?: string,
+        requestedBy?: string
+    ): Promise<{ success: boolean; backup?: Backup; error?: string }> {
+        const store = await this.getStore(storeId, tenantId);
         if (!store) {
             return { success: false, error: 'Store not found' };
         }
 
-        if (store.status === StoreStatus.DELETED) {
-            return { success: true }; // Already deleted
+        if (!BACKUP_ENGINES.includes(store.engine)) {
+            return { success: false, error: `Backups are not supported for ${store.engine} stores` };
+        }
+
+        if (!isRunningState(store.status)) {
+            return { success: false, error: `Only ready or degraded stores can be backed up (current status: ${store.status})` };
+        }
+
+        const backup = await this.queueBackup(store, BackupTrigger.MANUAL, requestedBy);
+        if (!backup) {
+            return { success: false, error: 'A backup of this store is already in progress' };
+        }
+
+        return { success: true, backup };
+    }
+
+    // Queues a scheduled backup for every READY or DEGRADED store whose last backup is older than backupIntervalHours.
+    // Called periodically by ProvisioningWorker. Returns how many were queued.
+    async queueScheduledBackups(): Promise<number> {
+        if (!config.backupS3Bucket || config.backupIntervalHours === 0) {
+            return 0;
+        }
+
+        const stores = await storeStorage.findStoresDueForBackup(
+            config.backupIntervalHours * 60 * 60 * 1000,
+            BACKUP_ENGINES
+        );
+
+        let queued = 0;
+        for (const store of stores) {
+            // Null if another replica queued it first
+            if (await this.queueBackup(store, BackupTrigger.SCHEDULED)) {
+                queued++;
+            }
+        }
+        return queued;
+    }
+
+    private async queueBackup(store: Store, trigger: BackupTrigger, requestedBy?: string): Promise<Backup | null> {
+        const backupId = uuidv4().slice(0, 8);
+
+        const backup = await backupRepository.createWithJob({
+            id: backupId,
+            storeId: store.id,
+            tenantId: store.tenantId,
+            trigger,
+            status: BackupStatus.PENDING,
+            objectPrefix: getBackupObjectPrefix(store.id, backupId),
+            requestedBy,
+            createdAt: new Date(),
+        });
+
+        if (backup) {
+            createStoreLogger(store.id).info({ backupId, trigger }, 'Queued store backup');
+        }
+        return backup;
+    }
+
+    // Runs a queued backup. Called by ProvisioningWorker for a claimed backup job. Backups beyond
+    // backupRetention are deleted from the bucket by the same Job. Returns true if the backup succeeded.
+    async runBackup(backupId: string, signal?: AbortSignal): Promise<boolean> {
+        const backup = await backupRepository.findById(backupId);
+        if (!backup || (backup.status !== BackupStatus.PENDING && backup.status !== BackupStatus.RUNNING)) {
+            logger.warn({ backupId, status: backup?.status }, 'Backup is not pending  nothing to do');
+            return backup?.status === BackupStatus.SUCCEEDED;
+        }
+
+        const log = createStoreLogger(backup.storeId);
+        const store = await storeStorage.findById(backup.storeId);
+        if (!store || store.status === StoreStatus.DELETING || store.status === StoreStatus.DELETED) {
+            await this.failBackup(backup, store, 'Store was deleted before the backup ran');
+            return false;
         }
 
-        log.info('Starting store deletion');
+        await backupRepository.markRunning(backup.id);
+        log.info({ backupId }, 'Backing up store');
+
+        // This backup will count towards retention once it succeeds
+        const expired = await backupRepository.findPrunable(store.id, config.backupRetention - 1);
 
         try {
-            // Mark as deleting
-            await storeStorage.update(storeId, {
-                status: StoreStatus.DELETING,
+            await abortable(backupService.backup(
+                backupJobConfig(store, `backup-${backup.id}`, backup.objectPrefix),
+                expired.map((old) => old.objectPrefix)
+            ), signal);
+
+            await backupRepository.complete(backup.id, BackupStatus.SUCCEEDED);
+            await backupRepository.markExpired(expired.map((old) => old.id));
+
+            const duration = Date.now() - backup.createdAt.getTime();
+            log.info({ backupId, duration, expired: expired.length }, 'Store backed up');
+
+            auditLogger.record({
+                action: AuditAction.STORE_BACKUP_SUCCEEDED,
+                storeId: store.id,
+                storeName: store.name,
+                engine: store.engine,
+                duration,
+                details: { backupId, trigger: backup.trigger, expired: expired.map((old) => old.id) },
             });
 
-            // Delete namespace (cascades all resources)
-            await namespaceService.deleteNamespace(store.namespace);
+            return true;
 
-            // Wait for namespace to be fully deleted
-            await namespaceService.waitForDeletion(store.namespace, 60000);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await this.failBackup(backup, store, errorMessage, error);
+            return false;
+        }
+    }
 
-            // Mark as deleted (soft delete)
-            await storeStorage.softDelete(storeId);
+    // Gives up on a backup whose job kept dying mid-run
+    async abandonBackup(backupId: string, reason: string): Promise<void> {
+        const backup = await backupRepository.findById(backupId);
+        if (!backup || (backup.status !== BackupStatus.PENDING && backup.status !== BackupStatus.RUNNING)) {
+            return;
+        }
 
-            log.info('Store deleted successfully');
+        await this.failBackup(backup, await storeStorage.findById(backup.storeId), reason);
+    }
 
-            return { success: true };
+    private async failBackup(backup: Backup, store: Store | null, errorMessage: string, error?: unknown): Promise<void> {
+        createStoreLogger(backup.storeId).error({ err: error, backupId: backup.id }, 'Store backup failed');
 
+        await backupRepository.complete(backup.id, BackupStatus.FAILED, errorMessage);
+
+        auditLogger.record({
+            action: AuditAction.STORE_BACKUP_FAILED,
+            storeId: backup.storeId,
+            storeName: store?.name,
+            engine: store?.engine,
+            details: { backupId: backup.id, trigger: backup.trigger, error: errorMessage },
+        });
+    }
+
+    // Newest first; null if the store is missing (or another tenant's)
+    async listBackups(storeId: string, tenantId?: string): Promise<Backup[] | null> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return null;
+        }
+        return backupRepository.findByStore(store.id);
+    }
+
+    // Recent READY ⇄ DEGRADED changes, newest first (null if the store isn't visible to the tenant)
+    async listHealthEvents(storeId: string, tenantId?: string): Promise<StoreHealthEvent[] | null> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return null;
+        }
+        return storeHealthRepository.findByStore(store.id);
+    }
+
+    // Latest diagnostic bundle of a store. Undefined if the store doesn't exist, null if it never failed.
+    async getDiagnostics(storeId: string, tenantId?: string): Promise<DiagnosticBundle | null | undefined> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return undefined;
+        }
+        return storeDiagnosticsRepository.findLatest(store.id);
+    }
+
+    // Opens a log stream of one of the store's components (see EngineDriver.logComponents)
+    async streamLogs(
+        storeId: string,
+        tenantId: string | undefined,
+        query: StoreLogsQuery,
+        handlers: LogStreamHandlers
+    ): Promise<LogStreamResult> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return { success: false, code: 'NOT_FOUND', error: `Store ${storeId} not found` };
+        }
+
+        const { logComponents } = engineRegistry.get(store.engine);
+        const component = Object.prototype.hasOwnProperty.call(logComponents, query.component)
+            ? logComponents[query.component]
+            : undefined;
+        if (!component) {
+            return {
+                success: false,
+                code: 'UNKNOWN_COMPONENT',
+                error: `Unknown component '${query.component}' for ${store.engine} stores (expected one of: ${Object.keys(logComponents).join(', ')})`,
+            };
+        }
+
+        const pod = await podLogService.findPod(store.namespace, component.labelSelector, query.pod);
+        const podName = pod?.metadata?.name;
+        if (!podName) {
+            return {
+                success: false,
+                code: 'POD_NOT_FOUND',
+                error: query.pod
+                    ? `Pod ${query.pod} is not a ${query.component} pod of store ${storeId}`
+                    : `No ${query.component} pod is running for store ${storeId}`,
+            };
+        }
+
+        const container = query.container ?? component.container;
+        const sinceSeconds = query.sinceTime
+            ? Math.max(1, Math.ceil((Date.now() - new Date(query.sinceTime).getTime()) / 1000))
+            : query.sinceSeconds;
+
+        try {
+            const close = await podLogService.stream(
+                store.namespace,
+                podName,
+                container,
+                {
+                    follow: query.follow,
+                    tailLines: query.tailLines,
+                    sinceSeconds,
+                    timestamps: query.timestamps,
+                    previous: query.previous,
+                },
+                handlers
+            );
+            return { success: true, close, pod: podName, container };
+        } catch (error) {
+            // K8s refuses the request itself (unknown container, no previous run, container not started yet)
+            const status = getK8sErrorStatusCode(error);
+            if (status === 400 || status === 404) {
+                const body = (error as { body?: { message?: string } }).body;
+                return { success: false, code: 'LOG_UNAVAILABLE', error: body?.message ?? `Logs of ${podName}/${container} are unavailable` };
+            }
+            throw error;
+        }
+    }
+
+    // Phases and steps of every provisioning attempt, oldest first. Null if the store doesn't exist.
+    async getTimeline(storeId: string, tenantId?: string): Promise<ProvisioningEvent[] | null> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return null;
+        }
+        return provisioningTimeline.list(store.id);
+    }
+
+    // Moves a READY or DEGRADED store to RESTORING and queues a restore job; ProvisioningWorker runs
+    // runRestore(). Throws InvalidTransitionError if the store isn't running.
+    async restoreStore(
+        storeId: string,
+        backupId: string,
+        tenantId?: string
+    ): Promise<{ success: boolean; store?: Store; error?: string }> {
+        const log = createStoreLogger(storeId);
+
+        const store = await this.getStore(storeId, tenantId);
+        if (!store) {
+            return { success: false, error: 'Store not found' };
+        }
+
+        const backup = await backupRepository.findById(backupId);
+        if (!backup || backup.storeId !== store.id) {
+            return { success: false, error: `Backup ${backupId} not found for store ${storeId}` };
+        }
+
+        if (backup.status !== BackupStatus.SUCCEEDED) {
+            return { success: false, error: `Backup ${backupId} is ${backup.status}  only succeeded backups can be restored` };
+        }
+
+        if (!canTransitionTo(store.status, StoreStatus.RESTORING)) {
+            throw new InvalidTransitionError(storeId, store.status, StoreStatus.RESTORING);
+        }
+
+        if (await backupRepository.findActive(store.id)) {
+            return { success: false, error: 'A backup of this store is in progress  restore once it finishes' };
+        }
+
+        log.info({ backupId }, 'Queueing store restore');
+
+        const updated = await storeStorage.beginRestore(store, {
+            backupId,
+            backupCreatedAt: backup.createdAt.toISOString(),
+            startedAt: new Date().toISOString(),
+        });
+
+        return { success: true, store: updated };
+    }
+
+    // Runs a queued restore. Called by ProvisioningWorker for a claimed restore job. The store returns
+    // to READY either way; a failure is reported in errorMessage. Returns true if the restore succeeded.
+    async runRestore(storeId: string, signal?: AbortSignal): Promise<boolean> {
+        const log = createStoreLogger(storeId);
+
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.RESTORING || !store.restoreProgress) {
+            log.warn({ status: store?.status }, 'Store is not restoring  nothing to do');
+            return store?.status === StoreStatus.READY;
+        }
+
+        const progress = store.restoreProgress;
+        const backup = await backupRepository.findById(progress.backupId);
+        if (!backup) {
+            return this.finishRestore(store, progress, `Backup ${progress.backupId} no longer exists`);
+        }
+
+        log.info({ backupId: backup.id, backupCreatedAt: progress.backupCreatedAt }, 'Restoring store from backup');
+
+        try {
+            // One K8s Job per restore request; a resumed job finds the Job it already started
+            const jobName = `restore-${backup.id}-${Math.floor(new Date(progress.startedAt).getTime() / 1000).toString(36)}`;
+            await abortable(backupService.restore(backupJobConfig(store, jobName, backup.objectPrefix)), signal);
+            return this.finishRestore(store, progress);
         } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            log.error({ err: error }, 'Store restore failed');
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            log.error({ err: error }, 'Store deletion failed');
+            return this.finishRestore(store, progress, errorMessage);
+        }
+    }
 
-            // Revert to failed state if deletion fails
-            await storeStorage.update(storeId, {
-                status: StoreStatus.FAILED,
-                errorMessage: `Deletion failed: ${errorMessage}`,
-            });
+    // Gives up on a restore whose job kept dying mid-run
+    async abandonRestore(storeId: string, reason: string): Promise<void> {
+        const store = await storeStorage.findById(storeId);
+        if (!store || store.status !== StoreStatus.RESTORING || !store.restoreProgress) {
+            return;
+        }
+
+        await this.finishRestore(store, store.restoreProgress, reason);
+    }
+
+    private async finishRestore(store: Store, progress: RestoreProgress, errorMessage?: string): Promise<boolean> {
+        const log = createStoreLogger(store.id);
+        progress.completedAt = new Date().toISOString();
+        progress.error = errorMessage;
+
+        await storeStorage.update(store.id, {
+            status: StoreStatus.READY,
+            restoreProgress: progress,
+            errorMessage: errorMessage
+                ? `Restore from backup ${progress.backupId} failed: ${errorMessage}`
+                : undefined,
+            healthReason: undefined,
+        });
+
+        if (!errorMessage) {
+            log.info({ backupId: progress.backupId }, 'Store restored');
+        }
+
+        auditLogger.record({
+            action: errorMessage ? AuditAction.STORE_RESTORE_FAILED : AuditAction.STORE_RESTORE_SUCCEEDED,
+            storeId: store.id,
+            storeName: store.name,
+            engine: store.engine,
+            duration: Date.now() - new Date(progress.startedAt).getTime(),
+            details: { backupId: progress.backupId, backupCreatedAt: progress.backupCreatedAt, error: errorMessage },
+        });
 
-            return { success: false, error: errorMessage };
+        return !errorMessage;
+    }
+
+    // With a tenantId, another tenant's store is reported as not found
+    async getStore(storeId: string, tenantId?: string): Promise<Store | null> {
+        const store = await storeStorage.findById(storeId);
+        if (store && tenantId && store.tenantId !== tenantId) {
+            return null;
         }
+        return store;
     }
 
-    async getStore(storeId: string): Promise<Store | null> {
-        return storeStorage.findById(storeId);
+    // Null if the store is missing (or another tenant's) or its admin Secret does not exist yet
+    async getAdminCredentials(storeId: string, tenantId?: string): Promise<AdminCredentials | null> {
+        const store = await this.getStore(storeId, tenantId);
+        if (!store || store.status === StoreStatus.DELETED) {
+            return null;
+        }
+
+        return engineRegistry.get(store.engine).getAdminCredentials(
+            engineContext(store, createStoreLogger(storeId))
+        );
     }
 
-    async listStores(): Promise<Store[]> {
-        return storeStorage.findAll();
+    async listStores(filter: StoreFilter, tenantId?: string): Promise<StoreListResponse> {
+        return storeStorage.findPage(filter, tenantId);
     }
 }
 
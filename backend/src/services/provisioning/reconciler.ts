@@ -0,0 +1,229 @@
+// Drift reconciler. The orchestrator only touches K8s while a job runs, so objects deleted by hand
+// later go unnoticed. Each pass compares READY (and DEGRADED) stores with the objects their phases create, re-runs
+// the (idempotent) phases whose objects are missing, and flags store namespaces with no live store row.
+// Every pass is saved as a DriftReport (GET /api/drift).
+
+import * as k8s from '@kubernetes/client-node';
+import { config } from '../../config/index.js';
+import { logger, createStoreLogger } from '../../utils/logger.js';
+import { namespaceService, NAMESPACE_RESOURCES } from '../k8s/namespace.js';
+import { inventoryService } from '../k8s/inventory.js';
+import { engineRegistry } from '../engines/registry.js';
+import { engineContext } from '../engines/driver.js';
+import { storeRepository, driftReportRepository } from '../database/index.js';
+import { auditLogger, AuditAction } from '../audit/auditLogger.js';
+import { Store, ProvisioningPhase, isRunningState } from '../../models/store.js';
+import { DriftReport, StoreDrift, OrphanNamespace, ExpectedResource } from '../../models/drift.js';
+
+function describe(resource: ExpectedResource): string {
+    return `${resource.kind}/${resource.name}`;
+}
+
+export class StoreReconciler {
+    private log = logger.child({ service: 'StoreReconciler' });
+    private timer: NodeJS.Timeout | null = null;
+    private pass: Promise<DriftReport> | null = null;
+
+    start(): void {
+        if (config.reconcileIntervalMs === 0) {
+            this.log.info('Periodic reconciliation disabled (RECONCILE_INTERVAL_MS=0)');
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.reconcile().catch((err) => this.log.error({ err }, 'Reconcile pass failed'));
+        }, config.reconcileIntervalMs);
+
+        this.log.info(
+            { intervalMs: config.reconcileIntervalMs, repair: config.reconcileRepair },
+            'Store reconciler started'
+        );
+    }
+
+    // A pass in progress is left to finish  its repairs are idempotent, like provisioning
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Runs a pass now, or joins the one already running on this replica
+    reconcile(): Promise<DriftReport> {
+        if (!this.pass) {
+            this.pass = this.run().finally(() => {
+                this.pass = null;
+            });
+        }
+        return this.pass;
+    }
+
+    private async run(): Promise<DriftReport> {
+        const startedAt = new Date().toISOString();
+
+        const [namespaces, stores] = await Promise.all([
+            namespaceService.listStoreNamespaces(),
+            storeRepository.findLive(),
+        ]);
+        const existing = new Set(namespaces.map((ns) => ns.metadata?.name));
+        const running = stores.filter((store) => isRunningState(store.status));
+
+        const drifted: StoreDrift[] = [];
+        const errors: string[] = [];
+
+        // One store at a time  a pass shouldn't compete with provisioning for the API server
+        for (const store of running) {
+            try {
+                const drift = await this.checkStore(store, existing.has(store.namespace));
+                if (drift) {
+                    drifted.push(drift);
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                errors.push(`${store.id}: ${message}`);
+                this.log.warn({ err: error, storeId: store.id }, 'Could not check store for drift');
+            }
+        }
+
+        const report: DriftReport = {
+            startedAt,
+            completedAt: new Date().toISOString(),
+            repair: config.reconcileRepair,
+            storesChecked: running.length,
+            drifted,
+            orphanNamespaces: await this.findOrphans(namespaces, stores),
+            errors,
+        };
+
+        await driftReportRepository.save(report);
+
+        const summary = {
+            storesChecked: report.storesChecked,
+            drifted: drifted.length,
+            orphanNamespaces: report.orphanNamespaces.length,
+            errors: errors.length,
+        };
+        if (drifted.length || report.orphanNamespaces.length || errors.length) {
+            this.log.warn(summary, 'Reconcile pass found drift');
+        } else {
+            this.log.debug(summary, 'Reconcile pass found no drift');
+        }
+
+        return report;
+    }
+
+    // Null if every expected object exists
+    private async checkStore(store: Store, namespaceExists: boolean): Promise<StoreDrift | null> {
+        const driver = engineRegistry.get(store.engine);
+        const expected = [...NAMESPACE_RESOURCES, ...driver.resources];
+
+        const drift: StoreDrift = {
+            storeId: store.id,
+            storeName: store.name,
+            namespace: store.namespace,
+            engine: store.engine,
+            missing: [],
+            repaired: [],
+            manual: [],
+        };
+
+        // The store's data went with the namespace  recreating empty workloads would only hide that
+        if (!namespaceExists) {
+            drift.missing = [`Namespace/${store.namespace}`, ...expected.map(describe)];
+            drift.manual = drift.missing;
+            createStoreLogger(store.id).error('Store namespace is missing');
+            return drift;
+        }
+
+        const missing = await inventoryService.findMissing(store.namespace, expected);
+        if (!missing.length) {
+            return null;
+        }
+
+        const log = createStoreLogger(store.id);
+        drift.missing = missing.map(describe);
+        log.warn({ missing: drift.missing }, 'Store is missing expected resources');
+
+        // Re-running a phase recreates everything it owns, so a phase missing an unrepairable object
+        // (e.g. a generated password Secret) is left alone entirely
+        const blocked = new Set(missing.filter((resource) => !resource.repairable).map((resource) => resource.phase));
+        drift.manual = missing.filter((resource) => blocked.has(resource.phase)).map(describe);
+
+        const phases = [ProvisioningPhase.NAMESPACE, ...driver.phases].filter(
+            (phase) => !blocked.has(phase) && missing.some((resource) => resource.phase === phase)
+        );
+        if (!config.reconcileRepair || !phases.length) {
+            return drift;
+        }
+
+        // A store that left READY/DEGRADED since the pass started is being changed by a job  leave it to that
+        const current = await storeRepository.findById(store.id);
+        if (!current || !isRunningState(current.status)) {
+            return drift;
+        }
+
+        const ctx = engineContext(store, log);
+        try {
+            for (const phase of phases) {
+                if (phase === ProvisioningPhase.NAMESPACE) {
+                    await namespaceService.createNamespace(
+                        store.namespace,
+                        { storeId: store.id, storeName: store.name, engine: store.engine },
+                        ctx.plan
+                    );
+                } else {
+                    await driver.deploy(phase, ctx);
+                }
+                drift.repaired.push(...missing.filter((resource) => resource.phase === phase).map(describe));
+            }
+        } catch (error) {
+            drift.error = error instanceof Error ? error.message : 'Unknown error';
+            log.error({ err: error }, 'Drift repair failed');
+        }
+
+        if (drift.repaired.length) {
+            log.info({ repaired: drift.repaired }, 'Recreated missing store resources');
+
+            auditLogger.record({
+                action: AuditAction.STORE_DRIFT_REPAIRED,
+                storeId: store.id,
+                storeName: store.name,
+                engine: store.engine,
+                details: { repaired: drift.repaired, manual: drift.manual, error: drift.error },
+            });
+        }
+
+        return drift;
+    }
+
+    // Store namespaces (by label) with no live store row. Terminating ones are just finishing a deletion.
+    private async findOrphans(namespaces: k8s.V1Namespace[], stores: Store[]): Promise<OrphanNamespace[]> {
+        const live = new Set(stores.map((store) => store.namespace));
+        const orphans: OrphanNamespace[] = [];
+
+        for (const ns of namespaces) {
+            const name = ns.metadata?.name;
+            if (!name || live.has(name) || ns.status?.phase === 'Terminating') {
+                continue;
+            }
+
+            const storeId = ns.metadata?.labels?.['urumi.ai/store-id'];
+            const deleted = storeId ? await storeRepository.findById(storeId) : null;
+
+            orphans.push({
+                name,
+                storeId,
+                reason: deleted ? 'store deleted' : 'no store row',
+                createdAt: ns.metadata?.creationTimestamp?.toISOString(),
+            });
+        }
+
+        if (orphans.length) {
+            this.log.warn({ namespaces: orphans.map((orphan) => orphan.name) }, 'Found store namespaces without a live store');
+        }
+        return orphans;
+    }
+}
+
+// Export singleton
+export const storeReconciler = new StoreReconciler();
@@ -0,0 +1,67 @@
+// Provisioning timeline recorder. Wraps each phase run by the orchestrator so that the phase and the
+// steps marked inside it (timelineStep) are stored in provisioning_events with their outcome.
+// Recording is best-effort: a failed write is logged and never fails provisioning.
+
+import { logger } from '../../utils/logger.js';
+import { withTimeline } from '../../utils/timeline.js';
+import { provisioningEventRepository } from '../database/index.js';
+import { ProvisioningEvent, StepOutcome, TimelinePhase } from '../../models/timeline.js';
+
+export class ProvisioningTimeline {
+    private log = logger.child({ service: 'ProvisioningTimeline' });
+
+    // Runs one phase, recording it and every step inside it
+    phase<T>(storeId: string, phase: TimelinePhase, fn: () => Promise<T>): Promise<T> {
+        return this.record(storeId, phase, undefined, () =>
+            withTimeline((step, stepFn) => this.record(storeId, phase, step, stepFn), fn)
+        );
+    }
+
+    // Closes steps a crashed attempt left running, before a new attempt starts its own
+    async interrupt(storeId: string): Promise<void> {
+        try {
+            await provisioningEventRepository.interruptRunning(storeId);
+        } catch (err) {
+            this.log.warn({ err, storeId }, 'Failed to close interrupted timeline steps');
+        }
+    }
+
+    list(storeId: string): Promise<ProvisioningEvent[]> {
+        return provisioningEventRepository.findByStore(storeId);
+    }
+
+    private async record<T>(
+        storeId: string,
+        phase: TimelinePhase,
+        step: string | undefined,
+        fn: () => Promise<T>
+    ): Promise<T> {
+        const eventId = await provisioningEventRepository.start(storeId, phase, step).catch((err) => {
+            this.log.warn({ err, storeId, phase, step }, 'Failed to record timeline step');
+            return null;
+        });
+
+        try {
+            const result = await fn();
+            await this.finish(eventId, StepOutcome.SUCCEEDED);
+            return result;
+        } catch (error) {
+            await this.finish(eventId, StepOutcome.FAILED, error instanceof Error ? error.message : String(error));
+            throw error;
+        }
+    }
+
+    private async finish(eventId: number | null, outcome: StepOutcome, error?: string): Promise<void> {
+        if (eventId === null) {
+            return;
+        }
+        try {
+            await provisioningEventRepository.finish(eventId, outcome, error);
+        } catch (err) {
+            this.log.warn({ err, eventId }, 'Failed to record timeline step outcome');
+        }
+    }
+}
+
+// Export singleton
+export const provisioningTimeline = new ProvisioningTimeline();
@@ -0,0 +1,198 @@
+// Durable provisioning worker. Claims jobs from provisioning_jobs under a lease,
+// heartbeats while the orchestrator runs, and picks up jobs whose owner stopped heartbeating.
+// Runs provision, delete, resize, backup and restore jobs (job.kind), and queues scheduled backups.
+
+import os from 'os';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { withSpan, contextFromTraceParent } from '../../utils/tracing.js';
+import { storeRepository } from '../database/index.js';
+import { provisioningOrchestrator } from './orchestrator.js';
+import { JobKind, JobStatus, ProvisioningJob, LeaseLostError } from '../../models/job.js';
+
+const JOB_LABELS: Record<JobKind, string> = {
+    [JobKind.PROVISION]: 'Provisioning',
+    [JobKind.DELETE]: 'Deletion',
+    [JobKind.RESIZE]: 'Resize',
+    [JobKind.BACKUP]: 'Backup',
+    [JobKind.RESTORE]: 'Restore',
+};
+
+// How often stores are checked for a due scheduled backup
+const BACKUP_SCHEDULE_CHECK_MS = 60000;
+
+export class ProvisioningWorker {
+    private readonly workerId = `${os.hostname()}-${process.pid}`;
+    private log = logger.child({ service: 'ProvisioningWorker', workerId: this.workerId });
+    private timer: NodeJS.Timeout | null = null;
+    private backupTimer: NodeJS.Timeout | null = null;
+    private inFlight = new Map<number, Promise<void>>();
+    private stopping = false;
+
+    async start(): Promise<void> {
+        // Stores stuck in PROVISIONING without a job get one; expired leases are claimed by poll()
+        const requeued = await storeRepository.enqueueOrphanedStores();
+        const expired = await storeRepository.countExpiredJobs();
+
+        this.log.info(
+            { requeued, expired, concurrency: config.provisioningConcurrency },
+            'Provisioning worker started'
+        );
+
+        this.schedule(0);
+        this.backupTimer = setInterval(() => this.queueScheduledBackups(), BACKUP_SCHEDULE_CHECK_MS);
+    }
+
+    async stop(): Promise<void> {
+        this.stopping = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.backupTimer) {
+            clearInterval(this.backupTimer);
+            this.backupTimer = null;
+        }
+
+        // Hand in-flight jobs back so another replica resumes them without waiting for the lease
+        const jobIds = [...this.inFlight.keys()];
+        await Promise.all(jobIds.map((id) => storeRepository.releaseJob(id, this.workerId)));
+
+        this.log.info({ released: jobIds.length }, 'Provisioning worker stopped');
+    }
+
+    private schedule(delayMs: number): void {
+        this.timer = setTimeout(() => {
+            this.poll().finally(() => {
+                if (!this.stopping) {
+                    this.schedule(config.jobPollIntervalMs);
+                }
+            });
+        }, delayMs);
+    }
+
+    private async poll(): Promise<void> {
+        try {
+            while (!this.stopping && this.inFlight.size < config.provisioningConcurrency) {
+                const job = await storeRepository.claimJob(this.workerId, config.jobLeaseMs);
+                if (!job) {
+                    return;
+                }
+
+                const run = this.execute(job).finally(() => this.inFlight.delete(job.id));
+                this.inFlight.set(job.id, run);
+            }
+        } catch (error) {
+            this.log.error({ err: error }, 'Failed to claim provisioning job');
+        }
+    }
+
+    private async queueScheduledBackups(): Promise<void> {
+        try {
+            const queued = await provisioningOrchestrator.queueScheduledBackups();
+            if (queued > 0) {
+                this.log.info({ queued }, 'Queued scheduled backups');
+            }
+        } catch (error) {
+            this.log.error({ err: error }, 'Failed to queue scheduled backups');
+        }
+    }
+
+    private async execute(job: ProvisioningJob): Promise<void> {
+        const log = this.log.child({ jobId: job.id, storeId: job.storeId, kind: job.kind, attempt: job.attempts });
+
+        log.info('Claimed provisioning job');
+
+        // Aborted when a heartbeat finds the lease gone  the job must not keep running alongside the
+        // worker that reclaimed it
+        const lease = new AbortController();
+
+        const heartbeat = setInterval(() => {
+            storeRepository.heartbeatJob(job.id, this.workerId, config.jobLeaseMs)
+                .then((held) => {
+                    if (!held && !lease.signal.aborted) {
+                        log.warn('Lost job lease  stopping the job, another worker resumes this store');
+                        lease.abort(new LeaseLostError(job.id));
+                    }
+                })
+                .catch((err) => log.warn({ err }, 'Job heartbeat failed'));
+        }, Math.floor(config.jobLeaseMs / 3));
+
+        // Continues the trace of the request that queued the job; scheduled and resumed jobs start their own
+        const attributes = { 'job.id': job.id, 'job.kind': job.kind, 'job.attempt': job.attempts, 'store.id': job.storeId };
+
+        try {
+            await withSpan(`job.${job.kind}`, attributes, async (span) => {
+                if (job.attempts > config.maxJobAttempts) {
+                    const reason = `${JOB_LABELS[job.kind]} abandoned after ${job.attempts - 1} interrupted attempts`;
+                    log.error(reason);
+                    await this.abandon(job, reason);
+                    await storeRepository.completeJob(job.id, this.workerId, JobStatus.FAILED, reason);
+                    span.setAttribute('job.abandoned', true);
+                    return;
+                }
+
+                const succeeded = await this.run(job, lease.signal);
+                span.setAttribute('job.succeeded', succeeded);
+
+                await storeRepository.completeJob(
+                    job.id,
+                    this.workerId,
+                    succeeded ? JobStatus.SUCCEEDED : JobStatus.FAILED
+                );
+
+                log.info({ succeeded }, 'Job finished');
+            }, {}, contextFromTraceParent(job.traceParent));
+        } catch (error) {
+            // The job is someone else's now  neither complete nor requeue it
+            if (lease.signal.aborted) {
+                log.warn({ err: error }, 'Job stopped after losing its lease');
+                return;
+            }
+
+            // Unexpected (e.g. DB outage)  requeue; maxJobAttempts bounds the retries.
+            // If the release also fails, the lease expires and the job is reclaimed anyway.
+            log.error({ err: error }, 'Provisioning job crashed  requeueing');
+            try {
+                await storeRepository.releaseJob(job.id, this.workerId);
+            } catch (releaseError) {
+                log.error({ err: releaseError }, 'Failed to requeue job');
+            }
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    private run(job: ProvisioningJob, signal: AbortSignal): Promise<boolean> {
+        switch (job.kind) {
+            case JobKind.DELETE:
+                return provisioningOrchestrator.runDeletion(job.storeId, signal);
+            case JobKind.RESIZE:
+                return provisioningOrchestrator.runResize(job.storeId, signal);
+            case JobKind.BACKUP:
+                return provisioningOrchestrator.runBackup(job.backupId!, signal);
+            case JobKind.RESTORE:
+                return provisioningOrchestrator.runRestore(job.storeId, signal);
+            default:
+                return provisioningOrchestrator.provisionStore(job.storeId, signal);
+        }
+    }
+
+    private abandon(job: ProvisioningJob, reason: string): Promise<void> {
+        switch (job.kind) {
+            case JobKind.DELETE:
+                return provisioningOrchestrator.abandonDeletion(job.storeId, reason);
+            case JobKind.RESIZE:
+                return provisioningOrchestrator.abandonResize(job.storeId, reason);
+            case JobKind.BACKUP:
+                return provisioningOrchestrator.abandonBackup(job.backupId!, reason);
+            case JobKind.RESTORE:
+                return provisioningOrchestrator.abandonRestore(job.storeId, reason);
+            default:
+                return provisioningOrchestrator.abandonProvisioning(job.storeId, reason);
+        }
+    }
+}
+
+// Export singleton
+export const provisioningWorker = new ProvisioningWorker();
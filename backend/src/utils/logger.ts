@@ -1,6 +1,7 @@
 // Pino-based structured JSON logger. Use child loggers for per-request/per-store context.
 
 import pino from 'pino';
+import { trace } from '@opentelemetry/api';
 import { config } from '../config/index.js';
 
 export const logger = pino({
@@ -22,6 +23,16 @@ export const logger = pino({
 
     timestamp: pino.stdTimeFunctions.isoTime,
 
+    // Ties log lines to the active trace (see utils/tracing.ts)
+    mixin() {
+        const span = trace.getActiveSpan();
+        if (!span?.isRecording()) {
+            return {};
+        }
+        const { traceId, spanId } = span.spanContext();
+        return { traceId, spanId };
+    },
+
     base: {
         env: config.nodeEnv,
     },
@@ -48,3 +59,5 @@ export function createRequestLogger(requestId: string) {
 }
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type StoreLogger = ReturnType<typeof createStoreLogger>;
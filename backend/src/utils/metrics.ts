@@ -0,0 +1,41 @@
+// Prometheus instruments, served in text format by GET /metrics.
+// Recorded where the work happens (request logger, withRetry, provisioning); store counts are
+// read from PostgreSQL at scrape time (see api/routes/metrics.ts).
+
+import client from 'prom-client';
+
+export const metricsRegistry = new client.Registry();
+
+// Process CPU, memory, event loop lag, GC
+client.collectDefaultMetrics({ register: metricsRegistry, prefix: 'urumi_' });
+
+export const httpRequestDuration = new client.Histogram({
+    name: 'urumi_http_request_duration_seconds',
+    help: 'API request latency',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry],
+});
+
+// One observation per phase run; a resumed store only reports the phases it re-ran
+export const provisioningPhaseDuration = new client.Histogram({
+    name: 'urumi_provisioning_phase_duration_seconds',
+    help: 'Duration of successfully completed provisioning phases',
+    labelNames: ['engine', 'phase'] as const,
+    buckets: [1, 5, 10, 30, 60, 120, 180, 300, 600, 1200],
+    registers: [metricsRegistry],
+});
+
+export const provisioningFailures = new client.Counter({
+    name: 'urumi_provisioning_failures_total',
+    help: 'Stores that failed provisioning, by the phase they failed in',
+    labelNames: ['engine', 'phase'] as const,
+    registers: [metricsRegistry],
+});
+
+export const k8sApiRetries = new client.Counter({
+    name: 'urumi_k8s_api_retries_total',
+    help: 'K8s API calls retried by withRetry, by HTTP status (or "network")',
+    labelNames: ['code'] as const,
+    registers: [metricsRegistry],
+});
@@ -1,5 +1,9 @@
 // Retry with exponential backoff + jitter for transient K8s/network failures.
-// Only retries 5xx and network errors, not 4xx.
+// Only retries 5xx and network errors, not 4xx. Every retry is counted in urumi_k8s_api_retries_total,
+// and every attempt is a trace span named after the operation.
+
+import { k8sApiRetries } from './metrics.js';
+import { withSpan } from './tracing.js';
 
 export function getK8sErrorStatusCode(error: unknown): number | undefined {
     if (typeof error === 'object' && error !== null) {
@@ -14,6 +18,9 @@ export function isK8sStatusCode(error: unknown, code: number): boolean {
 }
 
 export interface RetryOptions {
+    /** What is being attempted, e.g. 'MySQL StatefulSet creation'  names each attempt's span */
+    operation?: string;
+
     /** Maximum number of retry attempts (not counting initial attempt) */
     maxRetries?: number;
 
@@ -37,6 +44,7 @@ export interface RetryOptions {
 }
 
 const DEFAULT_OPTIONS: Required<RetryOptions> = {
+    operation: 'withRetry',
     maxRetries: 3,
     initialDelayMs: 1000,
     maxDelayMs: 30000,
@@ -55,7 +63,11 @@ export async function withRetry<T>(
 
     for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
         try {
-            return await fn();
+            return await withSpan(
+                opts.operation,
+                { 'retry.attempt': attempt + 1, 'retry.max_attempts': opts.maxRetries + 1 },
+                fn
+            );
         } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -76,6 +88,7 @@ export async function withRetry<T>(
                 delayMs = Math.floor(delayMs * jitterFactor);
             }
 
+            k8sApiRetries.inc({ code: String(getK8sErrorStatusCode(lastError) ?? 'network') });
             opts.onRetry(lastError, attempt + 1, delayMs);
             await sleep(delayMs);
         }
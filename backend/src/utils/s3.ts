@@ -0,0 +1,75 @@
+// Presigned URLs (SigV4 query signing) for single objects in the backup bucket. Store-namespace Jobs get
+// these instead of credentials: each URL allows one method on one key, and expires.
+
+import { createHash, createHmac } from 'crypto';
+import { config } from '../config/index.js';
+
+export type PresignMethod = 'GET' | 'PUT' | 'DELETE';
+
+// Max X-Amz-Expires
+const MAX_EXPIRES_SECONDS = 7 * 24 * 3600;
+
+// RFC 3986 unreserved characters stay as-is; everything else is percent-encoded
+function uriEncode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+    return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+// Path-style for a custom endpoint (MinIO needs it), virtual-hosted style for AWS
+function objectUrl(key: string): URL {
+    const path = key.split('/').map(uriEncode).join('/');
+    if (config.backupS3Endpoint) {
+        const endpoint = config.backupS3Endpoint.replace(/\/+$/, '');
+        return new URL(`${endpoint}/${uriEncode(config.backupS3Bucket!)}/${path}`);
+    }
+    return new URL(`https://${config.backupS3Bucket}.s3.${config.backupS3Region}.amazonaws.com/${path}`);
+}
+
+export function presignS3Url(method: PresignMethod, key: string, expiresSeconds: number, now = new Date()): string {
+    if (!config.backupS3Bucket || !config.backupS3AccessKeyId || !config.backupS3SecretAccessKey) {
+        throw new Error('Presigning needs BACKUP_S3_BUCKET, BACKUP_S3_ACCESS_KEY_ID and BACKUP_S3_SECRET_ACCESS_KEY');
+    }
+
+    const url = objectUrl(key);
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');   // YYYYMMDDTHHMMSSZ
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${config.backupS3Region}/s3/aws4_request`;
+
+    const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.backupS3AccessKeyId}/${scope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(Math.min(Math.max(1, Math.ceil(expiresSeconds)), MAX_EXPIRES_SECONDS)),
+        'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query)
+        .sort()
+        .map((name) => `${uriEncode(name)}=${uriEncode(query[name])}`)
+        .join('&');
+
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        canonicalQuery,
+        `host:${url.host}\n`,
+        'host',
+        'UNSIGNED-PAYLOAD',
+    ].join('\n');
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        scope,
+        createHash('sha256').update(canonicalRequest, 'utf8').digest('hex'),
+    ].join('\n');
+
+    const signingKey = hmac(
+        hmac(hmac(hmac(`AWS4${config.backupS3SecretAccessKey}`, date), config.backupS3Region), 's3'),
+        'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
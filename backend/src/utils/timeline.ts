@@ -0,0 +1,18 @@
+// Provisioning timeline steps. The orchestrator runs each phase under withTimeline() with a recorder
+// that stores every step's start, end and outcome; K8s services and WP-CLI setup mark their steps with
+// timelineStep(). Outside a recorded phase (reconciler repairs, resizes) a step just runs.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type StepRecorder = <T>(step: string, fn: () => Promise<T>) => Promise<T>;
+
+const recorders = new AsyncLocalStorage<StepRecorder>();
+
+export function withTimeline<T>(recorder: StepRecorder, fn: () => Promise<T>): Promise<T> {
+    return recorders.run(recorder, fn);
+}
+
+export function timelineStep<T>(step: string, fn: () => Promise<T>): Promise<T> {
+    const recorder = recorders.getStore();
+    return recorder ? recorder(step, fn) : fn();
+}
@@ -96,3 +96,20 @@ export function createDeadline(deadlineMs: number) {
         },
     };
 }
+
+// Rejects with the signal's reason as soon as it aborts. The operation itself can't be cancelled and
+// keeps running unobserved; callers stop at their next step instead of waiting it out.
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    signal.throwIfAborted();
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
@@ -0,0 +1,148 @@
+// OpenTelemetry tracing. Spans cover HTTP requests (traceRequests middleware), provisioning jobs and
+// their phases, withRetry attempts and WP-CLI execs. A job's spans join the trace of the request that
+// queued it (provisioning_jobs.trace_parent). OTEL_TRACES_EXPORTER picks the exporter: otlp, console,
+// file (JSON lines in OTEL_TRACES_FILE) or none. Until initTracing() runs, spans are no-ops.
+
+import fs from 'fs';
+import {
+    trace,
+    context,
+    propagation,
+    Attributes,
+    Context,
+    ROOT_CONTEXT,
+    Span,
+    SpanOptions,
+    SpanStatusCode,
+} from '@opentelemetry/api';
+import {
+    NodeTracerProvider,
+    BatchSpanProcessor,
+    SimpleSpanProcessor,
+    ConsoleSpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { SpanExporter, ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+export const tracer = trace.getTracer('urumi-api');
+
+let provider: NodeTracerProvider | null = null;
+
+// One JSON object per finished span, appended to a local file
+class FileSpanExporter implements SpanExporter {
+    constructor(private readonly path: string) {}
+
+    export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+        const lines = spans.map((span) => JSON.stringify({
+            traceId: span.spanContext().traceId,
+            spanId: span.spanContext().spanId,
+            parentSpanId: span.parentSpanContext?.spanId,
+            name: span.name,
+            startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+            durationMs: hrTimeToMilliseconds(span.duration),
+            status: span.status,
+            attributes: span.attributes,
+            events: span.events.map((event) => ({ name: event.name, attributes: event.attributes })),
+        }));
+
+        fs.appendFile(this.path, lines.join('\n') + '\n', (error) => {
+            resultCallback(error ? { code: ExportResultCode.FAILED, error } : { code: ExportResultCode.SUCCESS });
+        });
+    }
+
+    async shutdown(): Promise<void> {}
+}
+
+function createExporter(): SpanExporter {
+    switch (config.otelTracesExporter) {
+        case 'otlp':
+            return new OTLPTraceExporter({ url: `${config.otelExporterOtlpEndpoint.replace(/\/$/, '')}/v1/traces` });
+        case 'file':
+            return new FileSpanExporter(config.otelTracesFile);
+        default:
+            return new ConsoleSpanExporter();
+    }
+}
+
+export function initTracing(): void {
+    if (config.otelTracesExporter === 'none') {
+        return;
+    }
+
+    const exporter = createExporter();
+    provider = new NodeTracerProvider({
+        resource: resourceFromAttributes({
+            [ATTR_SERVICE_NAME]: config.otelServiceName,
+            [ATTR_SERVICE_VERSION]: '1.0.0',
+        }),
+        // Console output is for watching locally, so don't batch it
+        spanProcessors: [
+            config.otelTracesExporter === 'console'
+                ? new SimpleSpanProcessor(exporter)
+                : new BatchSpanProcessor(exporter),
+        ],
+    });
+
+    // Async context (so spans nest across awaits) + W3C traceparent propagation
+    provider.register();
+
+    logger.info(
+        {
+            exporter: config.otelTracesExporter,
+            endpoint: config.otelTracesExporter === 'otlp' ? config.otelExporterOtlpEndpoint : undefined,
+            file: config.otelTracesExporter === 'file' ? config.otelTracesFile : undefined,
+        },
+        'Tracing enabled'
+    );
+}
+
+// Flushes buffered spans
+export async function shutdownTracing(): Promise<void> {
+    await provider?.shutdown();
+}
+
+// Runs fn in a new active span, recording a thrown error on it
+export function withSpan<T>(
+    name: string,
+    attributes: Attributes,
+    fn: (span: Span) => Promise<T>,
+    options: SpanOptions = {},
+    parent: Context = context.active()
+): Promise<T> {
+    return tracer.startActiveSpan(name, { ...options, attributes }, parent, async (span) => {
+        try {
+            return await fn(span);
+        } catch (error) {
+            recordSpanError(span, error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
+
+export function recordSpanError(span: Span, error: unknown): void {
+    if (error instanceof Error) {
+        span.recordException(error);
+    }
+    span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+    });
+}
+
+// W3C traceparent of the active span, stored with queued jobs (undefined when not tracing)
+export function currentTraceParent(): string | undefined {
+    const carrier: Record<string, string> = {};
+    propagation.inject(context.active(), carrier);
+    return carrier.traceparent;
+}
+
+export function contextFromTraceParent(traceParent?: string): Context {
+    return traceParent ? propagation.extract(ROOT_CONTEXT, { traceparent: traceParent }) : ROOT_CONTEXT;
+}
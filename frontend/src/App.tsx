@@ -1,17 +1,64 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { StoreList } from './components/StoreList';
 import { CreateStoreModal } from './components/CreateStoreModal';
 import { useStores } from './hooks/useStores';
+import { useAuth } from './hooks/useAuth';
+import { LoginForm } from './components/LoginForm';
 import { DashboardStats } from './components/DashboardStats';
-import { CreateStoreRequest } from './types/store';
-import { Plus } from 'lucide-react';
+import { CreateStoreRequest, StorePlan } from './types/store';
+import { Principal, Permission, TenantQuota } from './types/auth';
+import { api } from './services/api';
+import { Plus, LogOut } from 'lucide-react';
 import urumiLogo from './assets/urumi-logo.png';
 import Squares from './components/Squares';
 import './App.css';
 
-function App() {
-  const { stores, loading, error, createStore, deleteStore, refresh, deleting, creating } = useStores();
+interface DashboardProps {
+  principal: Principal;
+  can: (permission: Permission) => boolean;
+  authEnabled: boolean;
+  onLogout: () => void;
+}
+
+function Dashboard({ principal, can, authEnabled, onLogout }: DashboardProps) {
+  const {
+    stores,
+    total,
+    statusCounts,
+    query,
+    setQuery,
+    loading,
+    error,
+    createStore,
+    deleteStore,
+    retryStore,
+    resizeStore,
+    cloneStore,
+    backupStore,
+    restoreStore,
+    refresh,
+    deleting,
+    creating,
+  } = useStores();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [quota, setQuota] = useState<TenantQuota | null>(null);
+  const [plans, setPlans] = useState<StorePlan[]>([]);
+
+  useEffect(() => {
+    api.getCurrentTenant().then((response) => {
+      if (response.success && response.data) {
+        setQuota(response.data.tenant.quota);
+      }
+    });
+  }, [principal.tenantId]);
+
+  useEffect(() => {
+    api.listPlans().then((response) => {
+      if (response.success && response.data) {
+        setPlans(response.data.plans);
+      }
+    });
+  }, []);
 
   const handleCreateStore = async (data: CreateStoreRequest): Promise<boolean> => {
     const success = await createStore(data);
@@ -21,10 +68,31 @@ function App() {
     return success;
   };
 
-  // Calculate stats
-  const totalStores = stores.length;
-  const activeStores = stores.filter(s => s.status === 'ready').length;
-  const failedStores = stores.filter(s => s.status === 'failed').length;
+  const loadCredentials = async (id: string) => {
+    const response = await api.getStoreCredentials(id);
+    return response.success && response.data ? response.data.credentials : null;
+  };
+
+  const loadBackups = async (id: string) => {
+    const response = await api.listBackups(id);
+    return response.success && response.data ? response.data.backups : null;
+  };
+
+  const loadHealthEvents = async (id: string) => {
+    const response = await api.listHealthEvents(id);
+    return response.success && response.data ? response.data.events : null;
+  };
+
+  const loadTimeline = async (id: string) => {
+    const response = await api.getTimeline(id);
+    return response.success && response.data ? response.data.events : null;
+  };
+
+  // Stats cover every live store, not just the current page
+  const totalStores = Object.values(statusCounts).reduce((sum, count) => sum + (count ?? 0), 0);
+  const activeStores = (statusCounts.ready ?? 0) + (statusCounts.resizing ?? 0) + (statusCounts.restoring ?? 0)
+    + (statusCounts.degraded ?? 0);
+  const failedStores = statusCounts.failed ?? 0;
 
   return (
     <div className="app-container">
@@ -49,10 +117,22 @@ function App() {
             </div>
             <h1>Urumi</h1>
           </div>
-          <button className="btn-create" onClick={() => setIsModalOpen(true)}>
-            <Plus size={20} />
-            <span>New Store</span>
-          </button>
+          <div className="header-actions">
+            {authEnabled && (
+              <div className="session-info">
+                <span>{principal.name} · {principal.tenantId} · {principal.role}</span>
+                <button className="btn-link" onClick={onLogout} title="Sign out">
+                  <LogOut size={16} />
+                </button>
+              </div>
+            )}
+            {can('stores:create') && (
+              <button className="btn-create" onClick={() => setIsModalOpen(true)}>
+                <Plus size={20} />
+                <span>New Store</span>
+              </button>
+            )}
+          </div>
         </header>
 
         {/* Content */}
@@ -61,7 +141,7 @@ function App() {
           <div className="dashboard-header">
             <div>
               <h2>Store Provisioning</h2>
-              <p className="subtitle">Kubernetes-native WooCommerce deployment</p>
+              <p className="subtitle">Kubernetes-native WooCommerce + MedusaJS deployment</p>
             </div>
           </div>
 
@@ -78,6 +158,7 @@ function App() {
             totalStores={totalStores}
             activeStores={activeStores}
             failedStores={failedStores}
+            maxStores={quota?.maxActiveStores}
           />
 
           {/* Store List Section */}
@@ -88,9 +169,23 @@ function App() {
 
           <StoreList 
             stores={stores} 
+            total={total}
+            query={query}
+            onQueryChange={setQuery}
             loading={loading} 
             error={error}
-            onDelete={deleteStore}
+            onDelete={can('stores:delete') ? deleteStore : undefined}
+            onRetry={can('stores:retry') ? retryStore : undefined}
+            onLoadCredentials={can('stores:credentials') ? loadCredentials : undefined}
+            onResize={can('stores:resize') ? resizeStore : undefined}
+            onClone={can('stores:create') ? cloneStore : undefined}
+            onLoadBackups={loadBackups}
+            onBackup={can('stores:backup') ? backupStore : undefined}
+            onRestore={can('stores:restore') ? restoreStore : undefined}
+            onLoadHealth={loadHealthEvents}
+            onLoadTimeline={loadTimeline}
+            onStreamLogs={can('stores:diagnostics') ? api.streamStoreLogs : undefined}
+            plans={plans}
             deleting={deleting}
           />
         </div>
@@ -107,4 +202,22 @@ function App() {
   );
 }
 
+function App() {
+  const { principal, can, authEnabled, checking, login, logout } = useAuth();
+
+  if (checking) {
+    return <div className="app-container" />;
+  }
+
+  if (!principal) {
+    return (
+      <div className="app-container">
+        <LoginForm onLogin={login} />
+      </div>
+    );
+  }
+
+  return <Dashboard principal={principal} can={can} authEnabled={authEnabled} onLogout={logout} />;
+}
+
 export default App;
@@ -1,8 +1,9 @@
 // Modal for creating new stores with form validation.
 
-import { useState } from 'react';
-import { CreateStoreRequest, StoreEngine } from '../types/store';
-import { Store, Database, Globe, Server, ShoppingCart, Sparkles, X, Rocket, Clock, ChevronRight } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { CreateStoreRequest, StoreEngine, StorePlan } from '../types/store';
+import { api } from '../services/api';
+import { Store, Database, Globe, Server, ShoppingCart, Sparkles, X, Rocket, Clock, ChevronRight, Gauge } from 'lucide-react';
 import './CreateStoreModal.css';
 
 interface CreateStoreModalProps {
@@ -12,18 +13,40 @@ interface CreateStoreModalProps {
   creating: boolean;
 }
 
-const provisioningSteps = [
-  { icon: Server, label: 'Kubernetes Namespace', description: 'Isolated environment' },
-  { icon: Database, label: 'MySQL Database', description: 'Persistent storage' },
-  { icon: ShoppingCart, label: 'WooCommerce', description: 'E-commerce platform' },
-  { icon: Globe, label: 'Public Ingress', description: 'External access' },
-];
+const provisioningSteps = {
+  woocommerce: [
+    { icon: Server, label: 'Kubernetes Namespace', description: 'Isolated environment' },
+    { icon: Database, label: 'MySQL Database', description: 'Persistent storage' },
+    { icon: ShoppingCart, label: 'WooCommerce', description: 'E-commerce platform' },
+    { icon: Globe, label: 'Public Ingress', description: 'External access' },
+  ],
+  medusa: [
+    { icon: Server, label: 'Kubernetes Namespace', description: 'Isolated environment' },
+    { icon: Database, label: 'Postgres + Redis', description: 'Persistent storage' },
+    { icon: Rocket, label: 'Medusa Backend', description: 'Headless commerce API' },
+    { icon: Globe, label: 'Public Ingress', description: 'External access' },
+  ],
+} satisfies Record<StoreEngine, unknown[]>;
 
 export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: CreateStoreModalProps) {
   const [name, setName] = useState('');
   const [engine, setEngine] = useState<StoreEngine>('woocommerce');
+  const [plans, setPlans] = useState<StorePlan[]>([]);
+  const [defaultPlan, setDefaultPlan] = useState('');
+  const [plan, setPlan] = useState('');
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    if (!isOpen) return;
+    api.listPlans().then((response) => {
+      if (response.success && response.data) {
+        setPlans(response.data.plans);
+        setDefaultPlan(response.data.defaultPlan);
+        setPlan((current) => current || response.data!.defaultPlan);
+      }
+    });
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -46,10 +69,12 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
       return;
     }
 
-    const success = await onSubmit({ name, engine });
+    // Without a plan list (request failed) the server applies its default plan
+    const success = await onSubmit({ name, engine, plan: plan || undefined });
     if (success) {
       setName('');
       setEngine('woocommerce');
+      setPlan(defaultPlan);
       onClose();
     }
   };
@@ -57,6 +82,8 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
   const handleClose = () => {
     if (!creating) {
       setName('');
+      setEngine('woocommerce');
+      setPlan(defaultPlan);
       setError('');
       onClose();
     }
@@ -79,7 +106,7 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
             </div>
             <div>
               <h2>Create New Store</h2>
-              <p className="modal-subtitle">Deploy a fully-managed WooCommerce store</p>
+              <p className="modal-subtitle">Deploy a fully-managed WooCommerce or MedusaJS store</p>
             </div>
           </div>
           <button className="modal-close-btn" onClick={handleClose} disabled={creating}>
@@ -137,20 +164,59 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
                 </div>
                 {engine === 'woocommerce' && <span className="engine-check">✓</span>}
               </label>
-              <label className="engine-option disabled">
-                <input type="radio" name="engine" disabled />
+              <label className={`engine-option ${engine === 'medusa' ? 'selected' : ''}`}>
+                <input
+                  type="radio"
+                  name="engine"
+                  value="medusa"
+                  checked={engine === 'medusa'}
+                  onChange={(e) => setEngine(e.target.value as StoreEngine)}
+                  disabled={creating}
+                />
                 <div className="engine-icon medusa">
                   <Rocket size={20} />
                 </div>
                 <div className="engine-info">
                   <span className="engine-name">MedusaJS</span>
-                  <span className="engine-desc">Coming Soon</span>
+                  <span className="engine-desc">Medusa + Postgres + Redis</span>
                 </div>
-                <span className="engine-badge">Soon</span>
+                {engine === 'medusa' && <span className="engine-check">✓</span>}
               </label>
             </div>
           </div>
 
+          {/* Plan Selection */}
+          {plans.length > 0 && (
+            <div className="form-section">
+              <label className="form-label">
+                <Gauge size={16} />
+                Size Plan
+              </label>
+              <div className="plan-options">
+                {plans.map((option) => (
+                  <label
+                    key={option.name}
+                    className={`plan-option ${plan === option.name ? 'selected' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name="plan"
+                      value={option.name}
+                      checked={plan === option.name}
+                      onChange={(e) => setPlan(e.target.value)}
+                      disabled={creating}
+                    />
+                    <span className="plan-name">{option.name}</span>
+                    <span className="plan-specs">
+                      {option.cpuMillicores / 1000} vCPU · {option.memoryMi / 1024} GiB · {option.storageGi} GiB disk
+                    </span>
+                    <span className="plan-desc">{option.description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="form-error">
@@ -169,7 +235,7 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
               </div>
             </div>
             <div className="provisioning-steps">
-              {provisioningSteps.map((step, index) => (
+              {provisioningSteps[engine].map((step, index) => (
                 <div key={index} className="provision-step">
                   <div className="step-icon-wrapper">
                     <step.icon size={16} />
@@ -178,7 +244,7 @@ export function CreateStoreModal({ isOpen, onClose, onSubmit, creating }: Create
                     <span className="step-label">{step.label}</span>
                     <span className="step-desc">{step.description}</span>
                   </div>
-                  {index < provisioningSteps.length - 1 && (
+                  {index < provisioningSteps[engine].length - 1 && (
                     <ChevronRight size={14} className="step-arrow" />
                   )}
                 </div>
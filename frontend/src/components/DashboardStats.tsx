@@ -5,12 +5,14 @@ interface DashboardStatsProps {
   totalStores: number;
   activeStores: number;
   failedStores: number;
+  maxStores?: number;            // Tenant quota, once loaded
 }
 
 export const DashboardStats: React.FC<DashboardStatsProps> = ({ 
   totalStores, 
   activeStores, 
-  failedStores 
+  failedStores,
+  maxStores,
 }) => {
   return (
     <div className="stats-grid">
@@ -23,7 +25,7 @@ export const DashboardStats: React.FC<DashboardStatsProps> = ({
         <div className="stat-content">
           <h3>Total Stores</h3>
           <div className="stat-value">{totalStores}</div>
-          <p className="stat-label">All time created</p>
+          <p className="stat-label">{maxStores ? `of ${maxStores} allowed for your tenant` : 'All time created'}</p>
         </div>
       </div>
 
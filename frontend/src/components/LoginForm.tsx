@@ -0,0 +1,67 @@
+// Sign-in screen: exchanges an API key for a dashboard session.
+
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import urumiLogo from '../assets/urumi-logo.png';
+import './LoginForm.css';
+
+interface LoginFormProps {
+  onLogin: (apiKey: string) => Promise<string | null>;
+}
+
+export function LoginForm({ onLogin }: LoginFormProps) {
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!apiKey.trim().startsWith('urk_')) {
+      setError('API keys start with urk_');
+      return;
+    }
+
+    setSubmitting(true);
+    const failure = await onLogin(apiKey.trim());
+    setSubmitting(false);
+
+    if (failure) {
+      setError(failure);
+    } else {
+      setApiKey('');
+    }
+  };
+
+  return (
+    <div className="login-screen">
+      <form className="login-card" onSubmit={handleSubmit}>
+        <div className="login-brand">
+          <div className="brand-logo">
+            <img src={urumiLogo} alt="Urumi" className="brand-icon-img" />
+          </div>
+          <h1>Urumi</h1>
+        </div>
+        <p>Sign in with an API key. The key is exchanged for a session and never stored in the browser.</p>
+
+        <input
+          type="password"
+          placeholder="urk_..."
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          autoComplete="off"
+          autoFocus
+          disabled={submitting}
+        />
+
+        {error && <div className="login-error">{error}</div>}
+
+        <button type="submit" className="btn-create" disabled={submitting}>
+          <KeyRound size={18} />
+          <span>{submitting ? 'Signing in...' : 'Sign in'}</span>
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ const statusConfig: Record<StoreStatus, { label: string; className: string }> =
   pending: { label: 'Pending', className: 'badge-pending' },
   provisioning: { label: 'Provisioning', className: 'badge-provisioning' },
   ready: { label: 'Ready', className: 'badge-ready' },
+  resizing: { label: 'Resizing', className: 'badge-resizing' },
+  restoring: { label: 'Restoring', className: 'badge-restoring' },
+  degraded: { label: 'Degraded', className: 'badge-degraded' },
   failed: { label: 'Failed', className: 'badge-failed' },
   deleting: { label: 'Deleting', className: 'badge-deleting' },
   deleted: { label: 'Deleted', className: 'badge-deleted' },
@@ -20,8 +23,9 @@ const statusConfig: Record<StoreStatus, { label: string; className: string }> =
 const phaseLabels: Record<ProvisioningPhase, string> = {
   namespace: 'Creating namespace...',
   database: 'Setting up database...',
-  application: 'Deploying WordPress...',
+  application: 'Deploying application...',
   validation: 'Validating...',
+  clone: 'Copying data...',
 };
 
 export function StatusBadge({ status, phase }: StatusBadgeProps) {
@@ -30,7 +34,7 @@ export function StatusBadge({ status, phase }: StatusBadgeProps) {
   return (
     <div className="status-badge-container">
       <span className={`status-badge ${config.className}`}>
-        {status === 'provisioning' && <span className="spinner" />}
+        {(status === 'provisioning' || status === 'resizing' || status === 'restoring') && <span className="spinner" />}
         {config.label}
       </span>
       {status === 'provisioning' && phase && (
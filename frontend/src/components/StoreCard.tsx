@@ -1,18 +1,125 @@
 // Individual store card showing status, URLs, and actions.
 
-import { useState } from 'react';
-import { Store } from '../types/store';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Store,
+  StoreEngine,
+  DeletionProgress,
+  ResizeProgress,
+  RestoreProgress,
+  StoreCredentials,
+  StorePlan,
+  Backup,
+  StoreHealthEvent,
+  ProvisioningEvent,
+  StoreLogsQuery,
+  LogStreamHandlers,
+} from '../types/store';
 import { StatusBadge } from './StatusBadge';
 import './StoreCard.css';
 
+// Component labels per engine  mysqlReady/wordpressReady track database/application readiness
+const engineLabels: Record<StoreEngine, { database: string; application: string; admin: string }> = {
+  woocommerce: { database: 'MySQL', application: 'WordPress', admin: 'WP Admin' },
+  medusa: { database: 'Postgres', application: 'Medusa', admin: 'Medusa Admin' },
+};
+
+// Log components per engine (the backend's EngineDriver.logComponents)
+const logComponents: Record<StoreEngine, string[]> = {
+  woocommerce: ['wordpress', 'mysql'],
+  medusa: ['medusa', 'postgres', 'redis'],
+};
+
+// Action handlers are omitted when the user's role does not allow the action
 interface StoreCardProps {
   store: Store;
-  onDelete: (id: string) => void;
+  onDelete?: (id: string) => void;
+  onRetry?: (id: string) => Promise<boolean>;
+  onLoadCredentials?: (id: string) => Promise<StoreCredentials | null>;
+  onResize?: (id: string, plan: string) => Promise<boolean>;
+  onClone?: (id: string, name: string) => Promise<boolean>;
+  onLoadBackups?: (id: string) => Promise<Backup[] | null>;
+  onBackup?: (id: string) => Promise<boolean>;
+  onRestore?: (id: string, backupId: string) => Promise<boolean>;
+  onLoadHealth?: (id: string) => Promise<StoreHealthEvent[] | null>;
+  onLoadTimeline?: (id: string) => Promise<ProvisioningEvent[] | null>;
+  onStreamLogs?: (id: string, query: StoreLogsQuery, handlers: LogStreamHandlers) => () => void;
+  plans: StorePlan[];
   deleting: boolean;
 }
 
-export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
+export function StoreCard({
+  store,
+  onDelete,
+  onRetry,
+  onLoadCredentials,
+  onResize,
+  onClone,
+  onLoadBackups,
+  onBackup,
+  onRestore,
+  onLoadHealth,
+  onLoadTimeline,
+  onStreamLogs,
+  plans,
+  deleting,
+}: StoreCardProps) {
   const [confirmDelete, setConfirmDelete] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [credentials, setCredentials] = useState<StoreCredentials | null>(null);
+  const [targetPlan, setTargetPlan] = useState(store.plan);
+  const [resizing, setResizing] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [showHealth, setShowHealth] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const [cloneName, setCloneName] = useState<string | null>(null);
+  const [cloning, setCloning] = useState(false);
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setRetrying(true);
+    await onRetry(store.id);
+    setRetrying(false);
+  };
+
+  const handleResize = async () => {
+    if (!onResize) return;
+    setResizing(true);
+    await onResize(store.id, targetPlan);
+    setResizing(false);
+  };
+
+  const handleClone = async () => {
+    if (!onClone || !cloneName) return;
+    setCloning(true);
+    if (await onClone(store.id, cloneName)) {
+      setCloneName(null);
+    }
+    setCloning(false);
+  };
+
+  const toggleCredentials = async () => {
+    if (credentials) {
+      setCredentials(null);
+    } else if (onLoadCredentials) {
+      setCredentials(await onLoadCredentials(store.id));
+    }
+  };
+  const labels = engineLabels[store.engine] || engineLabels.woocommerce;
+  // A degraded store is still provisioned  its links stay up while the health prober waits for it to recover
+  const running = store.status === 'ready' || store.status === 'degraded';
+  // A failed deletion is resumed by deleting again, not by retrying provisioning
+  const deletionFailed = store.status === 'failed' && !!store.deletionProgress;
+  // The latest resize stays visible while it runs, and afterwards only if something failed
+  const resizeFailed = !!store.resizeProgress?.steps.some((step) => step.status === 'failed');
+  const showResize = store.status === 'resizing' || (running && resizeFailed);
+  // Same for restores
+  const showRestore = store.status === 'restoring' || (running && !!store.restoreProgress?.error);
+  // Backups cover MySQL + wp-content, so only WooCommerce stores have them
+  const canBackUp = !!onLoadBackups && store.engine === 'woocommerce';
+  // Cloning copies the same data, so it has the same limit
+  const canClone = !!onClone && store.engine === 'woocommerce';
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -41,10 +148,20 @@ export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
             <span className="meta-label">Engine</span>
             <span className="meta-value engine-badge">{store.engine}</span>
           </div>
+          <div className="meta-item">
+            <span className="meta-label">Plan</span>
+            <span className="meta-value engine-badge">{store.plan}</span>
+          </div>
           <div className="meta-item">
             <span className="meta-label">Namespace</span>
             <span className="meta-value mono">{store.namespace}</span>
           </div>
+          {store.clonedFrom && (
+            <div className="meta-item">
+              <span className="meta-label">Cloned From</span>
+              <span className="meta-value mono">{store.clonedFrom}</span>
+            </div>
+          )}
           <div className="meta-item">
             <span className="meta-label">Created</span>
             <span className="meta-value">{formatDate(store.createdAt)}</span>
@@ -57,7 +174,7 @@ export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
           )}
         </div>
 
-        {store.status === 'ready' && store.url && (
+        {running && store.url && (
           <div className="store-urls">
             <a href={store.url} target="_blank" rel="noopener noreferrer" className="url-link">
               <span className="url-icon">🏪</span>
@@ -65,8 +182,79 @@ export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
             </a>
             <a href={store.adminUrl} target="_blank" rel="noopener noreferrer" className="url-link admin">
               <span className="url-icon">⚙️</span>
-              WP Admin
+              {labels.admin}
             </a>
+            {onLoadCredentials && (
+              <button className="url-link admin" onClick={toggleCredentials}>
+                <span className="url-icon">🔑</span>
+                {credentials ? 'Hide Login' : 'Admin Login'}
+              </button>
+            )}
+            {onLoadHealth && (
+              <button className="url-link admin" onClick={() => setShowHealth(!showHealth)}>
+                <span className="url-icon">🩺</span>
+                {showHealth ? 'Hide Health' : 'Health'}
+              </button>
+            )}
+            {canBackUp && running && (
+              <button className="url-link admin" onClick={() => setShowBackups(!showBackups)}>
+                <span className="url-icon">💾</span>
+                {showBackups ? 'Hide Backups' : 'Backups'}
+              </button>
+            )}
+            {canClone && running && (
+              <button
+                className="url-link admin"
+                onClick={() => setCloneName(cloneName === null ? `${store.name}-copy`.slice(0, 50) : null)}
+              >
+                <span className="url-icon">📋</span>
+                Clone
+              </button>
+            )}
+          </div>
+        )}
+
+        {cloneName !== null && canClone && running && (
+          <div className="clone-controls">
+            <input
+              className="clone-name"
+              value={cloneName}
+              onChange={(e) => setCloneName(e.target.value)}
+              placeholder="new-store-name"
+              disabled={cloning}
+            />
+            <button className="btn btn-secondary btn-sm" onClick={handleClone} disabled={cloning || !cloneName}>
+              {cloning ? 'Cloning...' : 'Create Clone'}
+            </button>
+            <button className="btn btn-secondary btn-sm" onClick={() => setCloneName(null)} disabled={cloning}>
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {showBackups && canBackUp && running && (
+          <BackupsPanel
+            storeId={store.id}
+            onLoad={onLoadBackups!}
+            onBackup={onBackup}
+            onRestore={onRestore}
+          />
+        )}
+
+        {showHealth && onLoadHealth && running && (
+          <HealthPanel storeId={store.id} healthReason={store.healthReason} onLoad={onLoadHealth} />
+        )}
+
+        {credentials && (
+          <div className="store-credentials">
+            <div className="meta-item">
+              <span className="meta-label">Username</span>
+              <span className="meta-value mono">{credentials.username}</span>
+            </div>
+            <div className="meta-item">
+              <span className="meta-label">Password</span>
+              <span className="meta-value mono">{credentials.password}</span>
+            </div>
           </div>
         )}
 
@@ -74,25 +262,68 @@ export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
           <div className="store-error">
             <span className="error-icon">⚠️</span>
             <div className="error-details">
-              <strong>Failed at: {store.errorPhase || 'unknown'}</strong>
+              <strong>Failed at: {deletionFailed ? 'deletion' : store.errorPhase || 'unknown'}</strong>
               <p>{store.errorMessage}</p>
             </div>
           </div>
         )}
 
+        {store.status === 'degraded' && (
+          <div className="store-error store-degraded">
+            <span className="error-icon">🩺</span>
+            <div className="error-details">
+              <strong>Failing health checks</strong>
+              <p>{store.healthReason || 'Waiting for details...'}</p>
+            </div>
+          </div>
+        )}
+
+        {showResize && store.resizeProgress && (
+          <ResizeProgressPanel progress={store.resizeProgress} />
+        )}
+
+        {showRestore && store.restoreProgress && (
+          <RestoreProgressPanel progress={store.restoreProgress} />
+        )}
+
+        {(store.status === 'deleting' || deletionFailed) && store.deletionProgress && (
+          <DeletionProgressPanel progress={store.deletionProgress} />
+        )}
+
         {/* Component status indicators */}
         <div className="component-status">
           <span className={`component ${store.mysqlReady ? 'ready' : ''}`}>
-            {store.mysqlReady ? '✓' : '○'} MySQL
+            {store.mysqlReady ? '✓' : '○'} {labels.database}
           </span>
           <span className={`component ${store.wordpressReady ? 'ready' : ''}`}>
-            {store.wordpressReady ? '✓' : '○'} WordPress
+            {store.wordpressReady ? '✓' : '○'} {labels.application}
           </span>
+          {onLoadTimeline && (
+            <button className="btn-link timeline-toggle" onClick={() => setShowTimeline(!showTimeline)}>
+              {showTimeline ? 'Hide timeline' : 'Timeline'}
+            </button>
+          )}
+          {onStreamLogs && (
+            <button
+              className={`btn-link ${onLoadTimeline ? '' : 'timeline-toggle'}`}
+              onClick={() => setShowLogs(!showLogs)}
+            >
+              {showLogs ? 'Hide logs' : 'Logs'}
+            </button>
+          )}
         </div>
+
+        {showLogs && onStreamLogs && (
+          <LogsPanel storeId={store.id} engine={store.engine} onStream={onStreamLogs} />
+        )}
+
+        {showTimeline && onLoadTimeline && (
+          <TimelinePanel storeId={store.id} status={store.status} phase={store.phase} onLoad={onLoadTimeline} />
+        )}
       </div>
 
       <div className="store-card-actions">
-        {confirmDelete ? (
+        {confirmDelete && onDelete ? (
           <div className="delete-confirm">
             <span className="confirm-text">Delete "{store.name}"?</span>
             <button
@@ -111,15 +342,430 @@ export function StoreCard({ store, onDelete, deleting }: StoreCardProps) {
             </button>
           </div>
         ) : (
-          <button
-            className="btn btn-danger"
-            onClick={() => setConfirmDelete(true)}
-            disabled={deleting || store.status === 'deleting'}
-          >
-            {deleting ? 'Deleting...' : 'Delete Store'}
+          <>
+            {onResize && running && plans.length > 1 && (
+              <div className="resize-controls">
+                <select
+                  className="plan-select"
+                  value={targetPlan}
+                  onChange={(e) => setTargetPlan(e.target.value)}
+                  disabled={resizing}
+                >
+                  {plans.map((plan) => (
+                    <option key={plan.name} value={plan.name}>{plan.name}</option>
+                  ))}
+                </select>
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleResize}
+                  disabled={resizing || (targetPlan === store.plan && !resizeFailed)}
+                >
+                  {resizing ? 'Resizing...' : targetPlan === store.plan && resizeFailed ? 'Retry Resize' : 'Resize'}
+                </button>
+              </div>
+            )}
+            {onRetry && store.status === 'failed' && !deletionFailed && (
+              <button
+                className="btn btn-secondary"
+                onClick={handleRetry}
+                disabled={retrying || deleting}
+              >
+                {retrying ? 'Retrying...' : 'Retry'}
+              </button>
+            )}
+            {onDelete && (
+              <button
+                className="btn btn-danger"
+                onClick={() => setConfirmDelete(true)}
+                disabled={deleting || store.status === 'deleting' || store.status === 'provisioning' || store.status === 'resizing' || store.status === 'restoring'}
+              >
+                {deleting || store.status === 'deleting'
+                  ? 'Deleting...'
+                  : deletionFailed ? 'Retry Delete' : 'Delete Store'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Per-resource outcome of the latest resize
+function ResizeProgressPanel({ progress }: { progress: ResizeProgress }) {
+  return (
+    <div className="resize-progress">
+      <strong>
+        {progress.completedAt
+          ? `Resize to ${progress.toPlan} incomplete`
+          : `Resizing ${progress.fromPlan} → ${progress.toPlan}...`}
+      </strong>
+      {progress.steps.length > 0 && (
+        <ul>
+          {progress.steps.map((step) => (
+            <li key={step.resource} className={`resize-step-${step.status}`}>
+              <span className="mono">{step.resource}</span> {step.status}
+              {step.message && <span className="resize-message">  {step.message}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// The restore in flight, or the latest one if it failed
+function RestoreProgressPanel({ progress }: { progress: RestoreProgress }) {
+  const backupDate = new Date(progress.backupCreatedAt).toLocaleString();
+
+  return (
+    <div className={`resize-progress ${progress.error ? 'restore-failed' : ''}`}>
+      <strong>
+        {progress.completedAt
+          ? `Restore from backup of ${backupDate} failed`
+          : `Restoring backup of ${backupDate}...`}
+      </strong>
+      {progress.error && <p className="resize-message">{progress.error}</p>}
+    </div>
+  );
+}
+
+interface BackupsPanelProps {
+  storeId: string;
+  onLoad: (id: string) => Promise<Backup[] | null>;
+  onBackup?: (id: string) => Promise<boolean>;
+  onRestore?: (id: string, backupId: string) => Promise<boolean>;
+}
+
+// Backup history with "back up now" and per-backup restore
+function BackupsPanel({ storeId, onLoad, onBackup, onRestore }: BackupsPanelProps) {
+  const [backups, setBackups] = useState<Backup[] | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setBackups(await onLoad(storeId));
+  }, [onLoad, storeId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // Backups don't change the store, so no store event announces their progress  poll while one runs
+  const inFlight = !!backups?.some((b) => b.status === 'pending' || b.status === 'running');
+  useEffect(() => {
+    if (!inFlight) return;
+    const interval = setInterval(load, 5000);
+    return () => clearInterval(interval);
+  }, [inFlight, load]);
+
+  const handleBackup = async () => {
+    if (!onBackup) return;
+    setStarting(true);
+    if (await onBackup(storeId)) {
+      await load();
+    }
+    setStarting(false);
+  };
+
+  const visible = backups?.filter((b) => b.status !== 'expired').slice(0, 5) ?? [];
+
+  return (
+    <div className="backups-panel">
+      <div className="backups-header">
+        <strong>Backups</strong>
+        {onBackup && (
+          <button className="btn btn-secondary btn-sm" onClick={handleBackup} disabled={starting || inFlight}>
+            {starting || inFlight ? 'Backing up...' : 'Back Up Now'}
           </button>
         )}
       </div>
+      {backups === null ? (
+        <p className="resize-message">Loading...</p>
+      ) : visible.length === 0 ? (
+        <p className="resize-message">No backups yet</p>
+      ) : (
+        <ul>
+          {visible.map((backup) => (
+            <li key={backup.id} className={`backup-${backup.status}`}>
+              <span>{new Date(backup.createdAt).toLocaleString()}</span>
+              <span className="resize-message"> · {backup.trigger} · {backup.status}</span>
+              {backup.errorMessage && <span className="resize-message">  {backup.errorMessage}</span>}
+              {onRestore && backup.status === 'succeeded' && (
+                confirmRestore === backup.id ? (
+                  <span className="backup-actions">
+                    <button className="btn btn-danger btn-sm" onClick={() => { onRestore(storeId, backup.id); setConfirmRestore(null); }}>
+                      Replace current data
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => setConfirmRestore(null)}>
+                      Cancel
+                    </button>
+                  </span>
+                ) : (
+                  <button className="btn-link backup-actions" onClick={() => setConfirmRestore(backup.id)}>
+                    Restore
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface HealthPanelProps {
+  storeId: string;
+  healthReason?: string;
+  onLoad: (id: string) => Promise<StoreHealthEvent[] | null>;
+}
+
+// Recent degraded / recovered changes. Reloaded when the store's health reason changes, since every
+// change the prober records also updates the store.
+function HealthPanel({ storeId, healthReason, onLoad }: HealthPanelProps) {
+  const [events, setEvents] = useState<StoreHealthEvent[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoad(storeId).then((loaded) => {
+      if (!cancelled) setEvents(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [onLoad, storeId, healthReason]);
+
+  const visible = events?.slice(0, 5) ?? [];
+
+  return (
+    <div className="backups-panel">
+      <div className="backups-header">
+        <strong>Health History</strong>
+      </div>
+      {events === null ? (
+        <p className="resize-message">Loading...</p>
+      ) : visible.length === 0 ? (
+        <p className="resize-message">No health problems recorded</p>
+      ) : (
+        <ul>
+          {visible.map((event) => (
+            <li key={event.id} className={event.healthy ? 'health-recovered' : 'health-degraded'}>
+              <span>{new Date(event.createdAt).toLocaleString()}</span>
+              <span className="resize-message"> · {event.healthy ? 'recovered' : 'degraded'}</span>
+              {event.reason && <span className="resize-message">  {event.reason}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface TimelinePanelProps {
+  storeId: string;
+  status: Store['status'];
+  phase?: Store['phase'];
+  onLoad: (id: string) => Promise<ProvisioningEvent[] | null>;
+}
+
+const outcomeIcons: Record<ProvisioningEvent['outcome'], string> = {
+  running: '…',
+  succeeded: '✓',
+  failed: '✗',
+  interrupted: '↻',
+};
+
+const formatStepDuration = (ms?: number) => {
+  if (ms === undefined) return '';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+// Each phase run with its steps, oldest first. Reloaded on every phase or status change; steps
+// inside a phase don't change the store, so poll while one is running.
+function TimelinePanel({ storeId, status, phase, onLoad }: TimelinePanelProps) {
+  const [events, setEvents] = useState<ProvisioningEvent[] | null>(null);
+
+  const load = useCallback(async () => {
+    setEvents(await onLoad(storeId));
+  }, [onLoad, storeId]);
+
+  useEffect(() => { load(); }, [load, status, phase]);
+
+  const running = !!events?.some((event) => event.outcome === 'running');
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(load, 5000);
+    return () => clearInterval(interval);
+  }, [running, load]);
+
+  // A phase row opens a group; its steps follow it
+  const groups: { phase: ProvisioningEvent; steps: ProvisioningEvent[] }[] = [];
+  for (const event of events ?? []) {
+    if (!event.step) {
+      groups.push({ phase: event, steps: [] });
+    } else {
+      const group = [...groups].reverse().find((g) => g.phase.phase === event.phase);
+      group?.steps.push(event);
+    }
+  }
+
+  return (
+    <div className="backups-panel timeline-panel">
+      <div className="backups-header">
+        <strong>Provisioning Timeline</strong>
+      </div>
+      {events === null ? (
+        <p className="resize-message">Loading...</p>
+      ) : groups.length === 0 ? (
+        <p className="resize-message">No provisioning recorded</p>
+      ) : (
+        <ol className="timeline">
+          {groups.map(({ phase: phaseEvent, steps }) => (
+            <li key={phaseEvent.id} className={`timeline-${phaseEvent.outcome}`}>
+              <span>{outcomeIcons[phaseEvent.outcome]} {phaseEvent.phase.replace('_', ' ')}</span>
+              <span className="resize-message"> {formatStepDuration(phaseEvent.durationMs)}</span>
+              {phaseEvent.error && <p className="resize-message">{phaseEvent.error}</p>}
+              {steps.length > 0 && (
+                <ul>
+                  {steps.map((step) => (
+                    <li key={step.id} className={`timeline-${step.outcome}`}>
+                      <span className="mono">{outcomeIcons[step.outcome]} {step.step}</span>
+                      <span className="resize-message"> {formatStepDuration(step.durationMs)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// Keeps the viewer responsive when following a chatty container
+const MAX_LOG_LINES = 2000;
+
+interface LogsPanelProps {
+  storeId: string;
+  engine: StoreEngine;
+  onStream: (id: string, query: StoreLogsQuery, handlers: LogStreamHandlers) => () => void;
+}
+
+// Container log viewer: picks a component and how much history, then streams (and optionally follows) it
+function LogsPanel({ storeId, engine, onStream }: LogsPanelProps) {
+  const components = logComponents[engine] ?? logComponents.woocommerce;
+  const [component, setComponent] = useState(components[0]);
+  const [tailLines, setTailLines] = useState(200);
+  const [sinceSeconds, setSinceSeconds] = useState(0);
+  const [follow, setFollow] = useState(true);
+  const [previous, setPrevious] = useState(false);
+  const [lines, setLines] = useState<string[]>([]);
+  const [source, setSource] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [stop, setStop] = useState<(() => void) | null>(null);
+  const output = useRef<HTMLPreElement>(null);
+
+  // Close the stream when the panel goes away
+  useEffect(() => () => stop?.(), [stop]);
+
+  useEffect(() => {
+    if (output.current) output.current.scrollTop = output.current.scrollHeight;
+  }, [lines]);
+
+  const start = () => {
+    stop?.();
+    setLines([]);
+    setSource(null);
+    setStatus('Connecting...');
+    const close = onStream(
+      storeId,
+      { component, tailLines, sinceSeconds: sinceSeconds || undefined, follow, previous },
+      {
+        onStart: (pod, container) => {
+          setSource(`${pod}/${container}`);
+          setStatus(follow ? 'Following' : null);
+        },
+        onLine: (line) => setLines((current) => [...current.slice(-(MAX_LOG_LINES - 1)), line]),
+        onEnd: (error) => {
+          setStatus(error ?? 'Stream ended');
+          setStop(null);
+        },
+      }
+    );
+    setStop(() => close);
+  };
+
+  const handleStop = () => {
+    stop?.();
+    setStop(null);
+    setStatus('Stopped');
+  };
+
+  return (
+    <div className="backups-panel logs-panel">
+      <div className="backups-header">
+        <strong>Logs{source && <span className="resize-message mono"> · {source}</span>}</strong>
+        {stop ? (
+          <button className="btn btn-secondary btn-sm" onClick={handleStop}>Stop</button>
+        ) : (
+          <button className="btn btn-secondary btn-sm" onClick={start}>Show Logs</button>
+        )}
+      </div>
+      <div className="logs-controls">
+        <select className="plan-select" value={component} onChange={(e) => setComponent(e.target.value)} disabled={!!stop}>
+          {components.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select className="plan-select" value={tailLines} onChange={(e) => setTailLines(Number(e.target.value))} disabled={!!stop}>
+          {[100, 200, 1000, 5000].map((count) => (
+            <option key={count} value={count}>last {count} lines</option>
+          ))}
+        </select>
+        <select className="plan-select" value={sinceSeconds} onChange={(e) => setSinceSeconds(Number(e.target.value))} disabled={!!stop}>
+          <option value={0}>any time</option>
+          <option value={300}>last 5 min</option>
+          <option value={3600}>last hour</option>
+          <option value={86400}>last day</option>
+        </select>
+        <label>
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} disabled={!!stop} /> Follow
+        </label>
+        <label>
+          <input type="checkbox" checked={previous} onChange={(e) => setPrevious(e.target.checked)} disabled={!!stop} /> Previous run
+        </label>
+      </div>
+      {status && <p className="resize-message">{status}</p>}
+      {lines.length > 0 && <pre className="logs-output" ref={output}>{lines.join('\n')}</pre>}
+    </div>
+  );
+}
+
+// What is still holding up the namespace deletion
+function DeletionProgressPanel({ progress }: { progress: DeletionProgress }) {
+  const shown = progress.remaining.slice(0, 4);
+  const hidden = progress.remaining.length - shown.length;
+
+  return (
+    <div className="deletion-progress">
+      <strong>
+        {progress.remaining.length > 0
+          ? `Waiting on ${progress.remaining.length} resource${progress.remaining.length === 1 ? '' : 's'}`
+          : `Namespace ${progress.namespacePhase?.toLowerCase() || 'deleting'}...`}
+        {progress.retries > 0 && ` · retried ${progress.retries}×`}
+      </strong>
+      {shown.length > 0 && (
+        <ul>
+          {shown.map((r) => (
+            <li key={`${r.kind}/${r.name}`}>
+              <span className="mono">{r.kind}/{r.name}</span>
+              {r.finalizers && <span className="finalizers"> finalizers: {r.finalizers.join(', ')}</span>}
+            </li>
+          ))}
+          {hidden > 0 && <li>…and {hidden} more</li>}
+        </ul>
+      )}
+      {progress.conditions.map((condition) => (
+        <p key={condition} className="deletion-condition">{condition}</p>
+      ))}
     </div>
   );
 }
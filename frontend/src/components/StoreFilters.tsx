@@ -0,0 +1,103 @@
+// Filter bar for the store list: search, status, engine and sort. Search is debounced.
+
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { StoreListQuery, StoreStatus, StoreEngine, StoreSortField } from '../types/store';
+import './StoreFilters.css';
+
+interface StoreFiltersProps {
+  query: StoreListQuery;
+  onChange: (query: StoreListQuery) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const statusOptions: { value: StoreStatus; label: string }[] = [
+  { value: 'provisioning', label: 'Provisioning' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'resizing', label: 'Resizing' },
+  { value: 'restoring', label: 'Restoring' },
+  { value: 'degraded', label: 'Degraded' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'deleting', label: 'Deleting' },
+];
+
+const sortOptions: { value: string; label: string }[] = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'name:asc', label: 'Name A–Z' },
+  { value: 'name:desc', label: 'Name Z–A' },
+  { value: 'status:asc', label: 'Status' },
+];
+
+export function StoreFilters({ query, onChange }: StoreFiltersProps) {
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Every filter change goes back to page 1
+  const update = (changes: Partial<StoreListQuery>) => {
+    onChange({ ...query, ...changes, page: 1 });
+  };
+
+  // A search reset from outside (e.g. a cleared query) shows up in the input
+  useEffect(() => {
+    setSearch(query.search ?? '');
+  }, [query.search]);
+
+  // Restarted by any other filter change, so the timer always applies the search to the latest query
+  useEffect(() => {
+    if (search === (query.search ?? '')) {
+      return;
+    }
+    const timer = setTimeout(
+      () => onChange({ ...query, search: search || undefined, page: 1 }),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [search, query, onChange]);
+
+  return (
+    <div className="store-filters">
+      <div className="filter-search">
+        <Search size={16} />
+        <input
+          type="search"
+          placeholder="Search by name or ID"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <select
+        value={query.status ?? ''}
+        onChange={(e) => update({ status: (e.target.value || undefined) as StoreStatus | undefined })}
+      >
+        <option value="">All statuses</option>
+        {statusOptions.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      <select
+        value={query.engine ?? ''}
+        onChange={(e) => update({ engine: (e.target.value || undefined) as StoreEngine | undefined })}
+      >
+        <option value="">All engines</option>
+        <option value="woocommerce">WooCommerce</option>
+        <option value="medusa">MedusaJS</option>
+      </select>
+
+      <select
+        value={`${query.sortBy}:${query.sortOrder}`}
+        onChange={(e) => {
+          const [sortBy, sortOrder] = e.target.value.split(':');
+          update({ sortBy: sortBy as StoreSortField, sortOrder: sortOrder as 'asc' | 'desc' });
+        }}
+      >
+        {sortOptions.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,18 +1,128 @@
-// Grid layout of store cards with loading/empty/error states.
+// Grid layout of store cards with filter bar, pager and loading/empty/error states.
 
-import { Store } from '../types/store';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Store, StoreListQuery, StoreCredentials, StorePlan, Backup, StoreHealthEvent, ProvisioningEvent, StoreLogsQuery, LogStreamHandlers } from '../types/store';
 import { StoreCard } from './StoreCard';
+import { StoreFilters } from './StoreFilters';
 import './StoreList.css';
 
 interface StoreListProps {
   stores: Store[];
+  total: number;
+  query: StoreListQuery;
+  onQueryChange: (query: StoreListQuery) => void;
   loading: boolean;
   error: string | null;
-  onDelete: (id: string) => Promise<boolean>;
+  onDelete?: (id: string) => Promise<boolean>;
+  onRetry?: (id: string) => Promise<boolean>;
+  onLoadCredentials?: (id: string) => Promise<StoreCredentials | null>;
+  onResize?: (id: string, plan: string) => Promise<boolean>;
+  onClone?: (id: string, name: string) => Promise<boolean>;
+  onLoadBackups?: (id: string) => Promise<Backup[] | null>;
+  onBackup?: (id: string) => Promise<boolean>;
+  onRestore?: (id: string, backupId: string) => Promise<boolean>;
+  onLoadHealth?: (id: string) => Promise<StoreHealthEvent[] | null>;
+  onLoadTimeline?: (id: string) => Promise<ProvisioningEvent[] | null>;
+  onStreamLogs?: (id: string, query: StoreLogsQuery, handlers: LogStreamHandlers) => () => void;
+  plans: StorePlan[];
   deleting: string | null;
 }
 
-export function StoreList({ stores, loading, error, onDelete, deleting }: StoreListProps) {
+export function StoreList({
+  stores,
+  total,
+  query,
+  onQueryChange,
+  loading,
+  error,
+  onDelete,
+  onRetry,
+  onLoadCredentials,
+  onResize,
+  onClone,
+  onLoadBackups,
+  onBackup,
+  onRestore,
+  onLoadHealth,
+  onLoadTimeline,
+  onStreamLogs,
+  plans,
+  deleting,
+}: StoreListProps) {
+  const filtered = !!(query.status || query.engine || query.search);
+
+  return (
+    <>
+      <StoreFilters query={query} onChange={onQueryChange} />
+      <StoreListBody
+        stores={stores}
+        filtered={filtered}
+        loading={loading}
+        error={error}
+        onDelete={onDelete}
+        onRetry={onRetry}
+        onLoadCredentials={onLoadCredentials}
+        onResize={onResize}
+        onClone={onClone}
+        onLoadBackups={onLoadBackups}
+        onBackup={onBackup}
+        onRestore={onRestore}
+        onLoadHealth={onLoadHealth}
+        onLoadTimeline={onLoadTimeline}
+        onStreamLogs={onStreamLogs}
+        plans={plans}
+        deleting={deleting}
+      />
+      {total > query.pageSize && (
+        <Pager
+          page={query.page}
+          pageCount={Math.ceil(total / query.pageSize)}
+          onPageChange={(page) => onQueryChange({ ...query, page })}
+        />
+      )}
+    </>
+  );
+}
+
+interface StoreListBodyProps {
+  stores: Store[];
+  filtered: boolean;
+  loading: boolean;
+  error: string | null;
+  onDelete?: (id: string) => Promise<boolean>;
+  onRetry?: (id: string) => Promise<boolean>;
+  onLoadCredentials?: (id: string) => Promise<StoreCredentials | null>;
+  onResize?: (id: string, plan: string) => Promise<boolean>;
+  onClone?: (id: string, name: string) => Promise<boolean>;
+  onLoadBackups?: (id: string) => Promise<Backup[] | null>;
+  onBackup?: (id: string) => Promise<boolean>;
+  onRestore?: (id: string, backupId: string) => Promise<boolean>;
+  onLoadHealth?: (id: string) => Promise<StoreHealthEvent[] | null>;
+  onLoadTimeline?: (id: string) => Promise<ProvisioningEvent[] | null>;
+  onStreamLogs?: (id: string, query: StoreLogsQuery, handlers: LogStreamHandlers) => () => void;
+  plans: StorePlan[];
+  deleting: string | null;
+}
+
+function StoreListBody({
+  stores,
+  filtered,
+  loading,
+  error,
+  onDelete,
+  onRetry,
+  onLoadCredentials,
+  onResize,
+  onClone,
+  onLoadBackups,
+  onBackup,
+  onRestore,
+  onLoadHealth,
+  onLoadTimeline,
+  onStreamLogs,
+  plans,
+  deleting,
+}: StoreListBodyProps) {
   if (loading) {
     return (
       <div className="store-list-state">
@@ -32,6 +142,16 @@ export function StoreList({ stores, loading, error, onDelete, deleting }: StoreL
     );
   }
 
+  if (stores.length === 0 && filtered) {
+    return (
+      <div className="store-list-state empty">
+        <span className="state-icon">🔍</span>
+        <h3>No matching stores</h3>
+        <p>Try a different search or clear the filters.</p>
+      </div>
+    );
+  }
+
   if (stores.length === 0) {
     return (
       <div className="store-list-state empty">
@@ -49,9 +169,40 @@ export function StoreList({ stores, loading, error, onDelete, deleting }: StoreL
           key={store.id}
           store={store}
           onDelete={onDelete}
+          onRetry={onRetry}
+          onLoadCredentials={onLoadCredentials}
+          onResize={onResize}
+          onClone={onClone}
+          onLoadBackups={onLoadBackups}
+          onBackup={onBackup}
+          onRestore={onRestore}
+          onLoadHealth={onLoadHealth}
+          onLoadTimeline={onLoadTimeline}
+          onStreamLogs={onStreamLogs}
+          plans={plans}
           deleting={deleting === store.id}
         />
       ))}
     </div>
   );
 }
+
+interface PagerProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+function Pager({ page, pageCount, onPageChange }: PagerProps) {
+  return (
+    <div className="store-pager">
+      <button onClick={() => onPageChange(page - 1)} disabled={page <= 1} aria-label="Previous page">
+        <ChevronLeft size={16} />
+      </button>
+      <span>Page {page} of {pageCount}</span>
+      <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount} aria-label="Next page">
+        <ChevronRight size={16} />
+      </button>
+    </div>
+  );
+}
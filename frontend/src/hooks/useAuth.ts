@@ -0,0 +1,61 @@
+// Dashboard session state. The session itself lives in an HttpOnly cookie; this hook only
+// tracks who is signed in and drops back to the login form when the API answers 401.
+
+import { useState, useEffect, useCallback } from 'react';
+import { Principal, Permission } from '../types/auth';
+import { api } from '../services/api';
+
+interface UseAuthResult {
+    principal: Principal | null;
+    can: (permission: Permission) => boolean;
+    authEnabled: boolean;
+    checking: boolean;
+    login: (apiKey: string) => Promise<string | null>;
+    logout: () => Promise<void>;
+}
+
+export function useAuth(): UseAuthResult {
+    const [principal, setPrincipal] = useState<Principal | null>(null);
+    const [permissions, setPermissions] = useState<Permission[]>([]);
+    const [authEnabled, setAuthEnabled] = useState(true);
+    const [checking, setChecking] = useState(true);
+
+    // Restore an existing session on load
+    useEffect(() => {
+        api.me()
+            .then((response) => {
+                if (response.success && response.data) {
+                    setPrincipal(response.data.principal);
+                    setPermissions(response.data.permissions);
+                    setAuthEnabled(response.data.authEnabled);
+                }
+            })
+            .finally(() => setChecking(false));
+    }, []);
+
+    useEffect(() => {
+        api.onUnauthorized(() => setPrincipal(null));
+        return () => api.onUnauthorized(null);
+    }, []);
+
+    // Returns an error message, or null on success
+    const login = useCallback(async (apiKey: string): Promise<string | null> => {
+        const response = await api.login(apiKey);
+        if (response.success && response.data) {
+            setPrincipal(response.data.principal);
+            setPermissions(response.data.permissions);
+            return null;
+        }
+        return response.error?.message || 'Login failed';
+    }, []);
+
+    const logout = useCallback(async () => {
+        await api.logout();
+        setPrincipal(null);
+    }, []);
+
+    // Only hides UI  the API enforces permissions regardless
+    const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+    return { principal, can, authEnabled, checking, login, logout };
+}
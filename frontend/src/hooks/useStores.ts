@@ -1,35 +1,63 @@
-// Store state hook with auto-polling for status updates.
+// Store state hook with live updates over SSE, falling back to polling while the stream is down.
+// Filtering, search, sort and paging happen server-side; changing the query refetches.
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Store, CreateStoreRequest } from '../types/store';
+import { Store, CreateStoreRequest, StoreListQuery, StoreStatus } from '../types/store';
 import { api } from '../services/api';
 
 interface UseStoresResult {
     stores: Store[];
+    total: number;
+    statusCounts: Partial<Record<StoreStatus, number>>;
+    query: StoreListQuery;
+    setQuery: (query: StoreListQuery) => void;
     loading: boolean;
     error: string | null;
     createStore: (request: CreateStoreRequest) => Promise<boolean>;
     deleteStore: (id: string) => Promise<boolean>;
+    retryStore: (id: string) => Promise<boolean>;
+    resizeStore: (id: string, plan: string) => Promise<boolean>;
+    cloneStore: (id: string, name: string) => Promise<boolean>;
+    backupStore: (id: string) => Promise<boolean>;
+    restoreStore: (id: string, backupId: string) => Promise<boolean>;
     refresh: () => Promise<void>;
     creating: boolean;
     deleting: string | null;
 }
 
 const POLL_INTERVAL = 5000; // 5 seconds
+const EVENT_DEBOUNCE = 250; // Coalesce bursts of store events into one refetch
+
+const DEFAULT_STORE_QUERY: StoreListQuery = {
+    page: 1,
+    pageSize: 12,
+    sortBy: 'createdAt',
+    sortOrder: 'desc',
+};
 
 export function useStores(): UseStoresResult {
     const [stores, setStores] = useState<Store[]>([]);
+    const [total, setTotal] = useState(0);
+    const [statusCounts, setStatusCounts] = useState<Partial<Record<StoreStatus, number>>>({});
+    const [query, setQuery] = useState<StoreListQuery>(DEFAULT_STORE_QUERY);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [creating, setCreating] = useState(false);
     const [deleting, setDeleting] = useState<string | null>(null);
 
-    // Fetch all stores
+    // Fetch the current page of stores
     const fetchStores = useCallback(async () => {
         try {
-            const response = await api.listStores();
+            const response = await api.listStores(query);
             if (response.success && response.data) {
+                // Page emptied out (e.g. its last store was deleted)  step back a page
+                if (response.data.stores.length === 0 && query.page > 1) {
+                    setQuery({ ...query, page: Math.max(1, Math.ceil(response.data.total / query.pageSize)) });
+                    return;
+                }
                 setStores(response.data.stores);
+                setTotal(response.data.total);
+                setStatusCounts(response.data.statusCounts);
                 setError(null);
             } else {
                 setError(response.error?.message || 'Failed to fetch stores');
@@ -39,22 +67,57 @@ export function useStores(): UseStoresResult {
         } finally {
             setLoading(false);
         }
-    }, []);
+    }, [query]);
 
     // Keep a ref to stores so the interval callback always reads latest without
     // being in the useEffect dependency array (avoids interval reset on every fetch).
     const storesRef = useRef(stores);
     useEffect(() => { storesRef.current = stores; }, [stores]);
 
-    // Initial fetch and polling
+    // Same for fetchStores, so a query change doesn't reopen the event stream
+    const fetchStoresRef = useRef(fetchStores);
+    useEffect(() => { fetchStoresRef.current = fetchStores; }, [fetchStores]);
+
+    // Whether the SSE stream is connected; polling only runs while it isn't
+    const liveRef = useRef(false);
+
+    // Live updates: refetch the current page whenever any store changes
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const refetchSoon = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => fetchStoresRef.current(), EVENT_DEBOUNCE);
+        };
+
+        const close = api.subscribeToStoreEvents({
+            onChange: refetchSoon,
+            onConnectionChange: (connected) => {
+                liveRef.current = connected;
+                // Changes may have been missed while disconnected
+                if (connected) {
+                    refetchSoon();
+                }
+            },
+        });
+
+        return () => {
+            clearTimeout(timer);
+            close();
+        };
+    }, []);
+
+    // Initial fetch and fallback polling
     useEffect(() => {
         fetchStores();
 
-        // Poll for updates (especially for provisioning status)
+        // Poll for updates (especially for provisioning status) while the event stream is down
         const interval = setInterval(() => {
+            if (liveRef.current) {
+                return;
+            }
             // Only poll if there are stores in progress
             const hasActiveStores = storesRef.current.some(
-                s => s.status === 'pending' || s.status === 'provisioning' || s.status === 'deleting'
+                s => s.status === 'pending' || s.status === 'provisioning' || s.status === 'resizing' || s.status === 'restoring' || s.status === 'deleting'
             );
             if (hasActiveStores) {
                 fetchStores();
@@ -108,12 +171,113 @@ export function useStores(): UseStoresResult {
         }
     }, [fetchStores]);
 
+    // Retry a failed store
+    const retryStore = useCallback(async (id: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await api.retryStore(id);
+            if (response.success) {
+                await fetchStores();
+                return true;
+            } else {
+                setError(response.error?.message || 'Failed to retry store');
+                return false;
+            }
+        } catch (err) {
+            setError('Failed to retry store');
+            return false;
+        }
+    }, [fetchStores]);
+
+    // Move a ready store to another plan
+    const resizeStore = useCallback(async (id: string, plan: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await api.resizeStore(id, plan);
+            if (response.success) {
+                await fetchStores();
+                return true;
+            } else {
+                setError(response.error?.message || 'Failed to resize store');
+                return false;
+            }
+        } catch (err) {
+            setError('Failed to resize store');
+            return false;
+        }
+    }, [fetchStores]);
+
+    // Copy a ready store into a new one
+    const cloneStore = useCallback(async (id: string, name: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await api.cloneStore(id, name);
+            if (response.success) {
+                await fetchStores();
+                return true;
+            } else {
+                setError(response.error?.message || 'Failed to clone store');
+                return false;
+            }
+        } catch (err) {
+            setError('Failed to clone store');
+            return false;
+        }
+    }, [fetchStores]);
+
+    // Start a backup  the store itself doesn't change, so there is nothing to refetch
+    const backupStore = useCallback(async (id: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await api.createBackup(id);
+            if (!response.success) {
+                setError(response.error?.message || 'Failed to back up store');
+            }
+            return response.success;
+        } catch (err) {
+            setError('Failed to back up store');
+            return false;
+        }
+    }, []);
+
+    // Restore a ready store from one of its backups
+    const restoreStore = useCallback(async (id: string, backupId: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await api.restoreStore(id, backupId);
+            if (response.success) {
+                await fetchStores();
+                return true;
+            } else {
+                setError(response.error?.message || 'Failed to restore store');
+                return false;
+            }
+        } catch (err) {
+            setError('Failed to restore store');
+            return false;
+        }
+    }, [fetchStores]);
+
     return {
         stores,
+        total,
+        statusCounts,
+        query,
+        setQuery,
         loading,
         error,
         createStore,
         deleteStore,
+        retryStore,
+        resizeStore,
+        cloneStore,
+        backupStore,
+        restoreStore,
         refresh: fetchStores,
         creating,
         deleting,
@@ -1,9 +1,13 @@
 // API client for backend communication.
 
-import { Store, CreateStoreRequest, ApiResponse, StoreListResponse } from '../types/store';
+import { Store, CreateStoreRequest, ApiResponse, StoreListResponse, StoreListQuery, StoreCredentials, StorePlan, Backup, StoreHealthEvent, ProvisioningEvent, StoreLogsQuery, LogStreamHandlers } from '../types/store';
+import { Principal, Permission, Session, Tenant, TenantUsage } from '../types/auth';
 
 const API_BASE = '/api';
 
+// Called when any request comes back 401 (session expired or key revoked)
+let unauthorizedHandler: (() => void) | null = null;
+
 /**
  * Generic fetch wrapper with error handling
  */
@@ -20,6 +24,10 @@ async function fetchApi<T>(
             ...options,
         });
 
+        if (response.status === 401 && unauthorizedHandler) {
+            unauthorizedHandler();
+        }
+
         const data = await response.json();
         return data;
     } catch (error) {
@@ -39,10 +47,62 @@ async function fetchApi<T>(
  */
 export const api = {
     /**
-     * List all stores
+     * Register the handler invoked on 401 responses
+     */
+    onUnauthorized(handler: (() => void) | null): void {
+        unauthorizedHandler = handler;
+    },
+
+    /**
+     * Exchange an API key for a session. The session cookie is HttpOnly and is
+     * sent automatically on same-origin requests, including the event stream.
+     */
+    async login(apiKey: string): Promise<ApiResponse<Session>> {
+        return fetchApi<Session>('/auth/login', {
+            method: 'POST',
+            body: JSON.stringify({ apiKey }),
+        });
+    },
+
+    /**
+     * End the dashboard session
+     */
+    async logout(): Promise<ApiResponse<void>> {
+        return fetchApi<void>('/auth/logout', { method: 'POST' });
+    },
+
+    /**
+     * Current principal, if the session cookie is still valid
+     */
+    async me(): Promise<ApiResponse<{ principal: Principal; permissions: Permission[]; authEnabled: boolean }>> {
+        return fetchApi<{ principal: Principal; permissions: Permission[]; authEnabled: boolean }>('/auth/me');
+    },
+
+    /**
+     * The caller's tenant with its quota and current usage
+     */
+    async getCurrentTenant(): Promise<ApiResponse<{ tenant: Tenant; usage: TenantUsage }>> {
+        return fetchApi<{ tenant: Tenant; usage: TenantUsage }>('/tenants/current');
+    },
+
+    /**
+     * Size plans a new store can be created with
+     */
+    async listPlans(): Promise<ApiResponse<{ plans: StorePlan[]; defaultPlan: string }>> {
+        return fetchApi<{ plans: StorePlan[]; defaultPlan: string }>('/plans');
+    },
+
+    /**
+     * List one page of stores matching the query
      */
-    async listStores(): Promise<ApiResponse<StoreListResponse>> {
-        return fetchApi<StoreListResponse>('/stores');
+    async listStores(query: StoreListQuery): Promise<ApiResponse<StoreListResponse>> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== '') {
+                params.set(key, String(value));
+            }
+        }
+        return fetchApi<StoreListResponse>(`/stores?${params}`);
     },
 
     /**
@@ -52,6 +112,13 @@ export const api = {
         return fetchApi<{ store: Store }>(`/stores/${id}`);
     },
 
+    /**
+     * Store admin login (requires the stores:credentials permission)
+     */
+    async getStoreCredentials(id: string): Promise<ApiResponse<{ credentials: StoreCredentials }>> {
+        return fetchApi<{ credentials: StoreCredentials }>(`/stores/${id}/credentials`);
+    },
+
     /**
      * Create a new store
      */
@@ -63,14 +130,169 @@ export const api = {
     },
 
     /**
-     * Delete a store
+     * Retry a failed store from the phase it failed in
      */
-    async deleteStore(id: string): Promise<ApiResponse<{ message: string }>> {
-        return fetchApi<{ message: string }>(`/stores/${id}`, {
+    async retryStore(id: string): Promise<ApiResponse<{ store: Store; message: string }>> {
+        return fetchApi<{ store: Store; message: string }>(`/stores/${id}/retry`, {
+            method: 'POST',
+        });
+    },
+
+    /**
+     * Move a ready store to another plan (202)  progress arrives via the store's resizeProgress
+     */
+    async resizeStore(id: string, plan: string): Promise<ApiResponse<{ store: Store; message: string }>> {
+        return fetchApi<{ store: Store; message: string }>(`/stores/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ plan }),
+        });
+    },
+
+    /**
+     * Copy a ready store into a new one (202)  the clone provisions like any new store
+     */
+    async cloneStore(id: string, name: string): Promise<ApiResponse<{ store: Store; message: string }>> {
+        return fetchApi<{ store: Store; message: string }>(`/stores/${id}/clone`, {
+            method: 'POST',
+            body: JSON.stringify({ name }),
+        });
+    },
+
+    /**
+     * Backup history of a store, newest first
+     */
+    async listBackups(id: string): Promise<ApiResponse<{ backups: Backup[] }>> {
+        return fetchApi<{ backups: Backup[] }>(`/stores/${id}/backups`);
+    },
+
+    /**
+     * Health changes of a store (degraded / recovered), newest first
+     */
+    async listHealthEvents(id: string): Promise<ApiResponse<{ events: StoreHealthEvent[] }>> {
+        return fetchApi<{ events: StoreHealthEvent[] }>(`/stores/${id}/health`);
+    },
+
+    /**
+     * Provisioning phases and their steps, oldest first
+     */
+    async getTimeline(id: string): Promise<ApiResponse<{ events: ProvisioningEvent[] }>> {
+        return fetchApi<{ events: ProvisioningEvent[] }>(`/stores/${id}/timeline`);
+    },
+
+    /**
+     * Start a backup of a ready store (202)
+     */
+    async createBackup(id: string): Promise<ApiResponse<{ backup: Backup; message: string }>> {
+        return fetchApi<{ backup: Backup; message: string }>(`/stores/${id}/backups`, {
+            method: 'POST',
+        });
+    },
+
+    /**
+     * Restore a ready store from one of its backups (202)  the store shows 'restoring' meanwhile
+     */
+    async restoreStore(id: string, backupId: string): Promise<ApiResponse<{ store: Store; message: string }>> {
+        return fetchApi<{ store: Store; message: string }>(`/stores/${id}/restore`, {
+            method: 'POST',
+            body: JSON.stringify({ backupId }),
+        });
+    },
+
+    /**
+     * Start deleting a store (202)  progress arrives via the store's deletionProgress
+     */
+    async deleteStore(id: string): Promise<ApiResponse<{ store: Store; message: string }>> {
+        return fetchApi<{ store: Store; message: string }>(`/stores/${id}`, {
             method: 'DELETE',
         });
     },
 
+    /**
+     * Open the live store event stream (SSE). EventSource reconnects on its own;
+     * onConnectionChange reports whether the stream is currently up.
+     * Returns a function that closes the stream.
+     */
+    subscribeToStoreEvents(handlers: {
+        onChange: () => void;
+        onConnectionChange: (connected: boolean) => void;
+    }): () => void {
+        if (typeof EventSource === 'undefined') {
+            return () => {};
+        }
+
+        const source = new EventSource(`${API_BASE}/stores/events`);
+        source.onopen = () => handlers.onConnectionChange(true);
+        source.onerror = () => handlers.onConnectionChange(false);
+        for (const type of ['store.created', 'store.updated', 'resync']) {
+            source.addEventListener(type, () => handlers.onChange());
+        }
+
+        return () => source.close();
+    },
+
+    /**
+     * Stream a store component's container logs (requires stores:diagnostics). Read with fetch rather
+     * than EventSource so a refused request reports its error and a finished stream isn't reopened.
+     * Returns a function that stops the stream.
+     */
+    streamStoreLogs(id: string, query: StoreLogsQuery, handlers: LogStreamHandlers): () => void {
+        const controller = new AbortController();
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined) params.set(key, String(value));
+        }
+
+        (async () => {
+            try {
+                const response = await fetch(`${API_BASE}/stores/${id}/logs?${params}`, { signal: controller.signal });
+                if (!response.ok || !response.body) {
+                    if (response.status === 401 && unauthorizedHandler) {
+                        unauthorizedHandler();
+                    }
+                    const data = await response.json().catch(() => null);
+                    handlers.onEnd(data?.error?.message ?? `Request failed (HTTP ${response.status})`);
+                    return;
+                }
+
+                const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+                let buffer = '';
+                for (;;) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+                    buffer += value;
+                    const events = buffer.split('\n\n');
+                    buffer = events.pop() ?? '';
+                    for (const raw of events) {
+                        if (raw.startsWith(':')) continue; // Heartbeat
+                        let type = 'message';
+                        let data = '';
+                        for (const field of raw.split('\n')) {
+                            if (field.startsWith('event: ')) type = field.slice(7);
+                            else if (field.startsWith('data: ')) data = field.slice(6);
+                            else if (field === 'data:') data = '';
+                        }
+                        if (type === 'start') {
+                            const { pod, container } = JSON.parse(data);
+                            handlers.onStart(pod, container);
+                        } else if (type === 'end') {
+                            handlers.onEnd(JSON.parse(data).error);
+                            return;
+                        } else {
+                            handlers.onLine(data);
+                        }
+                    }
+                }
+                handlers.onEnd('Log stream closed');
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    handlers.onEnd(error instanceof Error ? error.message : 'Log stream failed');
+                }
+            }
+        })();
+
+        return () => controller.abort();
+    },
+
     /**
      * Check API health
      */
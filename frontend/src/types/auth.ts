@@ -0,0 +1,53 @@
+// Auth type definitions mirroring the backend's auth model.
+
+export type PrincipalType = 'api_key' | 'session' | 'anonymous';
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+    | 'stores:read'
+    | 'stores:create'
+    | 'stores:delete'
+    | 'stores:retry'
+    | 'stores:resize'
+    | 'stores:backup'
+    | 'stores:restore'
+    | 'stores:credentials'
+    | 'stores:diagnostics'
+    | 'audit:read'
+    | 'keys:manage'
+    | 'drift:manage';
+
+export interface Principal {
+    id: string;
+    name: string;
+    type: PrincipalType;
+    tenantId: string;
+    role: Role;
+}
+
+export interface TenantQuota {
+    maxActiveStores: number;
+    maxCpuMillicores: number;
+    maxStorageGi: number;
+}
+
+export interface TenantUsage {
+    activeStores: number;
+    cpuMillicores: number;
+    storageGi: number;
+}
+
+export interface Tenant {
+    id: string;
+    name: string;
+    quota: TenantQuota;
+    createdAt: string;
+}
+
+export interface Session {
+    token: string;
+    expiresAt: string;
+    principal: Principal;
+    permissions: Permission[];     // Granted by the principal's role
+}
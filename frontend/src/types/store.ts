@@ -4,6 +4,9 @@ export type StoreStatus =
     | 'pending'
     | 'provisioning'
     | 'ready'
+    | 'resizing'
+    | 'restoring'
+    | 'degraded'
     | 'failed'
     | 'deleting'
     | 'deleted';
@@ -14,31 +17,164 @@ export type ProvisioningPhase =
     | 'namespace'
     | 'database'
     | 'application'
-    | 'validation';
+    | 'validation'
+    | 'clone';
 
 export interface Store {
     id: string;
+    tenantId: string;
     name: string;
     namespace: string;
     engine: StoreEngine;
+    plan: string;
+    resources?: StoreResources;
+    clonedFrom?: string;
     status: StoreStatus;
     phase?: ProvisioningPhase;
     errorMessage?: string;
     errorPhase?: ProvisioningPhase;
+    healthReason?: string;
     url?: string;
     adminUrl?: string;
     mysqlReady: boolean;
     wordpressReady: boolean;
+    cpuMillicores: number;
+    storageGi: number;
     createdAt: string;
     updatedAt: string;
     readyAt?: string;
     deletedAt?: string;
     provisioningDurationMs?: number;
+    deletionProgress?: DeletionProgress;
+    resizeProgress?: ResizeProgress;
+    restoreProgress?: RestoreProgress;
+}
+
+// A size plan as listed by GET /api/plans
+export interface StorePlan {
+    name: string;
+    description: string;
+    cpuMillicores: number;
+    memoryMi: number;
+    storageGi: number;
+    databaseStorageGi: number;
+    applicationStorageGi: number;
+    applicationReplicas: number;
+}
+
+export interface StoreCredentials {
+    username: string;
+    password: string;
+    loginUrl: string;
+}
+
+export interface ResizeStep {
+    resource: string;
+    status: 'applied' | 'skipped' | 'failed';
+    message?: string;
+}
+
+// Explicit sizes set by a resize, overriding the plan's
+export interface StoreResources {
+    cpuMillicores?: number;
+    memoryMi?: number;
+    databaseStorageGi?: number;
+    applicationStorageGi?: number;
+}
+
+export interface ResizeProgress {
+    fromPlan: string;
+    toPlan: string;
+    fromResources?: StoreResources;
+    toResources?: StoreResources;
+    startedAt: string;
+    completedAt?: string;
+    steps: ResizeStep[];
+}
+
+export interface RestoreProgress {
+    backupId: string;
+    backupCreatedAt: string;
+    startedAt: string;
+    completedAt?: string;
+    error?: string;
+}
+
+export type BackupStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'expired';
+
+export interface Backup {
+    id: string;
+    storeId: string;
+    trigger: 'manual' | 'scheduled';
+    status: BackupStatus;
+    objectPrefix: string;
+    errorMessage?: string;
+    requestedBy?: string;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+}
+
+export interface ComponentHealth {
+    healthy: boolean;
+    message?: string;
+}
+
+// A READY ⇄ DEGRADED change recorded by the health prober
+export interface StoreHealthEvent {
+    id: number;
+    storeId: string;
+    healthy: boolean;
+    reason?: string;
+    components: Record<string, ComponentHealth>;
+    createdAt: string;
+}
+
+export type StepOutcome = 'running' | 'succeeded' | 'failed' | 'interrupted';
+
+// One provisioning phase (no step) or a step inside it, from GET /api/stores/:id/timeline
+export interface ProvisioningEvent {
+    id: number;
+    storeId: string;
+    phase: ProvisioningPhase | 'post_install';
+    step?: string;
+    outcome: StepOutcome;
+    error?: string;
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+}
+
+// GET /api/stores/:id/logs  component is e.g. wordpress | mysql (WooCommerce), medusa | postgres | redis (Medusa)
+export interface StoreLogsQuery {
+    component: string;
+    container?: string;
+    follow?: boolean;
+    tailLines?: number;
+    sinceSeconds?: number;
+    timestamps?: boolean;
+    previous?: boolean;
+}
+
+export interface LogStreamHandlers {
+    onStart: (pod: string, container: string) => void;
+    onLine: (line: string) => void;
+    onEnd: (error?: string) => void;
+}
+
+export interface DeletionProgress {
+    startedAt: string;
+    lastCheckedAt?: string;
+    namespacePhase?: string;
+    remaining: { kind: string; name: string; finalizers?: string[] }[];
+    conditions: string[];
+    retries: number;
 }
 
 export interface CreateStoreRequest {
     name: string;
     engine?: StoreEngine;
+    plan?: string;
 }
 
 export interface ApiResponse<T> {
@@ -54,4 +190,19 @@ export interface ApiResponse<T> {
 export interface StoreListResponse {
     stores: Store[];
     total: number;
+    page: number;
+    pageSize: number;
+    statusCounts: Partial<Record<StoreStatus, number>>;
+}
+
+export type StoreSortField = 'createdAt' | 'updatedAt' | 'name' | 'status';
+
+export interface StoreListQuery {
+    status?: StoreStatus;
+    engine?: StoreEngine;
+    search?: string;
+    page: number;
+    pageSize: number;
+    sortBy: StoreSortField;
+    sortOrder: 'asc' | 'desc';
 }
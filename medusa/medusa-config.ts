@@ -0,0 +1,35 @@
+// Medusa configuration for Urumi store pods. Every value comes from the env the API sets on the
+// store's Deployment (see backend/src/services/k8s/medusa.ts).
+
+import { loadEnv, defineConfig } from '@medusajs/framework/utils'
+
+loadEnv(process.env.NODE_ENV || 'development', process.cwd())
+
+module.exports = defineConfig({
+  projectConfig: {
+    databaseUrl: process.env.DATABASE_URL,
+    // The store's Postgres runs in its namespace without TLS
+    databaseDriverOptions: {
+      connection: { ssl: false },
+    },
+    redisUrl: process.env.REDIS_URL,
+    http: {
+      storeCors: process.env.STORE_CORS!,
+      adminCors: process.env.ADMIN_CORS!,
+      authCors: process.env.AUTH_CORS!,
+      jwtSecret: process.env.JWT_SECRET!,
+      cookieSecret: process.env.COOKIE_SECRET!,
+    },
+  },
+  // Redis-backed cache and event bus instead of the in-memory ones (one per replica)
+  modules: [
+    {
+      resolve: '@medusajs/medusa/cache-redis',
+      options: { redisUrl: process.env.REDIS_URL },
+    },
+    {
+      resolve: '@medusajs/medusa/event-bus-redis',
+      options: { redisUrl: process.env.REDIS_URL },
+    },
+  ],
+})
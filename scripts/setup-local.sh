@@ -103,12 +103,17 @@ docker build -t urumi/api:local ./backend
 echo "Building frontend image..."
 docker build -t urumi/dashboard:local ./frontend
 
+# Medusa store engine (MEDUSA_IMAGE default)
+echo "Building Medusa image..."
+docker build -t urumi/medusa:latest ./medusa
+
 echo -e "${GREEN}✓ Images built${NC}"
 
 # Load images into Kind
 echo -e "\n${YELLOW}Loading images into Kind cluster...${NC}"
 kind load docker-image urumi/api:local --name urumi-dev
 kind load docker-image urumi/dashboard:local --name urumi-dev
+kind load docker-image urumi/medusa:latest --name urumi-dev
 echo -e "${GREEN}✓ Images loaded${NC}"
 
 # Install Helm chart